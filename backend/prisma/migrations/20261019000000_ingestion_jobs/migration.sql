@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "IngestionJob" (
+    "id" TEXT NOT NULL,
+    "contentHash" TEXT,
+    "fileName" TEXT NOT NULL,
+    "fileType" TEXT NOT NULL,
+    "sourcePath" TEXT NOT NULL,
+    "stage" TEXT NOT NULL DEFAULT 'queued',
+    "lastCompletedStage" TEXT,
+    "progress" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "IngestionJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "IngestionJob_stage_createdAt_idx" ON "IngestionJob"("stage", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "IngestionJob" ADD CONSTRAINT "IngestionJob_id_fkey" FOREIGN KEY ("id") REFERENCES "Document"("id") ON DELETE CASCADE ON UPDATE CASCADE;
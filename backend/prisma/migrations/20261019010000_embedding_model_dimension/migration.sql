@@ -0,0 +1,17 @@
+-- AlterTable: 记录每条向量的模型与维度
+ALTER TABLE "ChunkEmbedding" ADD COLUMN "model" TEXT;
+ALTER TABLE "ChunkEmbedding" ADD COLUMN "dimension" INTEGER;
+
+-- 既有向量均由默认配置（embedding-2, 256 维）生成；
+-- 若部署时使用过其他 OPENAI_EMBEDDING_MODEL，请在迁移后手动修正 model 列。
+UPDATE "ChunkEmbedding" SET "model" = 'embedding-2', "dimension" = 256;
+
+ALTER TABLE "ChunkEmbedding" ALTER COLUMN "model" SET NOT NULL;
+ALTER TABLE "ChunkEmbedding" ALTER COLUMN "dimension" SET NOT NULL;
+
+-- 固定维度的 HNSW 索引无法用于不定维度列，改为按维度的部分表达式索引
+DROP INDEX IF EXISTS "ChunkEmbedding_embedding_hnsw_idx";
+ALTER TABLE "ChunkEmbedding" ALTER COLUMN "embedding" TYPE vector;
+
+-- CreateIndex
+CREATE INDEX "ChunkEmbedding_model_dimension_idx" ON "ChunkEmbedding"("model", "dimension");
@@ -0,0 +1,27 @@
+-- AlterTable: 索引版本（重建索引时新旧版本并存，切换 Document.indexVersion 即原子生效）
+ALTER TABLE "Document" ADD COLUMN "indexVersion" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Chunk" ADD COLUMN "indexVersion" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "ChunkContext" ADD COLUMN "indexVersion" INTEGER NOT NULL DEFAULT 1;
+
+-- CreateIndex
+CREATE INDEX "Chunk_documentId_indexVersion_idx" ON "Chunk"("documentId", "indexVersion");
+
+-- CreateTable
+CREATE TABLE "ReindexJob" (
+    "id" TEXT NOT NULL,
+    "scope" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "documentIds" TEXT[],
+    "completedIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "failedIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReindexJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ReindexJob_status_createdAt_idx" ON "ReindexJob"("status", "createdAt");
@@ -0,0 +1,3 @@
+-- AlterTable: 文档归档 / 软删除
+ALTER TABLE "Document" ADD COLUMN "archivedAt" TIMESTAMP(3);
+ALTER TABLE "Document" ADD COLUMN "deletedAt" TIMESTAMP(3);
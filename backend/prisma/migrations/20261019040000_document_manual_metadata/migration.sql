@@ -0,0 +1,2 @@
+-- AlterTable: 记录人工编辑过的元数据字段，重新入库时不被提取结果覆盖
+ALTER TABLE "Document" ADD COLUMN "manualMetadata" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,50 @@
+-- CreateTable
+CREATE TABLE "Workspace" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workspace_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkspaceMember" (
+    "workspaceId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "role" TEXT NOT NULL DEFAULT 'member',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceMember_pkey" PRIMARY KEY ("workspaceId","userId")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceMember_userId_idx" ON "WorkspaceMember"("userId");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceMember" ADD CONSTRAINT "WorkspaceMember_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 默认工作区：承接已有数据，所有用户均可访问（id 与 DEFAULT_WORKSPACE_ID 一致）
+INSERT INTO "Workspace" ("id", "name", "updatedAt") VALUES ('00000000-0000-0000-0000-000000000000', '默认知识库', CURRENT_TIMESTAMP);
+
+-- AlterTable: 已有行归入默认工作区，之后由应用显式写入
+ALTER TABLE "Document" ADD COLUMN "workspaceId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000';
+ALTER TABLE "Document" ALTER COLUMN "workspaceId" DROP DEFAULT;
+ALTER TABLE "ChatSession" ADD COLUMN "workspaceId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000';
+ALTER TABLE "ChatSession" ALTER COLUMN "workspaceId" DROP DEFAULT;
+ALTER TABLE "EvalRecord" ADD COLUMN "workspaceId" TEXT NOT NULL DEFAULT '00000000-0000-0000-0000-000000000000';
+ALTER TABLE "EvalRecord" ALTER COLUMN "workspaceId" DROP DEFAULT;
+
+-- 内容哈希改为工作区内唯一
+DROP INDEX "Document_contentHash_key";
+CREATE UNIQUE INDEX "Document_workspaceId_contentHash_key" ON "Document"("workspaceId", "contentHash");
+
+-- CreateIndex
+CREATE INDEX "Document_workspaceId_status_idx" ON "Document"("workspaceId", "status");
+CREATE INDEX "ChatSession_workspaceId_idx" ON "ChatSession"("workspaceId");
+CREATE INDEX "EvalRecord_workspaceId_idx" ON "EvalRecord"("workspaceId");
+
+-- AddForeignKey
+ALTER TABLE "Document" ADD CONSTRAINT "Document_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "ChatSession" ADD CONSTRAINT "ChatSession_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "EvalRecord" ADD CONSTRAINT "EvalRecord_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
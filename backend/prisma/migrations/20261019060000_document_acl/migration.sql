@@ -0,0 +1,4 @@
+-- AlterTable: 文档级访问控制。历史文档没有上传者，保持工作区内可见
+ALTER TABLE "Document" ADD COLUMN "ownerId" TEXT;
+ALTER TABLE "Document" ADD COLUMN "visibility" TEXT NOT NULL DEFAULT 'workspace';
+ALTER TABLE "Document" ADD COLUMN "aclGroups" TEXT[] DEFAULT ARRAY[]::TEXT[];
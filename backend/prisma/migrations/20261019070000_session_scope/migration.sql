@@ -0,0 +1,6 @@
+-- AlterTable: 会话检索范围（固定文档 / 标签）
+ALTER TABLE "ChatSession" ADD COLUMN "documentIds" TEXT[] DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "ChatSession" ADD COLUMN "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- 旧版单文档会话并入 documentIds
+UPDATE "ChatSession" SET "documentIds" = ARRAY["documentId"] WHERE "documentId" IS NOT NULL;
@@ -0,0 +1,5 @@
+-- AlterTable: 会话创建者，用于会话列表；历史会话保持为空
+ALTER TABLE "ChatSession" ADD COLUMN "userId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "ChatSession_workspaceId_userId_updatedAt_idx" ON "ChatSession"("workspaceId", "userId", "updatedAt");
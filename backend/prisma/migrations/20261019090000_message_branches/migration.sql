@@ -0,0 +1,30 @@
+-- AlterTable: 消息树（父消息指针）与会话当前分支
+ALTER TABLE "ChatMessage" ADD COLUMN "parentId" TEXT;
+ALTER TABLE "ChatSession" ADD COLUMN "activeLeafId" TEXT;
+
+-- 已有会话是线性的：父消息为按时间排序的上一条（同一时刻先用户后助手）
+UPDATE "ChatMessage" m
+SET "parentId" = ordered."previousId"
+FROM (
+    SELECT "id", LAG("id") OVER (
+        PARTITION BY "sessionId"
+        ORDER BY "createdAt", CASE "role" WHEN 'user' THEN 0 ELSE 1 END, "id"
+    ) AS "previousId"
+    FROM "ChatMessage"
+) ordered
+WHERE m."id" = ordered."id";
+
+UPDATE "ChatSession" s
+SET "activeLeafId" = latest."id"
+FROM (
+    SELECT DISTINCT ON ("sessionId") "sessionId", "id"
+    FROM "ChatMessage"
+    ORDER BY "sessionId", "createdAt" DESC, CASE "role" WHEN 'user' THEN 1 ELSE 0 END, "id" DESC
+) latest
+WHERE s."id" = latest."sessionId";
+
+-- CreateIndex
+CREATE INDEX "ChatMessage_parentId_idx" ON "ChatMessage"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "ChatMessage" ADD CONSTRAINT "ChatMessage_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "ChatMessage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
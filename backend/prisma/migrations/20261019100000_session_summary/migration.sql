@@ -0,0 +1,3 @@
+-- AlterTable: 会话滚动摘要（对话记忆超出 token 预算的较早部分）
+ALTER TABLE "ChatSession" ADD COLUMN "summary" TEXT;
+ALTER TABLE "ChatSession" ADD COLUMN "summaryThroughId" TEXT;
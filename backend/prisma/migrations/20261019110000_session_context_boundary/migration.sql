@@ -0,0 +1,2 @@
+-- AlterTable: 会话上下文边界（"忽略前文 / 换个话题" 之后不再携带更早的历史）
+ALTER TABLE "ChatSession" ADD COLUMN "contextBoundaryId" TEXT;
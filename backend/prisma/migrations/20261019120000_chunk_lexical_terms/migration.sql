@@ -0,0 +1,8 @@
+-- AlterTable: Chunk 词法索引（预切分的词频），取代逐次查询的 ILIKE bigram 扫描
+ALTER TABLE "Chunk" ADD COLUMN "lexicalTerms" JSONB;
+ALTER TABLE "Chunk" ADD COLUMN "lexicalLength" INTEGER;
+
+-- 已有 Chunk 的 lexicalTerms 由服务启动时的后台任务补建（切分规则在应用中实现）
+
+-- CreateIndex: jsonb_ops 支持 ? / ?| 键存在判断，BM25 候选召回走该索引
+CREATE INDEX "Chunk_lexicalTerms_idx" ON "Chunk" USING GIN ("lexicalTerms" jsonb_ops);
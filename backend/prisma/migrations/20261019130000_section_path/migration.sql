@@ -0,0 +1,4 @@
+-- AlterTable: 章节所属的标题路径，检索时按「第 N 章」/ 标题关键词过滤
+ALTER TABLE "DocumentSection" ADD COLUMN "sectionPath" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+-- 已有章节的 sectionPath 由服务启动时的后台任务按 headingLevel 补建
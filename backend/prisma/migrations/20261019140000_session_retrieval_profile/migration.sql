@@ -0,0 +1,2 @@
+-- AlterTable: 会话默认的检索档位（precise / broad / fast），为空时使用配置的默认档位
+ALTER TABLE "ChatSession" ADD COLUMN "retrievalProfile" TEXT;
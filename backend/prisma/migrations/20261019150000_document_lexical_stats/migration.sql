@@ -0,0 +1,15 @@
+-- AlterTable: 当前索引版本的词法统计，BM25 的 N 与平均长度按文档汇总，不再逐次扫描范围内全部 Chunk
+ALTER TABLE "Document" ADD COLUMN "chunkCount" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Document" ADD COLUMN "totalLexicalLength" INTEGER NOT NULL DEFAULT 0;
+
+-- 已建词法索引的 Chunk 在此汇总；尚未补建的由服务启动时的补建任务完成后刷新
+UPDATE "Document" d
+SET "chunkCount" = s.n, "totalLexicalLength" = s.total
+FROM (
+  SELECT c."documentId", count(*)::int AS n, COALESCE(sum(c."lexicalLength"), 0)::int AS total
+  FROM "Chunk" c
+  JOIN "Document" cd ON cd.id = c."documentId" AND cd."indexVersion" = c."indexVersion"
+  WHERE c."lexicalLength" IS NOT NULL
+  GROUP BY c."documentId"
+) s
+WHERE d.id = s."documentId";
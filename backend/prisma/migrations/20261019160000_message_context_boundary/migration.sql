@@ -0,0 +1,10 @@
+-- 上下文边界改为标记在会话控制的回答上：每次重置各自保留，切换分支后边界仍随消息生效
+UPDATE "ChatMessage"
+SET "metadataJson" = CASE
+  WHEN jsonb_typeof("metadataJson") = 'object' THEN "metadataJson" || '{"contextBoundary": true}'::jsonb
+  ELSE '{"contextBoundary": true}'::jsonb
+END
+WHERE "role" = 'assistant' AND "status" = 'completed' AND "intent" = 'session_control';
+
+-- AlterTable
+ALTER TABLE "ChatSession" DROP COLUMN "contextBoundaryId";
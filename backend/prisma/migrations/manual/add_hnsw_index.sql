@@ -1,11 +1,16 @@
 -- HNSW 向量索引（pgvector 0.5+ 支持）
 -- m = 16: 每个节点的最大连接数
 -- ef_construction = 200: 构建时的搜索深度
+--
+-- embedding 列不固定维度，索引按维度建部分表达式索引；
+-- 检索 SQL 以 embedding::vector(<dimension>) 排序，且带 dimension = <dimension> 条件才能命中。
+-- 使用其他 EMBEDDING_DIMENSION 时，把下面的 256 替换为对应维度再建一个索引。
 
-CREATE INDEX IF NOT EXISTS "ChunkEmbedding_embedding_hnsw_idx"
+CREATE INDEX IF NOT EXISTS "ChunkEmbedding_embedding_256_hnsw_idx"
   ON "ChunkEmbedding"
-  USING hnsw (embedding vector_cosine_ops)
-  WITH (m = 16, ef_construction = 200);
+  USING hnsw ((embedding::vector(256)) vector_cosine_ops)
+  WITH (m = 16, ef_construction = 200)
+  WHERE dimension = 256;
 
 -- 查询时设置 ef_search 参数（在搜索服务中动态设置）:
 -- SET LOCAL hnsw.ef_search = 100;
@@ -1,5 +1,76 @@
+import { join } from "path";
 import { z } from "zod";
 
+const DEFAULT_JWT_SECRET = "change-me-in-production-use-a-strong-secret";
+
+const apiKeysSchema = z.array(
+  z.object({
+    key: z.string().min(16),
+    userId: z.string().min(1),
+    roles: z.array(z.string().min(1)).default([]),
+    groups: z.array(z.string().min(1)).default([]),
+  }),
+);
+
+export const RETRIEVAL_PROFILE_NAMES = ["precise", "broad", "fast"] as const;
+export type RetrievalProfileName = (typeof RETRIEVAL_PROFILE_NAMES)[number];
+
+const retrievalProfileSchema = z.object({
+  /** RRF 融合常数：越大名次差异的影响越平缓 */
+  rrfK: z.number().positive(),
+  /** RRF 中向量 / 关键词两路的权重 */
+  denseWeight: z.number().min(0),
+  lexicalWeight: z.number().min(0),
+  /** 每路召回 topK × fetchMultiplier 条，多取的部分留给 rerank */
+  fetchMultiplier: z.number().int().min(1).max(20),
+  /** 后处理阈值（rerank / RRF / 相似度分），全部低于阈值时回退为不过滤 */
+  threshold: z.number().min(0).max(1),
+  /** HNSW 检索时的候选列表大小 */
+  efSearch: z.number().int().min(1).max(1000),
+  /** 证据门槛：达到该分数的证据才算支撑回答 */
+  evidenceThreshold: z.number().min(0).max(1),
+  bm25K1: z.number().min(0),
+  bm25B: z.number().min(0).max(1),
+});
+
+export type RetrievalProfile = z.infer<typeof retrievalProfileSchema> & { name: RetrievalProfileName };
+
+const DEFAULT_RETRIEVAL_PROFILES: Record<RetrievalProfileName, z.infer<typeof retrievalProfileSchema>> = {
+  precise: {
+    rrfK: 60,
+    denseWeight: 1.0,
+    lexicalWeight: 0.8,
+    fetchMultiplier: 3,
+    threshold: 0.3,
+    efSearch: 100,
+    evidenceThreshold: 0.35,
+    bm25K1: 1.2,
+    bm25B: 0.75,
+  },
+  broad: {
+    rrfK: 60,
+    denseWeight: 1.0,
+    lexicalWeight: 1.0,
+    fetchMultiplier: 5,
+    threshold: 0.2,
+    efSearch: 200,
+    evidenceThreshold: 0.3,
+    bm25K1: 1.2,
+    bm25B: 0.75,
+  },
+  fast: {
+    rrfK: 60,
+    denseWeight: 1.0,
+    lexicalWeight: 0.8,
+    fetchMultiplier: 2,
+    threshold: 0.3,
+    efSearch: 40,
+    evidenceThreshold: 0.35,
+    bm25K1: 1.2,
+    bm25B: 0.75,
+  },
+};
+
 const envSchema = z.object({
   PORT: z.coerce.number().int().positive().default(4000),
   DATABASE_URL: z.string().min(1),
@@ -10,7 +81,23 @@ const envSchema = z.object({
   FRONTEND_ORIGIN: z.string().default("*"),
   LOG_LEVEL: z.enum(["fatal", "error", "warn", "info", "debug", "trace"]).default("info"),
   NODE_ENV: z.enum(["development", "production", "test"]).default("development"),
-  JWT_SECRET: z.string().min(16).default("change-me-in-production-use-a-strong-secret"),
+  JWT_SECRET: z.string().min(16).default(DEFAULT_JWT_SECRET),
+  // 默认要求认证；disabled 只用于本机单用户开发，需显式开启
+  AUTH_MODE: z.enum(["disabled", "required"]).default("required"),
+  // JSON 数组：[{"key":"...","userId":"ingest-bot","roles":["admin"]}]
+  API_KEYS: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value?.trim()) return [];
+      try {
+        return apiKeysSchema.parse(JSON.parse(value));
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `API_KEYS 格式错误: ${(error as Error).message}` });
+        return z.NEVER;
+      }
+    }),
+  AUTH_PUBLIC_ROUTES: z.string().default("/health"),
   IMAGE_EMBEDDING_ENDPOINT: z.string().url().optional(),
   IMAGE_EMBEDDING_API_KEY: z.string().optional(),
   OCR_PROVIDER: z.enum(["http", "aliyun"]).optional(),
@@ -22,6 +109,46 @@ const envSchema = z.object({
   ALIYUN_OCR_REGION_ID: z.string().min(1).default("cn-hangzhou"),
   OCR_TIMEOUT_MS: z.coerce.number().int().positive().default(120000),
   OCR_MAX_RETRIES: z.coerce.number().int().min(0).max(5).default(2),
+  INGESTION_WORKERS: z.coerce.number().int().min(1).max(16).default(2),
+  INGESTION_CPU_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(1),
+  INGESTION_NETWORK_CONCURRENCY: z.coerce.number().int().min(1).max(32).default(4),
+  METADATA_LLM_ENABLED: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  AGENT_MESSAGE_TIMEOUT_MS: z.coerce.number().int().min(60000).default(600000),
+  AGENT_SWEEP_INTERVAL_MS: z.coerce.number().int().min(10000).default(60000),
+  AGENT_HISTORY_TOKEN_BUDGET: z.coerce.number().int().min(200).default(2000),
+  RETRIEVAL_PROFILE: z.enum(RETRIEVAL_PROFILE_NAMES).default("precise"),
+  // JSON 对象，按档位覆盖部分参数：{"broad":{"fetchMultiplier":6},"fast":{"efSearch":20}}
+  RETRIEVAL_PROFILES: z
+    .string()
+    .optional()
+    .transform((value, ctx) => {
+      if (!value?.trim()) return {};
+      try {
+        return z.record(z.enum(RETRIEVAL_PROFILE_NAMES), retrievalProfileSchema.partial().strict()).parse(JSON.parse(value));
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `RETRIEVAL_PROFILES 格式错误: ${(error as Error).message}` });
+        return z.NEVER;
+      }
+    }),
+  LEXICAL_RETRIEVER: z.enum(["postgres", "memory"]).default("postgres"),
+  LEXICAL_INDEX_PATH: z.string().min(1).optional(),
+  EMBEDDING_PROVIDER: z.enum(["openai", "http", "local-hash"]).default("openai"),
+  EMBEDDING_MODEL: z.string().min(1).optional(),
+  EMBEDDING_DIMENSION: z.coerce.number().int().min(1).max(4096).default(256),
+  EMBEDDING_SEND_DIMENSIONS: z
+    .enum(["true", "false"])
+    .default("false")
+    .transform((value) => value === "true"),
+  EMBEDDING_ENDPOINT: z.string().url().optional(),
+  EMBEDDING_API_KEY: z.string().optional(),
+  EMBEDDING_TIMEOUT_MS: z.coerce.number().int().positive().default(240000),
+  EMBEDDING_BATCH_SIZE: z.coerce.number().int().min(1).max(256).default(32),
+  EMBEDDING_BATCH_MAX_CHARS: z.coerce.number().int().min(1000).default(32000),
+  EMBEDDING_BATCH_CONCURRENCY: z.coerce.number().int().min(1).max(16).default(2),
+  EMBEDDING_MAX_RETRIES: z.coerce.number().int().min(0).max(8).default(4),
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -57,7 +184,38 @@ export const config = {
 
   get embedding() {
     const env = getEnv();
-    return { model: env.OPENAI_EMBEDDING_MODEL, baseURL: env.OPENAI_BASE_URL, apiKey: env.OPENAI_API_KEY };
+    const provider = env.EMBEDDING_PROVIDER;
+    return {
+      provider,
+      model: env.EMBEDDING_MODEL ?? (provider === "local-hash" ? "local-hash-v1" : env.OPENAI_EMBEDDING_MODEL),
+      dimension: env.EMBEDDING_DIMENSION,
+      sendDimensions: env.EMBEDDING_SEND_DIMENSIONS,
+      baseURL: env.OPENAI_BASE_URL,
+      apiKey: env.OPENAI_API_KEY,
+      endpoint: env.EMBEDDING_ENDPOINT,
+      endpointApiKey: env.EMBEDDING_API_KEY,
+      timeoutMs: env.EMBEDDING_TIMEOUT_MS,
+      batch: {
+        maxBatchSize: env.EMBEDDING_BATCH_SIZE,
+        maxBatchChars: env.EMBEDDING_BATCH_MAX_CHARS,
+        concurrency: env.EMBEDDING_BATCH_CONCURRENCY,
+        maxRetries: env.EMBEDDING_MAX_RETRIES,
+      },
+    };
+  },
+
+  get auth() {
+    const env = getEnv();
+    if (env.AUTH_MODE === "required" && env.JWT_SECRET === DEFAULT_JWT_SECRET) {
+      throw new Error("AUTH_MODE=required 时必须配置 JWT_SECRET");
+    }
+    return {
+      /** disabled：未携带凭证的请求视为本地管理员；required：除公开路由外必须认证 */
+      mode: env.AUTH_MODE,
+      jwtSecret: env.JWT_SECRET,
+      apiKeys: env.API_KEYS,
+      publicRoutes: env.AUTH_PUBLIC_ROUTES.split(",").map((route) => route.trim()).filter(Boolean),
+    } as const;
   },
 
   get chat() {
@@ -93,6 +251,57 @@ export const config = {
     } as const;
   },
 
+  get ingestion() {
+    const env = getEnv();
+    return {
+      /** 同时处理的文档数 */
+      workers: env.INGESTION_WORKERS,
+      /** CPU 密集阶段（extracting_text / layout_analysis）的并发上限 */
+      cpuConcurrency: env.INGESTION_CPU_CONCURRENCY,
+      /** 网络密集调用（向量生成 / 上下文前缀）的并发上限 */
+      networkConcurrency: env.INGESTION_NETWORK_CONCURRENCY,
+      /** 文件自带元数据缺失时，用 LLM 从文档开头补全标题 / 作者 / 日期 / 标签 */
+      inferMetadataWithLlm: env.METADATA_LLM_ENABLED,
+    } as const;
+  },
+
+  get agent() {
+    const env = getEnv();
+    return {
+      /** 回答超过该时长仍处于 processing 视为执行进程已退出 */
+      messageTimeoutMs: env.AGENT_MESSAGE_TIMEOUT_MS,
+      /** 清理遗留 processing 消息的间隔 */
+      sweepIntervalMs: env.AGENT_SWEEP_INTERVAL_MS,
+      /** 对话记忆（滚动摘要 + 最近原文）的 token 上限，意图分类、追问补全与回答生成共用 */
+      historyTokenBudget: env.AGENT_HISTORY_TOKEN_BUDGET,
+    } as const;
+  },
+
+  get retrieval() {
+    const env = getEnv();
+    const profiles = Object.fromEntries(
+      RETRIEVAL_PROFILE_NAMES.map((name) => [
+        name,
+        { ...DEFAULT_RETRIEVAL_PROFILES[name], ...env.RETRIEVAL_PROFILES[name], name },
+      ]),
+    ) as Record<RetrievalProfileName, RetrievalProfile>;
+    return {
+      /** 请求与会话都未指定档位时使用 */
+      defaultProfile: env.RETRIEVAL_PROFILE,
+      profiles,
+    } as const;
+  },
+
+  get lexical() {
+    const env = getEnv();
+    return {
+      /** postgres：Chunk.lexicalTerms + GIN 索引；memory：进程内 BM25 倒排索引 */
+      retriever: env.LEXICAL_RETRIEVER,
+      /** 进程内索引的磁盘快照，重启后增量同步而不是全量重建 */
+      snapshotPath: env.LEXICAL_INDEX_PATH ?? join(process.cwd(), "uploads", "lexical-index.json"),
+    } as const;
+  },
+
   get chunking() {
     return {
       chunkSize: 512,
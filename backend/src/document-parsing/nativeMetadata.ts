@@ -0,0 +1,195 @@
+import { promises as fs } from "fs";
+import JSZip from "jszip";
+import { getDocument, type PDFDocumentProxy } from "pdfjs-dist";
+
+/** 文件自带的元数据（PDF Info 字典 / Office core.xml / HTML meta / Markdown front matter） */
+export interface NativeDocumentMetadata {
+  title?: string;
+  author?: string;
+  subject?: string;
+  /**
+   * ISO 时间；只取显式的发布日期（HTML meta / front matter）。
+   * PDF 与 Office 只有创建 / 修改时间，重新导出或另存就会变化，不作为发布时间，留给 LLM 推断
+   */
+  publishedAt?: string;
+  /** 关键词 / 分类，作为候选标签 */
+  keywords: string[];
+}
+
+type NativeMetadataFileType = "pdf" | "docx" | "pptx" | "text" | "html";
+
+/** HTML 只扫描开头这么多字符，<head> 通常在其中 */
+const HTML_HEAD_CHARS = 64 * 1024;
+
+/** 元数据缺失或损坏时返回空结果，不影响入库 */
+export async function extractNativeMetadata(
+  filePath: string,
+  fileType: NativeMetadataFileType,
+): Promise<NativeDocumentMetadata> {
+  switch (fileType) {
+    case "pdf":
+      return extractPdfMetadata(filePath);
+    case "docx":
+    case "pptx":
+      return extractOfficeCoreMetadata(filePath);
+    case "html":
+      return parseHtmlMetadata((await fs.readFile(filePath, "utf8")).slice(0, HTML_HEAD_CHARS));
+    case "text":
+      return parseFrontMatter(await fs.readFile(filePath, "utf8"));
+  }
+}
+
+async function extractPdfMetadata(filePath: string): Promise<NativeDocumentMetadata> {
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const pdf = (await getDocument({ data }).promise) as PDFDocumentProxy;
+  try {
+    const { info } = await pdf.getMetadata();
+    const fields = (info ?? {}) as Record<string, unknown>;
+    const text = (key: string) => cleanText(typeof fields[key] === "string" ? (fields[key] as string) : undefined);
+    return {
+      title: text("Title"),
+      author: text("Author"),
+      subject: text("Subject"),
+      keywords: splitKeywords(text("Keywords")),
+    };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/** DOCX 与 PPTX 共用 OPC 包里的 docProps/core.xml */
+async function extractOfficeCoreMetadata(filePath: string): Promise<NativeDocumentMetadata> {
+  const zip = await JSZip.loadAsync(await fs.readFile(filePath));
+  const coreXml = await zip.file("docProps/core.xml")?.async("string");
+  if (!coreXml) return { keywords: [] };
+  const tag = (name: string) => {
+    const match = coreXml.match(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`));
+    return cleanText(match ? decodeEntities(match[1]) : undefined);
+  };
+  return {
+    title: tag("dc:title"),
+    author: tag("dc:creator"),
+    subject: tag("dc:subject"),
+    keywords: [...splitKeywords(tag("cp:keywords")), ...splitKeywords(tag("cp:category"))],
+  };
+}
+
+const HTML_TITLE_KEYS = ["og:title", "citation_title", "dc.title"];
+const HTML_AUTHOR_KEYS = ["author", "citation_author", "dc.creator", "article:author"];
+const HTML_DATE_KEYS = [
+  "article:published_time",
+  "citation_publication_date",
+  "dc.date.issued",
+  "dc.date",
+  "dcterms.created",
+  "date",
+  "pubdate",
+  "publishdate",
+];
+const HTML_KEYWORD_KEYS = ["keywords", "news_keywords", "article:tag"];
+
+export function parseHtmlMetadata(html: string): NativeDocumentMetadata {
+  const meta = new Map<string, string[]>();
+  for (const [element] of html.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const match of element.matchAll(/([\w:.-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+      attributes.set(match[1].toLowerCase(), decodeEntities(match[3] ?? match[4] ?? match[5] ?? ""));
+    }
+    const key = (attributes.get("name") ?? attributes.get("property") ?? attributes.get("itemprop"))?.toLowerCase();
+    const content = cleanText(attributes.get("content"));
+    if (!key || !content) continue;
+    meta.set(key, [...(meta.get(key) ?? []), content]);
+  }
+  const first = (keys: string[]) => keys.map((key) => meta.get(key)?.[0]).find(Boolean);
+  const titleMatch = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  const dateValue = HTML_DATE_KEYS.map((key) => normalizeDate(meta.get(key)?.[0])).find(Boolean);
+  return {
+    title: first(HTML_TITLE_KEYS) ?? cleanText(titleMatch ? decodeEntities(titleMatch[1]) : undefined),
+    author: first(HTML_AUTHOR_KEYS),
+    subject: first(["description", "og:description"]),
+    publishedAt: dateValue,
+    keywords: HTML_KEYWORD_KEYS.flatMap((key) => (meta.get(key) ?? []).flatMap(splitKeywords)),
+  };
+}
+
+/** Markdown / 纯文本开头的 YAML front matter（只支持单行值与简单列表） */
+export function parseFrontMatter(text: string): NativeDocumentMetadata {
+  const match = text.replace(/^\uFEFF/, "").match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n/);
+  if (!match) return { keywords: [] };
+  const values = new Map<string, string[]>();
+  let listKey: string | null = null;
+  for (const line of match[1].split(/\r?\n/)) {
+    const item = line.match(/^\s+-\s+(.+)$/);
+    if (item && listKey) {
+      values.get(listKey)!.push(unquote(item[1]));
+      continue;
+    }
+    const pair = line.match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!pair) continue;
+    listKey = pair[1].toLowerCase();
+    const raw = pair[2].trim();
+    const inline = raw.match(/^\[(.*)\]$/);
+    values.set(listKey, inline ? inline[1].split(",").map(unquote) : raw ? [unquote(raw)] : []);
+  }
+  const first = (...keys: string[]) => keys.map((key) => cleanText(values.get(key)?.[0])).find(Boolean);
+  return {
+    title: first("title"),
+    author: first("author"),
+    subject: first("description", "summary"),
+    publishedAt: normalizeDate(first("date", "published", "publishedat")),
+    keywords: ["tags", "keywords", "categories"].flatMap((key) => (values.get(key) ?? []).flatMap(splitKeywords)),
+  };
+}
+
+/**
+ * 统一日期格式：PDF 的 "D:20240501120000+08'00'"、ISO、"2024年5月1日"。
+ * 早于 1900 年或晚于一年后的值视为无效（常见于未设置的默认值）。
+ */
+export function normalizeDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  let date: Date | undefined;
+  const pdfDate = value.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+  const chineseDate = value.match(/(\d{4})\s*年\s*(\d{1,2})\s*月(?:\s*(\d{1,2})\s*日)?/);
+  if (pdfDate) {
+    const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", zone] = pdfDate;
+    const offset = !zone || zone === "Z" ? "Z" : `${zone.slice(0, 3)}:${zone.replace(/'/g, "").slice(3, 5) || "00"}`;
+    date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+  } else if (chineseDate) {
+    const [, year, month, day = "1"] = chineseDate;
+    date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  } else if (/^\d{4}(-\d{2}){0,2}([T ][\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/.test(value.trim())) {
+    date = new Date(value.trim());
+  }
+  if (!date || Number.isNaN(date.getTime())) return undefined;
+  const upperBound = Date.now() + 365 * 24 * 3600 * 1000;
+  if (date.getUTCFullYear() < 1900 || date.getTime() > upperBound) return undefined;
+  return date.toISOString();
+}
+
+function splitKeywords(value: string | undefined): string[] {
+  if (!value) return [];
+  return value
+    .split(/[,;，；、|]/)
+    .map((keyword) => keyword.trim())
+    .filter((keyword) => keyword.length > 0 && keyword.length <= 50);
+}
+
+function cleanText(value: string | undefined): string | undefined {
+  const text = value?.replace(/\s+/g, " ").trim();
+  return text ? text : undefined;
+}
+
+function unquote(value: string): string {
+  return value.trim().replace(/^["']|["']$/g, "");
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
@@ -0,0 +1,38 @@
+import OpenAI from "openai";
+import { config } from "../config/env.js";
+import type { EmbeddingProvider } from "./types.js";
+import { OpenAiEmbeddingProvider } from "./openAiEmbeddingProvider.js";
+import { HttpEmbeddingProvider } from "./httpEmbeddingProvider.js";
+import { LocalHashEmbeddingProvider } from "./localHashEmbeddingProvider.js";
+
+/** 按 EMBEDDING_PROVIDER 创建向量提供方；入库与检索必须使用同一配置 */
+export function createEmbeddingProvider(): EmbeddingProvider {
+  const embeddingConfig = config.embedding;
+  switch (embeddingConfig.provider) {
+    case "local-hash":
+      return new LocalHashEmbeddingProvider(embeddingConfig.dimension);
+    case "http":
+      if (!embeddingConfig.endpoint) throw new Error("EMBEDDING_PROVIDER=http 时必须配置 EMBEDDING_ENDPOINT");
+      return new HttpEmbeddingProvider({
+        endpoint: embeddingConfig.endpoint,
+        apiKey: embeddingConfig.endpointApiKey,
+        model: embeddingConfig.model,
+        dimension: embeddingConfig.dimension,
+        timeoutMs: embeddingConfig.timeoutMs,
+      });
+    case "openai":
+      return new OpenAiEmbeddingProvider(
+        new OpenAI({
+          baseURL: embeddingConfig.baseURL,
+          apiKey: embeddingConfig.apiKey,
+          timeout: embeddingConfig.timeoutMs,
+          maxRetries: 0, // 重试由 EmbeddingBatcher 统一处理
+        }),
+        {
+          model: embeddingConfig.model,
+          dimension: embeddingConfig.dimension,
+          sendDimensions: embeddingConfig.sendDimensions,
+        },
+      );
+  }
+}
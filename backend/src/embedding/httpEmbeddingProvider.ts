@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { assertDimension, type EmbeddingProvider } from "./types.js";
+
+const responseSchema = z.union([
+  z.object({ embeddings: z.array(z.array(z.number().finite())) }),
+  z.object({
+    data: z.array(z.object({
+      index: z.number().int().min(0),
+      embedding: z.array(z.number().finite()),
+    })),
+  }),
+]);
+
+type Fetch = typeof globalThis.fetch;
+
+export interface HttpEmbeddingProviderOptions {
+  endpoint: string;
+  apiKey?: string;
+  model: string;
+  dimension: number;
+  timeoutMs: number;
+  fetch?: Fetch;
+}
+
+/**
+ * 自建向量服务。
+ *
+ * 请求: POST { model, dimension, input: string[] }
+ * 响应: { embeddings: number[][] } 或 OpenAI 风格的 { data: [{ index, embedding }] }
+ *
+ * 非 2xx 响应抛出带 status / headers 的错误，由 EmbeddingBatcher 判断是否重试。
+ */
+export class HttpEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  private readonly fetch: Fetch;
+
+  constructor(private readonly options: HttpEmbeddingProviderOptions) {
+    this.model = options.model;
+    this.dimension = options.dimension;
+    this.fetch = options.fetch ?? globalThis.fetch;
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (this.options.apiKey) headers.Authorization = `Bearer ${this.options.apiKey}`;
+    const response = await this.fetch(this.options.endpoint, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: this.model, dimension: this.dimension, input: inputs }),
+      signal: AbortSignal.timeout(this.options.timeoutMs),
+    });
+    if (!response.ok) {
+      throw Object.assign(new Error(`embedding_http_error: status=${response.status}`), {
+        status: response.status,
+        headers: { "retry-after": response.headers.get("retry-after") ?? undefined },
+      });
+    }
+    const payload = responseSchema.parse(await response.json());
+    const vectors = "embeddings" in payload
+      ? payload.embeddings
+      : [...payload.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    if (vectors.length !== inputs.length) {
+      throw new Error(`embedding_batch_mismatch: expected=${inputs.length} actual=${vectors.length}`);
+    }
+    return assertDimension(vectors, this.dimension, this.model);
+  }
+}
@@ -0,0 +1,59 @@
+import type { EmbeddingProvider } from "./types.js";
+
+const CJK = "\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}\\p{Script=Hangul}";
+const TOKEN_PATTERN = new RegExp(`[${CJK}]+|[^\\s\\p{P}\\p{S}${CJK}]+`, "gu");
+const CJK_PATTERN = new RegExp(`^[${CJK}]`, "u");
+
+/** 拉丁字母 / 数字按词切分，中日韩文字按单字 + 相邻二元组切分 */
+function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [segment] of text.toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (!CJK_PATTERN.test(segment)) {
+      tokens.push(segment);
+      continue;
+    }
+    const chars = [...segment];
+    for (let i = 0; i < chars.length; i++) {
+      tokens.push(chars[i]);
+      if (i + 1 < chars.length) tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+  return tokens;
+}
+
+/** 32 位 FNV-1a */
+function fnv1a(value: string, seed = 0x811c9dc5): number {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 确定性的本地哈希向量（feature hashing）。
+ *
+ * 不依赖任何外部服务，相同输入永远得到相同向量，适合离线开发、演示和测试环境；
+ * 只能捕捉词面重合，语义检索效果远不如真实模型。
+ */
+export class LocalHashEmbeddingProvider implements EmbeddingProvider {
+  readonly model = "local-hash-v1";
+
+  constructor(readonly dimension: number) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    return inputs.map((input) => this.embedOne(input));
+  }
+
+  private embedOne(input: string): number[] {
+    const vector = new Array<number>(this.dimension).fill(0);
+    for (const token of tokenize(input)) {
+      const hash = fnv1a(token);
+      const sign = fnv1a(token, 0x9747b28c) & 1 ? 1 : -1;
+      vector[hash % this.dimension] += sign;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm === 0 ? vector : vector.map((value) => value / norm);
+  }
+}
@@ -0,0 +1,37 @@
+import type OpenAI from "openai";
+import { assertDimension, type EmbeddingProvider } from "./types.js";
+
+type EmbeddingClient = Pick<OpenAI, "embeddings">;
+
+export interface OpenAiEmbeddingProviderOptions {
+  model: string;
+  dimension: number;
+  /** 是否在请求中携带 dimensions 参数（仅支持可变维度的模型，如 text-embedding-3 / embedding-3） */
+  sendDimensions: boolean;
+}
+
+/** OpenAI 兼容接口（OpenAI、智谱等）的向量提供方 */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(
+    private readonly client: EmbeddingClient,
+    private readonly options: OpenAiEmbeddingProviderOptions,
+  ) {
+    this.model = options.model;
+    this.dimension = options.dimension;
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    if (inputs.length === 0) return [];
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: inputs,
+      ...(this.options.sendDimensions ? { dimensions: this.dimension } : {}),
+    });
+    // 按 index 还原顺序，部分兼容接口不保证返回顺序
+    const vectors = [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    return assertDimension(vectors, this.dimension, this.model);
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * 文本向量提供方。
+ *
+ * model / dimension 会随每条 ChunkEmbedding 一起落库，检索时只比较同一向量空间内的向量，
+ * 切换模型或维度后旧向量不会被误用。
+ */
+export interface EmbeddingProvider {
+  /** 写入 ChunkEmbedding.model 的模型标识 */
+  readonly model: string;
+  /** 向量维度，返回值长度不一致时应抛错 */
+  readonly dimension: number;
+  /** 批量生成向量，返回顺序与 inputs 一致 */
+  embed(inputs: string[]): Promise<number[][]>;
+}
+
+export function assertDimension(vectors: number[][], dimension: number, model: string): number[][] {
+  for (const vector of vectors) {
+    if (vector.length !== dimension) {
+      throw new Error(`embedding_dimension_mismatch: model=${model} expected=${dimension} actual=${vector.length}`);
+    }
+  }
+  return vectors;
+}
@@ -0,0 +1,45 @@
+/**
+ * 简单的计数信号量：同一时刻最多执行 limit 个任务，其余按 FIFO 排队。
+ */
+export class ConcurrencyLimiter {
+  private active = 0;
+  private readonly waiters: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new Error(`invalid_concurrency_limit: ${limit}`);
+    }
+  }
+
+  get activeCount() {
+    return this.active;
+  }
+
+  get pendingCount() {
+    return this.waiters.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  private acquire(): Promise<void> {
+    if (this.active < this.limit) {
+      this.active += 1;
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.waiters.push(resolve));
+  }
+
+  private release() {
+    const next = this.waiters.shift();
+    // 名额直接移交给下一个等待者，active 计数不变
+    if (next) next();
+    else this.active -= 1;
+  }
+}
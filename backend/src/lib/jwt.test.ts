@@ -0,0 +1,89 @@
+import { createHmac } from "crypto";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JwtError, signJwt, verifyJwt } from "./jwt.js";
+
+const SECRET = "test-secret";
+const NOW = new Date("2026-10-19T00:00:00Z");
+const NOW_SECONDS = NOW.getTime() / 1000;
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/** 用任意 header 手工签一个 token */
+function forge(header: unknown, payload: unknown, secret = SECRET): string {
+  const body = `${encode(header)}.${encode(payload)}`;
+  return `${body}.${createHmac("sha256", secret).update(body).digest("base64url")}`;
+}
+
+function reasonOf(action: () => unknown): string | undefined {
+  try {
+    action();
+  } catch (err) {
+    if (err instanceof JwtError) return err.reason;
+    throw err;
+  }
+  return undefined;
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(NOW);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("signJwt / verifyJwt", () => {
+  it("签发的 token 可校验，带上 iat 与 exp", () => {
+    const token = signJwt({ sub: "u1", roles: ["admin"] }, SECRET, { expiresInSeconds: 3600 });
+
+    expect(verifyJwt(token, SECRET)).toEqual({
+      sub: "u1",
+      roles: ["admin"],
+      iat: NOW_SECONDS,
+      exp: NOW_SECONDS + 3600,
+    });
+  });
+
+  it("未指定有效期时不带 exp", () => {
+    expect(verifyJwt(signJwt({ sub: "u1" }, SECRET), SECRET)).not.toHaveProperty("exp");
+  });
+
+  it("密钥不同或载荷被篡改时签名无效", () => {
+    const token = signJwt({ sub: "u1" }, SECRET);
+    expect(reasonOf(() => verifyJwt(token, "other-secret"))).toBe("bad_signature");
+
+    const [header, , signature] = token.split(".");
+    const tampered = `${header}.${encode({ sub: "admin" })}.${signature}`;
+    expect(reasonOf(() => verifyJwt(tampered, SECRET))).toBe("bad_signature");
+  });
+
+  it("过期超过容差后拒绝", () => {
+    const token = signJwt({ sub: "u1" }, SECRET, { expiresInSeconds: 60 });
+
+    vi.setSystemTime((NOW_SECONDS + 60 + 30) * 1000);
+    expect(verifyJwt(token, SECRET).sub).toBe("u1");
+    vi.setSystemTime((NOW_SECONDS + 60 + 31) * 1000);
+    expect(reasonOf(() => verifyJwt(token, SECRET))).toBe("expired");
+  });
+
+  it("nbf 在容差之外的未来时拒绝", () => {
+    expect(verifyJwt(signJwt({ sub: "u1", nbf: NOW_SECONDS + 30 }, SECRET), SECRET).sub).toBe("u1");
+    expect(reasonOf(() => verifyJwt(signJwt({ nbf: NOW_SECONDS + 31 }, SECRET), SECRET))).toBe("not_yet_valid");
+  });
+
+  it("只接受 HS256，不信任 header 中的 alg", () => {
+    expect(reasonOf(() => verifyJwt(forge({ alg: "none", typ: "JWT" }, { sub: "u1" }), SECRET))).toBe("malformed");
+    expect(reasonOf(() => verifyJwt(forge({ alg: "HS512", typ: "JWT" }, { sub: "u1" }), SECRET))).toBe("malformed");
+    expect(verifyJwt(forge({ alg: "HS256" }, { sub: "u1" }), SECRET).sub).toBe("u1");
+  });
+
+  it("结构或编码不合法时视为格式错误", () => {
+    expect(reasonOf(() => verifyJwt("abc", SECRET))).toBe("malformed");
+    expect(reasonOf(() => verifyJwt("a.b.c.d", SECRET))).toBe("malformed");
+    expect(reasonOf(() => verifyJwt(`${encode({ alg: "HS256" })}.not-json.sig`, SECRET))).toBe("malformed");
+    expect(reasonOf(() => verifyJwt(forge({ alg: "HS256" }, "u1"), SECRET))).toBe("malformed");
+  });
+});
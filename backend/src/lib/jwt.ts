@@ -0,0 +1,82 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+/** 只支持 HS256，算法固定在实现里，不信任 token header 中的 alg */
+export interface JwtPayload {
+  sub?: string;
+  roles?: unknown;
+  groups?: unknown;
+  /** 过期时间（秒级 Unix 时间戳） */
+  exp?: number;
+  nbf?: number;
+  iat?: number;
+  [claim: string]: unknown;
+}
+
+export class JwtError extends Error {
+  constructor(public readonly reason: "malformed" | "bad_signature" | "expired" | "not_yet_valid") {
+    super(`jwt_${reason}`);
+    this.name = "JwtError";
+  }
+}
+
+/** 允许的时钟偏差（秒） */
+const CLOCK_TOLERANCE_SECONDS = 30;
+
+const HEADER = base64url(JSON.stringify({ alg: "HS256", typ: "JWT" }));
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+function sign(data: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(data).digest();
+}
+
+export function signJwt(
+  payload: JwtPayload,
+  secret: string,
+  options: { expiresInSeconds?: number } = {},
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: JwtPayload = {
+    iat: now,
+    ...(options.expiresInSeconds !== undefined ? { exp: now + options.expiresInSeconds } : {}),
+    ...payload,
+  };
+  const body = `${HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${body}.${sign(body, secret).toString("base64url")}`;
+}
+
+/** 校验签名与有效期，失败时抛出 JwtError */
+export function verifyJwt(token: string, secret: string): JwtPayload {
+  const parts = token.split(".");
+  if (parts.length !== 3) throw new JwtError("malformed");
+  const [header, body, signature] = parts;
+
+  let headerJson: { alg?: unknown };
+  let payload: JwtPayload;
+  try {
+    headerJson = JSON.parse(Buffer.from(header, "base64url").toString("utf8"));
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    throw new JwtError("malformed");
+  }
+  if (headerJson.alg !== "HS256" || !payload || typeof payload !== "object") {
+    throw new JwtError("malformed");
+  }
+
+  const expected = sign(`${header}.${body}`, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new JwtError("bad_signature");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (typeof payload.exp === "number" && now > payload.exp + CLOCK_TOLERANCE_SECONDS) {
+    throw new JwtError("expired");
+  }
+  if (typeof payload.nbf === "number" && now + CLOCK_TOLERANCE_SECONDS < payload.nbf) {
+    throw new JwtError("not_yet_valid");
+  }
+  return payload;
+}
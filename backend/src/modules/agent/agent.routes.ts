@@ -3,29 +3,50 @@ import type { FastifyPluginAsync } from "fastify";
 import OpenAI from "openai";
 import { z } from "zod";
 import { config } from "../../config/env.js";
-import { HybridSearchService } from "../search/retrieval/hybrid-search.service.js";
-import { LLMReranker } from "../search/retrieval/reranker.service.js";
+import type { HybridSearchService } from "../search/retrieval/hybrid-search.service.js";
+import { TagVocabulary } from "../search/retrieval/tag-vocabulary.js";
 import { GroundedAnswerGenerator } from "./answer/grounded-answer.generator.js";
+import { ConversationMemoryBuilder } from "./conversation/conversation-memory.js";
 import { ConversationQueryResolver } from "./conversation/conversation-query-resolver.js";
 import { KnowledgeBaseAgentGraph } from "./graph/knowledge-base-agent.graph.js";
 import { IntentRouter } from "./intent/intent-router.js";
 import { KnowledgeBaseAgentService } from "./knowledge-base-agent.service.js";
 import { OpenAICompatibleChatGateway } from "./model/chat-model.gateway.js";
+import { QueryPlanner } from "./retrieval/query-planner.js";
 import { RetrievalRetryPlanner } from "./retrieval/retry-planner.js";
+import { AgentEventBuffer } from "./stream/agent-event-buffer.js";
 import { SseWriter } from "./stream/sse-writer.js";
 import { KnowledgeBaseSearchTool } from "./tools/knowledge-base-search.tool.js";
+import type { WorkspaceService } from "../workspace/workspace.service.js";
+import { workspaceScope } from "../../server/plugins/workspace.js";
+import {
+  documentScopeOf,
+  documentScopeWhere,
+  findInaccessibleDocumentIds,
+} from "../document/document-access.service.js";
 import {
   createAgentMessageSchema,
   createAgentSessionSchema,
+  listAgentSessionsSchema,
+  updateAgentSessionSchema,
 } from "./types.js";
 
 interface AgentRoutesOptions {
   prisma: PrismaClient;
+  workspaces: WorkspaceService;
+  /** 与 POST /search 共用，进程内 BM25 索引只维护一份 */
+  searchService: HybridSearchService;
 }
 
 const sessionParamsSchema = z.object({ id: z.string().uuid() });
+const messageParamsSchema = sessionParamsSchema.extend({ messageId: z.string().uuid() });
+const resumeQuerySchema = z.object({ lastEventId: z.coerce.number().int().min(0).optional() });
 
-function createKnowledgeBaseAgent(prisma: PrismaClient): KnowledgeBaseAgentService {
+function createKnowledgeBaseAgent(
+  prisma: PrismaClient,
+  searchService: HybridSearchService,
+  events: AgentEventBuffer,
+): KnowledgeBaseAgentService {
   const chatGateway = new OpenAICompatibleChatGateway(
     new OpenAI({
       baseURL: config.chat.baseURL,
@@ -33,25 +54,45 @@ function createKnowledgeBaseAgent(prisma: PrismaClient): KnowledgeBaseAgentServi
     }),
     config.chat.model,
   );
-  const reranker = new LLMReranker();
-  const searchService = new HybridSearchService(prisma, reranker);
   const graph = new KnowledgeBaseAgentGraph({
     intentRouter: new IntentRouter(chatGateway),
     queryResolver: new ConversationQueryResolver(chatGateway),
-    searchTool: new KnowledgeBaseSearchTool(searchService),
+    queryPlanner: new QueryPlanner(chatGateway),
+    searchTool: new KnowledgeBaseSearchTool(searchService, new TagVocabulary(prisma)),
     retryPlanner: new RetrievalRetryPlanner(chatGateway),
     answerGenerator: new GroundedAnswerGenerator(chatGateway),
   });
 
-  return new KnowledgeBaseAgentService(prisma, graph);
+  const memory = new ConversationMemoryBuilder(chatGateway, config.agent.historyTokenBudget);
+
+  return new KnowledgeBaseAgentService(prisma, graph, memory, events);
 }
 
 export const agentRoutes: FastifyPluginAsync<AgentRoutesOptions> = async (app, opts) => {
-  const knowledgeBaseAgent = createKnowledgeBaseAgent(opts.prisma);
+  const agentEvents = new AgentEventBuffer();
+  const knowledgeBaseAgent = createKnowledgeBaseAgent(opts.prisma, opts.searchService, agentEvents);
+
+  // 启动时与定期清理崩溃遗留的 processing 回答，避免会话永久 SESSION_BUSY
+  const sweepStaleMessages = () =>
+    knowledgeBaseAgent
+      .failStaleMessages(config.agent.messageTimeoutMs)
+      .then((count) => {
+        if (count > 0) app.log.warn({ count }, "agent_stale_messages_failed");
+      })
+      .catch((err) => app.log.error({ err }, "agent_stale_message_sweep_failed"));
+  let sweepTimer: NodeJS.Timeout | undefined;
+  app.addHook("onReady", async () => {
+    void sweepStaleMessages();
+    sweepTimer = setInterval(() => void sweepStaleMessages(), config.agent.sweepIntervalMs);
+    sweepTimer.unref();
+  });
+  app.addHook("onClose", async () => clearInterval(sweepTimer));
+
+  app.addHook("preHandler", workspaceScope(opts.workspaces));
 
-  app.get("/knowledge-base/documents", async (_request, reply) => {
+  app.get("/knowledge-base/documents", async (request, reply) => {
     const documents = await opts.prisma.document.findMany({
-      where: { status: "ready" },
+      where: { ...documentScopeWhere(documentScopeOf(request)), status: "ready", deletedAt: null },
       orderBy: { createdAt: "desc" },
       select: {
         id: true,
@@ -60,32 +101,59 @@ export const agentRoutes: FastifyPluginAsync<AgentRoutesOptions> = async (app, o
         sourceLabel: true,
         publishedAt: true,
         tags: true,
+        visibility: true,
+        aclGroups: true,
+        archivedAt: true,
         createdAt: true,
       },
     });
     reply.send({ documents });
   });
 
+  // ---- GET /agent/sessions?q=&page=&pageSize=（当前用户的会话）----
+  app.get("/agent/sessions", async (request, reply) => {
+    const input = listAgentSessionsSchema.parse(request.query ?? {});
+    reply.send(await knowledgeBaseAgent.listSessions(documentScopeOf(request), input));
+  });
+
   app.post("/agent/sessions", async (request, reply) => {
     const input = createAgentSessionSchema.parse(request.body ?? {});
-    if (input.documentId) {
-      const document = await opts.prisma.document.findUnique({
-        where: { id: input.documentId },
-        select: { id: true },
-      });
-      if (!document) {
-        reply.code(404).send({ error: "document_not_found" });
-        return;
-      }
+    const missing = await findInaccessibleDocumentIds(opts.prisma, documentScopeOf(request), [
+      ...(input.documentId ? [input.documentId] : []),
+      ...(input.documentIds ?? []),
+    ]);
+    if (missing.length > 0) {
+      reply.code(404).send({ error: "document_not_found", documentIds: missing });
+      return;
     }
 
-    const session = await knowledgeBaseAgent.createSession(input);
+    const session = await knowledgeBaseAgent.createSession(documentScopeOf(request), input);
     reply.code(201).send(session);
   });
 
+  // ---- PATCH /agent/sessions/:id（标题 / 固定文档 / 标签范围）----
+  app.patch("/agent/sessions/:id", async (request, reply) => {
+    const params = sessionParamsSchema.parse(request.params);
+    const input = updateAgentSessionSchema.parse(request.body ?? {});
+    // 只校验新增的固定文档；已在范围内的文档可能已被删除，保留它们不应导致更新失败
+    const current = input.documentIds ? await knowledgeBaseAgent.getSession(documentScopeOf(request), params.id) : null;
+    const added = (input.documentIds ?? []).filter((id) => !current?.documentIds.includes(id));
+    const missing = await findInaccessibleDocumentIds(opts.prisma, documentScopeOf(request), added);
+    if (missing.length > 0) {
+      reply.code(404).send({ error: "document_not_found", documentIds: missing });
+      return;
+    }
+    const session = await knowledgeBaseAgent.updateSession(documentScopeOf(request), params.id, input);
+    if (!session) {
+      reply.code(404).send({ error: "session_not_found" });
+      return;
+    }
+    reply.send(session);
+  });
+
   app.get("/agent/sessions/:id", async (request, reply) => {
     const params = sessionParamsSchema.parse(request.params);
-    const session = await knowledgeBaseAgent.getSession(params.id);
+    const session = await knowledgeBaseAgent.getSession(documentScopeOf(request), params.id);
     if (!session) {
       reply.code(404).send({ error: "session_not_found" });
       return;
@@ -93,36 +161,66 @@ export const agentRoutes: FastifyPluginAsync<AgentRoutesOptions> = async (app, o
     reply.send(session);
   });
 
+  // ---- DELETE /agent/sessions/:id ----
+  app.delete("/agent/sessions/:id", async (request, reply) => {
+    const params = sessionParamsSchema.parse(request.params);
+    if (!(await knowledgeBaseAgent.deleteSession(documentScopeOf(request), params.id))) {
+      reply.code(404).send({ error: "session_not_found" });
+      return;
+    }
+    reply.code(204).send();
+  });
+
   app.get("/agent/sessions/:id/messages", async (request, reply) => {
     const params = sessionParamsSchema.parse(request.params);
-    const session = await knowledgeBaseAgent.getSession(params.id);
+    const session = await knowledgeBaseAgent.getSession(documentScopeOf(request), params.id);
     if (!session) {
       reply.code(404).send({ error: "session_not_found" });
       return;
     }
-    const messages = await knowledgeBaseAgent.listSessionMessages(params.id);
+    const messages = await knowledgeBaseAgent.listSessionMessages(session);
     reply.send({ session, messages });
   });
 
   app.post("/agent/sessions/:id/messages", async (request, reply) => {
     const params = sessionParamsSchema.parse(request.params);
     const input = createAgentMessageSchema.parse(request.body);
-    const result = await knowledgeBaseAgent.sendMessage(params.id, input, {
+    const result = await knowledgeBaseAgent.sendMessage(documentScopeOf(request), params.id, input, {
       traceId: String(request.id),
     });
     reply.code(201).send(result);
   });
 
+  app.post("/agent/sessions/:id/cancel", async (request, reply) => {
+    const params = sessionParamsSchema.parse(request.params);
+    const result = await knowledgeBaseAgent.cancelMessage(documentScopeOf(request), params.id);
+    if (!result) {
+      reply.code(404).send({ error: "session_not_found" });
+      return;
+    }
+    reply.send(result);
+  });
+
   app.post("/agent/sessions/:id/messages/stream", async (request, reply) => {
     const params = sessionParamsSchema.parse(request.params);
     const input = createAgentMessageSchema.parse(request.body);
     const traceId = String(request.id);
-    const stream = new SseWriter(reply, { sessionId: params.id, traceId });
+    const stream = new SseWriter(reply);
     stream.open();
+    // 收到第一条事件后改为订阅缓存：断开时不立即取消，留出重连时间
+    let detach: (() => void) | null = null;
+    stream.signal.addEventListener("abort", () => detach?.());
     try {
-      await knowledgeBaseAgent.sendMessage(params.id, input, {
+      await knowledgeBaseAgent.sendMessage(documentScopeOf(request), params.id, input, {
         traceId,
-        onEvent: async (event) => stream.write(event),
+        onEvent: (event) => {
+          if (detach) return;
+          detach = agentEvents.attach(event.messageId, event.sequence - 1, {
+            onEvent: (buffered) => stream.write(buffered),
+            onEnd: () => undefined,
+          });
+          if (stream.signal.aborted) detach?.();
+        },
       });
     } catch (error) {
       app.log.error({ err: error, traceId }, "knowledge_base_agent_stream_failed");
@@ -130,4 +228,36 @@ export const agentRoutes: FastifyPluginAsync<AgentRoutesOptions> = async (app, o
       stream.close();
     }
   });
+
+  /** 断线重连：重放 Last-Event-ID 之后的事件，再继续推送直到回答结束 */
+  app.get("/agent/sessions/:id/messages/:messageId/stream", async (request, reply) => {
+    const params = messageParamsSchema.parse(request.params);
+    const query = resumeQuerySchema.parse(request.query);
+    const session = await knowledgeBaseAgent.getSession(documentScopeOf(request), params.id);
+    if (!session) {
+      reply.code(404).send({ error: "session_not_found" });
+      return;
+    }
+    // 缓存已过期或回答在其他实例上执行：客户端应改为重新加载消息
+    if (agentEvents.sessionIdOf(params.messageId) !== session.id) {
+      reply.code(404).send({ error: "stream_not_found" });
+      return;
+    }
+    const header = Number(request.headers["last-event-id"]);
+    const lastEventId = Number.isInteger(header) && header >= 0 ? header : query.lastEventId ?? 0;
+
+    const stream = new SseWriter(reply);
+    stream.open();
+    await new Promise<void>((resolve) => {
+      const detach = agentEvents.attach(params.messageId, lastEventId, {
+        onEvent: (event) => stream.write(event),
+        onEnd: resolve,
+      });
+      stream.signal.addEventListener("abort", () => {
+        detach?.();
+        resolve();
+      });
+    });
+    stream.close();
+  });
 };
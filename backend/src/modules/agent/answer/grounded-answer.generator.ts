@@ -1,5 +1,6 @@
 import type { ChatModelGateway } from "../model/chat-model.gateway.js";
 import type { SearchResult } from "../../search/retrieval/post-processor.js";
+import { formatConversation, type ConversationMemory } from "../conversation/conversation-memory.js";
 
 function agentError(code: string, message: string) {
   return Object.assign(new Error(message), { code });
@@ -11,10 +12,14 @@ export class GroundedAnswerGenerator {
   async generate(input: {
     query: string;
     evidence: SearchResult[];
+    /** 与意图分类、追问补全相同的对话记忆，用于保持回答前后一致 */
+    memory?: ConversationMemory;
     onDelta: (delta: string) => void | Promise<void>;
+    signal?: AbortSignal;
   }): Promise<{ answer: string; citations: SearchResult[] }> {
     if (input.evidence.length === 0) throw agentError("EVIDENCE_REQUIRED", "没有可用于回答的证据");
     const evidence = input.evidence.slice(0, 8);
+    const conversation = input.memory ? formatConversation(input.memory) : "";
     const messages = [
       {
         role: "system" as const,
@@ -22,11 +27,11 @@ export class GroundedAnswerGenerator {
       },
       {
         role: "user" as const,
-        content: `问题: ${input.query}\n证据:\n${evidence.map((item, index) => `[E${index + 1}] ${item.fullContent || item.snippet}`).join("\n")}`,
+        content: `${conversation ? `对话背景:\n${conversation}\n` : ""}问题: ${input.query}\n证据:\n${evidence.map((item, index) => `[E${index + 1}] ${item.fullContent || item.snippet}`).join("\n")}`,
       },
     ];
     let answer = "";
-    for await (const delta of this.gateway.streamText(messages)) {
+    for await (const delta of this.gateway.streamText(messages, { signal: input.signal })) {
       answer += delta;
       await input.onDelta(delta);
     }
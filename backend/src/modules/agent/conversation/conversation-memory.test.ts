@@ -0,0 +1,131 @@
+import { describe, expect, it, vi } from "vitest";
+import type { ChatModelGateway } from "../model/chat-model.gateway.js";
+import { estimateTokens } from "../../search/chunking/strategies/recursive-chunker.js";
+import { ConversationMemoryBuilder, formatConversation } from "./conversation-memory.js";
+
+/** 35 个 ASCII 字符估算为 10 token */
+const TEN_TOKENS = "x".repeat(35);
+
+function message(id: string, role: "user" | "assistant" = "user", content = TEN_TOKENS) {
+  return { id, role, content };
+}
+
+function gateway(complete: () => Promise<unknown> = async () => ({ summary: "摘要" })) {
+  const completeJson = vi.fn(complete);
+  const chat: ChatModelGateway = {
+    completeJson: <T>() => completeJson() as Promise<T>,
+    streamText: vi.fn(),
+  };
+  return { chat, completeJson };
+}
+
+describe("ConversationMemoryBuilder.build", () => {
+  it("预算内的消息全部保留原文，不生成摘要", async () => {
+    const { chat, completeJson } = gateway();
+    const builder = new ConversationMemoryBuilder(chat, 100);
+    const path = [message("m1"), message("m2", "assistant"), message("m3")];
+
+    const result = await builder.build({ path, summary: null });
+
+    expect(result.memory).toEqual({ summary: null, messages: path.map(({ role, content }) => ({ role, content })) });
+    expect(result.summary).toBeNull();
+    expect(completeJson).not.toHaveBeenCalled();
+  });
+
+  it("放不下的较早消息压缩为摘要，最近的消息保留原文", async () => {
+    const { chat, completeJson } = gateway();
+    const builder = new ConversationMemoryBuilder(chat, 40);
+    const path = ["m1", "m2", "m3", "m4", "m5"].map((id) => message(id));
+
+    const result = await builder.build({ path, summary: null });
+
+    expect(result.memory.messages).toHaveLength(4);
+    expect(result.memory.summary).toBe("摘要");
+    expect(result.summary).toEqual({ text: "摘要", throughMessageId: "m1" });
+    expect(completeJson).toHaveBeenCalledTimes(1);
+  });
+
+  it("已有摘要在当前分支上时只处理其后的消息，并从预算中扣除摘要长度", async () => {
+    const { chat, completeJson } = gateway();
+    const builder = new ConversationMemoryBuilder(chat, 40);
+    const previous = { text: TEN_TOKENS, throughMessageId: "m2" };
+    const path = ["m1", "m2", "m3", "m4", "m5"].map((id) => message(id));
+
+    const result = await builder.build({ path, summary: previous });
+
+    // 摘要占 10 token，剩余 30 token 正好放下 m3-m5
+    expect(result.memory).toEqual({
+      summary: TEN_TOKENS,
+      messages: path.slice(2).map(({ role, content }) => ({ role, content })),
+    });
+    expect(result.summary).toBe(previous);
+    expect(completeJson).not.toHaveBeenCalled();
+  });
+
+  it("已有摘要不在当前分支上（切换过分支）时视为没有摘要", async () => {
+    const { chat } = gateway();
+    const builder = new ConversationMemoryBuilder(chat, 100);
+    const path = [message("m1"), message("m2")];
+
+    const result = await builder.build({ path, summary: { text: "旧分支摘要", throughMessageId: "other" } });
+
+    expect(result.memory.summary).toBeNull();
+    expect(result.memory.messages).toHaveLength(2);
+    expect(result.summary).toBeNull();
+  });
+
+  it("最近一条消息超出预算时截断后保留", async () => {
+    const { chat, completeJson } = gateway();
+    const builder = new ConversationMemoryBuilder(chat, 20);
+    const long = "y".repeat(350);
+
+    const result = await builder.build({ path: [message("m1", "user", long)], summary: null });
+
+    expect(result.memory.messages).toHaveLength(1);
+    const [kept] = result.memory.messages;
+    expect(kept.content.endsWith("…")).toBe(true);
+    expect(estimateTokens(kept.content.slice(0, -1))).toBeLessThanOrEqual(20);
+    expect(completeJson).not.toHaveBeenCalled();
+  });
+
+  it("摘要失败时丢弃放不下的消息，沿用原有摘要", async () => {
+    const { chat, completeJson } = gateway(async () => {
+      throw new Error("model_unavailable");
+    });
+    const builder = new ConversationMemoryBuilder(chat, 40);
+    const previous = { text: "已有摘要", throughMessageId: "m1" };
+    const path = ["m1", "m2", "m3", "m4", "m5", "m6", "m7"].map((id) => message(id));
+
+    const result = await builder.build({ path, summary: previous });
+
+    expect(result.memory.summary).toBe("已有摘要");
+    expect(result.memory.messages.length).toBeLessThan(6);
+    expect(result.summary).toBe(previous);
+  });
+
+  it("调用方取消时摘要失败会抛出中止错误", async () => {
+    const controller = new AbortController();
+    const { chat } = gateway(async () => {
+      controller.abort();
+      throw new Error("aborted");
+    });
+    const builder = new ConversationMemoryBuilder(chat, 20);
+    const path = ["m1", "m2", "m3"].map((id) => message(id));
+
+    await expect(builder.build({ path, summary: null, signal: controller.signal })).rejects.toThrow();
+  });
+});
+
+describe("formatConversation", () => {
+  it("摘要在前，之后按顺序列出消息", () => {
+    expect(
+      formatConversation({
+        summary: "讨论了预算",
+        messages: [
+          { role: "user", content: "今年呢？" },
+          { role: "assistant", content: "增长 5%" },
+        ],
+      }),
+    ).toBe("更早对话摘要: 讨论了预算\nuser: 今年呢？\nassistant: 增长 5%");
+  });
+});
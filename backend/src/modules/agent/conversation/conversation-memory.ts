@@ -0,0 +1,112 @@
+import type { ChatModelGateway } from "../model/chat-model.gateway.js";
+import { estimateTokens } from "../../search/chunking/strategies/recursive-chunker.js";
+
+type HistoryMessage = { role: "user" | "assistant"; content: string };
+
+/** 传给各节点的对话记忆：较早轮次压缩为摘要，最近轮次保留原文，总量不超过预算 */
+export interface ConversationMemory {
+  summary: string | null;
+  messages: HistoryMessage[];
+}
+
+/** 会话上持久化的滚动摘要，覆盖当前分支上直到 throughMessageId（含）的消息 */
+export interface ConversationSummary {
+  text: string;
+  throughMessageId: string;
+}
+
+type PathMessage = HistoryMessage & { id: string };
+
+/** 单条消息原文过长时截断，保证最近一轮总能放进预算 */
+function truncateToTokens(content: string, maxTokens: number): string {
+  if (estimateTokens(content) <= maxTokens) return content;
+  let end = content.length;
+  while (end > 0 && estimateTokens(content.slice(0, end)) > maxTokens) {
+    end = Math.floor(end * 0.8);
+  }
+  return `${content.slice(0, end)}…`;
+}
+
+/** classify / resolve / generate 共用的历史格式，保证各节点看到同一份上下文 */
+export function formatConversation(memory: ConversationMemory): string {
+  const lines = memory.messages.map((item) => `${item.role}: ${item.content}`);
+  return [memory.summary ? `更早对话摘要: ${memory.summary}` : null, ...lines].filter(Boolean).join("\n");
+}
+
+export class ConversationMemoryBuilder {
+  constructor(
+    private readonly gateway: ChatModelGateway,
+    /** 摘要与原文合计的 token 上限 */
+    private readonly budgetTokens: number,
+  ) {}
+
+  /**
+   * path 为当前分支上、本次提问之前的消息（按对话顺序）。
+   * 已有摘要不在该分支上（切换过分支）时视为没有摘要。
+   * 放不进预算的较早消息与旧摘要合并成新摘要，返回值中的 summary 变化时由调用方持久化。
+   */
+  async build(input: {
+    path: PathMessage[];
+    summary: ConversationSummary | null;
+    signal?: AbortSignal;
+  }): Promise<{ memory: ConversationMemory; summary: ConversationSummary | null }> {
+    const anchor = input.summary ? input.path.findIndex((message) => message.id === input.summary!.throughMessageId) : -1;
+    const previous = anchor >= 0 ? input.summary : null;
+    const pending = input.path.slice(anchor + 1);
+
+    const summaryBudget = Math.floor(this.budgetTokens / 4);
+    const recentBudget = this.budgetTokens - (previous ? Math.min(estimateTokens(previous.text), summaryBudget) : 0);
+    const recent: HistoryMessage[] = [];
+    let used = 0;
+    let split = pending.length;
+    while (split > 0) {
+      const message = pending[split - 1];
+      const tokens = estimateTokens(message.content);
+      if (used + tokens > recentBudget) {
+        if (recent.length === 0) {
+          recent.unshift({ role: message.role, content: truncateToTokens(message.content, recentBudget) });
+          split -= 1;
+        }
+        break;
+      }
+      recent.unshift({ role: message.role, content: message.content });
+      used += tokens;
+      split -= 1;
+    }
+
+    const overflow = pending.slice(0, split);
+    if (overflow.length === 0) {
+      return { memory: { summary: previous?.text ?? null, messages: recent }, summary: previous };
+    }
+    const text = await this.summarize(previous?.text ?? null, overflow, summaryBudget, input.signal);
+    // 摘要失败时丢弃放不下的轮次，不阻塞回答
+    if (!text) return { memory: { summary: previous?.text ?? null, messages: recent }, summary: previous };
+    const summary = { text, throughMessageId: overflow.at(-1)!.id };
+    return { memory: { summary: text, messages: recent }, summary };
+  }
+
+  private async summarize(
+    previous: string | null,
+    messages: HistoryMessage[],
+    maxTokens: number,
+    signal?: AbortSignal,
+  ): Promise<string | null> {
+    try {
+      const result = await this.gateway.completeJson<{ summary: string }>([
+        {
+          role: "system",
+          content: `把对话压缩为简短摘要，保留用户关心的主题、实体、约束与已得出的结论，供后续追问理解上下文。只输出 JSON：{ summary }，不超过 ${maxTokens} token。`,
+        },
+        {
+          role: "user",
+          content: `${previous ? `已有摘要: ${previous}\n` : ""}新增对话:\n${messages.map((item) => `${item.role}: ${item.content}`).join("\n")}`,
+        },
+      ], { signal });
+      const summary = result.summary?.trim();
+      return summary ? truncateToTokens(summary, maxTokens) : null;
+    } catch {
+      signal?.throwIfAborted();
+      return null;
+    }
+  }
+}
@@ -1,15 +1,15 @@
 import type { ChatModelGateway } from "../model/chat-model.gateway.js";
 import type { AgentIntent } from "../intent/intent-router.js";
-
-type HistoryMessage = { role: "user" | "assistant"; content: string };
+import { formatConversation, type ConversationMemory } from "./conversation-memory.js";
 
 export class ConversationQueryResolver {
   constructor(private readonly gateway: ChatModelGateway) {}
 
   async resolve(input: {
     message: string;
-    history: HistoryMessage[];
+    memory: ConversationMemory;
     intent: AgentIntent;
+    signal?: AbortSignal;
   }): Promise<string> {
     if (input.intent !== "follow_up_question") return input.message;
     try {
@@ -20,11 +20,12 @@ export class ConversationQueryResolver {
         },
         {
           role: "user",
-          content: `历史:\n${input.history.map((item) => `${item.role}: ${item.content}`).join("\n")}\n追问: ${input.message}`,
+          content: `历史:\n${formatConversation(input.memory)}\n追问: ${input.message}`,
         },
-      ]);
+      ], { signal: input.signal });
       return result.query?.trim() || input.message;
     } catch {
+      input.signal?.throwIfAborted();
       return input.message;
     }
   }
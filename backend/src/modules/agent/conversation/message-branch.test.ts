@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { branchPath, groupChildren, latestLeaf, type BranchNode } from "./message-branch.js";
+
+function node(id: string, parentId: string | null, minute: number): BranchNode {
+  return { id, parentId, createdAt: new Date(Date.UTC(2026, 0, 1, 0, minute)) };
+}
+
+/**
+ * q1 → a1 → q2 → a2
+ *         ↘ q2' → a2'（编辑重发）
+ *    ↘ a1'（重新生成）
+ */
+const messages = [
+  node("q1", null, 0),
+  node("a1", "q1", 1),
+  node("q2", "a1", 2),
+  node("a2", "q2", 3),
+  node("a1'", "q1", 4),
+  node("q2'", "a1", 5),
+  node("a2'", "q2'", 6),
+];
+
+describe("branchPath", () => {
+  it("从末端回溯到根，按对话顺序返回", () => {
+    expect(branchPath(messages, "a2").map((message) => message.id)).toEqual(["q1", "a1", "q2", "a2"]);
+    expect(branchPath(messages, "a2'").map((message) => message.id)).toEqual(["q1", "a1", "q2'", "a2'"]);
+    expect(branchPath(messages, "a1'").map((message) => message.id)).toEqual(["q1", "a1'"]);
+  });
+
+  it("末端为空或不存在时返回空数组", () => {
+    expect(branchPath(messages, null)).toEqual([]);
+    expect(branchPath(messages, "missing")).toEqual([]);
+  });
+
+  it("父消息缺失时在缺口处截断", () => {
+    const orphaned = messages.filter((message) => message.id !== "a1");
+    expect(branchPath(orphaned, "a2").map((message) => message.id)).toEqual(["q2", "a2"]);
+  });
+
+  it("父指针成环时不会死循环", () => {
+    const cyclic = [node("x", "y", 0), node("y", "x", 1)];
+    expect(branchPath(cyclic, "x").map((message) => message.id)).toEqual(["y", "x"]);
+  });
+});
+
+describe("latestLeaf", () => {
+  it("每层选最新的子消息直到末端", () => {
+    expect(latestLeaf(messages, "q1")).toBe("a1'");
+    expect(latestLeaf(messages, "a1")).toBe("a2'");
+    expect(latestLeaf(messages, "q2")).toBe("a2");
+  });
+
+  it("没有子消息时返回自身", () => {
+    expect(latestLeaf(messages, "a2")).toBe("a2");
+  });
+
+  it("与输入顺序无关", () => {
+    expect(latestLeaf([...messages].reverse(), "a1")).toBe("a2'");
+  });
+});
+
+describe("groupChildren", () => {
+  it("按父消息分组并按时间排序，根消息归在空字符串下", () => {
+    const children = groupChildren([...messages].reverse());
+    expect(children.get("")?.map((message) => message.id)).toEqual(["q1"]);
+    expect(children.get("q1")?.map((message) => message.id)).toEqual(["a1", "a1'"]);
+    expect(children.get("a1")?.map((message) => message.id)).toEqual(["q2", "q2'"]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * 对话树：每条消息指向父消息，编辑重发 / 重新生成在同一父消息下产生兄弟分支。
+ * 会话记录当前分支的末端（activeLeafId），历史与消息列表都沿它回溯到根。
+ */
+export interface BranchNode {
+  id: string;
+  parentId: string | null;
+  createdAt: Date;
+}
+
+function byCreatedAt(a: BranchNode, b: BranchNode) {
+  return a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/** 从 leafId 回溯到根，按对话顺序返回；leafId 为空或不存在时返回空数组 */
+export function branchPath<T extends BranchNode>(messages: T[], leafId: string | null): T[] {
+  const byId = new Map(messages.map((message) => [message.id, message]));
+  const path: T[] = [];
+  const visited = new Set<string>();
+  let current = leafId ? byId.get(leafId) : undefined;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    path.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path.reverse();
+}
+
+/** 从某条消息出发，每层选最新的子消息，直到末端 */
+export function latestLeaf<T extends BranchNode>(messages: T[], fromId: string): string {
+  const children = groupChildren(messages);
+  let current = fromId;
+  for (;;) {
+    const next = children.get(current)?.at(-1);
+    if (!next) return current;
+    current = next.id;
+  }
+}
+
+/** 父消息 → 子消息（按时间排序）；根消息归在 "" 下 */
+export function groupChildren<T extends BranchNode>(messages: T[]): Map<string, T[]> {
+  const children = new Map<string, T[]>();
+  for (const message of [...messages].sort(byCreatedAt)) {
+    const key = message.parentId ?? "";
+    children.set(key, [...(children.get(key) ?? []), message]);
+  }
+  return children;
+}
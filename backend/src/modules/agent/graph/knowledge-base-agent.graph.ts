@@ -1,16 +1,22 @@
 import { END, START, StateGraph } from "@langchain/langgraph";
 import type { IntentRouter } from "../intent/intent-router.js";
 import type { ConversationQueryResolver } from "../conversation/conversation-query-resolver.js";
-import type { KnowledgeBaseSearchTool } from "../tools/knowledge-base-search.tool.js";
+import { mergeSearchOutputs, type KnowledgeBaseSearchTool, type SessionSearchScope } from "../tools/knowledge-base-search.tool.js";
 import type { RetrievalRetryPlanner } from "../retrieval/retry-planner.js";
+import type { QueryPlanner } from "../retrieval/query-planner.js";
 import type { GroundedAnswerGenerator } from "../answer/grounded-answer.generator.js";
-import { KnowledgeBaseAgentState, type AgentHistoryMessage, type KnowledgeBaseAgentStateType } from "./knowledge-base-agent.state.js";
+import type { DocumentScope } from "../../document/document-access.service.js";
+import type { ConversationMemory } from "../conversation/conversation-memory.js";
+import type { SectionFilters } from "../../search/retrieval/section-filter.js";
+import type { RetrievalProfile } from "../../search/retrieval/retrieval-profile.js";
+import { KnowledgeBaseAgentState, type KnowledgeBaseAgentStateType } from "./knowledge-base-agent.state.js";
 
 export type AgentEventHandler = (event: { type: string; data: Record<string, unknown> }) => void | Promise<void>;
 
 type Dependencies = {
   intentRouter: Pick<IntentRouter, "classify">;
   queryResolver: Pick<ConversationQueryResolver, "resolve">;
+  queryPlanner: Pick<QueryPlanner, "plan">;
   searchTool: Pick<KnowledgeBaseSearchTool, "execute">;
   retryPlanner: Pick<RetrievalRetryPlanner, "plan">;
   answerGenerator: Pick<GroundedAnswerGenerator, "generate">;
@@ -23,33 +29,83 @@ export class KnowledgeBaseAgentGraph {
 
   constructor(private readonly deps: Dependencies) {
     this.graph = new StateGraph(KnowledgeBaseAgentState)
-      .addNode("classify", async (state) => {
-        const result = await this.deps.intentRouter.classify({ message: state.message, history: state.history });
+      .addNode("classify", async (state, config) => {
+        const result = await this.deps.intentRouter.classify({
+          message: state.message,
+          memory: state.memory,
+          signal: config.signal,
+        });
         await state.emit?.({ type: "intent.completed", data: result });
         return { intent: result.intent };
       })
-      .addNode("resolve", async (state) => ({
-        resolvedQuery: await this.deps.queryResolver.resolve({ message: state.message, history: state.history, intent: state.intent! }),
+      .addNode("resolve", async (state, config) => ({
+        resolvedQuery: await this.deps.queryResolver.resolve({
+          message: state.message,
+          memory: state.memory,
+          intent: state.intent!,
+          signal: config.signal,
+        }),
       }))
-      .addNode("retrieve", async (state) => {
+      .addNode("plan", async (state, config) => {
+        const plan = await this.deps.queryPlanner.plan({
+          query: state.resolvedQuery!,
+          memory: state.memory,
+          signal: config.signal,
+        });
+        await state.emit?.({ type: "plan.completed", data: { steps: plan, multiStep: plan.length > 1 } });
+        return { plan };
+      })
+      .addNode("retrieve", async (state, config) => {
         const round = state.round === 0 ? 1 : state.round;
-        const search = await this.deps.searchTool.execute({ query: state.resolvedQuery!, round });
-        await state.emit?.({ type: "retrieval.completed", data: { round, hitCount: search.results.length, query: search.query } });
+        const queries = state.plan.length > 0 ? state.plan : [state.resolvedQuery!];
+        // 子查询各自提取元数据过滤，并行检索后合并证据
+        const outputs = await Promise.all(queries.map(async (query, index) => {
+          const output = await this.deps.searchTool.execute({
+            query,
+            round,
+            scope: state.scope,
+            sessionScope: state.sessionScope,
+            sections: state.sections,
+            profile: state.profile,
+            signal: config.signal,
+          });
+          if (queries.length > 1) {
+            await state.emit?.({
+              type: "subquery.completed",
+              data: {
+                round,
+                index,
+                query,
+                filters: output.filters,
+                hitCount: output.results.length,
+                decision: output.assessment.decision,
+              },
+            });
+          }
+          return output;
+        }));
+        const search = outputs.length > 1 ? mergeSearchOutputs(state.resolvedQuery!, round, outputs, state.profile) : outputs[0]!;
+        await state.emit?.({ type: "retrieval.completed", data: { round, hitCount: search.results.length, query: search.query, profile: state.profile.name } });
         await state.emit?.({ type: "evidence.completed", data: { round, decision: search.assessment.decision } });
         return { search, round };
       })
-      .addNode("rewrite", async (state) => ({
+      .addNode("rewrite", async (state, config) => ({
         resolvedQuery: await this.deps.retryPlanner.plan({
           query: state.resolvedQuery!,
           snippets: state.search?.results.map((item) => item.snippet) ?? [],
+          signal: config.signal,
         }) ?? state.resolvedQuery,
+        // 改写后的查询作为单步检索，不再沿用第一轮的拆分
+        plan: [],
         round: 2 as const,
       }))
-      .addNode("generate", async (state) => {
+      .addNode("generate", async (state, config) => {
         const result = await this.deps.answerGenerator.generate({
           query: state.resolvedQuery!,
           evidence: state.search!.results,
+          memory: state.memory,
           onDelta: async (delta) => state.emit?.({ type: "answer.delta", data: { delta } }),
+          signal: config.signal,
         });
         return { answer: result.answer, citations: result.citations, decision: state.search!.assessment.decision };
       })
@@ -65,7 +121,8 @@ export class KnowledgeBaseAgentGraph {
         state.intent === "knowledge_question" || state.intent === "follow_up_question" ? "resolve" : "direct",
       )
       .addEdge("direct", END)
-      .addEdge("resolve", "retrieve")
+      .addEdge("resolve", "plan")
+      .addEdge("plan", "retrieve")
       .addConditionalEdges("retrieve", (state) => {
         if (state.search?.assessment.decision !== "refuse") return "generate";
         return state.round === 1 ? "rewrite" : "refuse";
@@ -76,10 +133,20 @@ export class KnowledgeBaseAgentGraph {
       .compile();
   }
 
-  async invoke(input: { message: string; history: AgentHistoryMessage[] }, options?: { onEvent?: AgentEventHandler }) {
+  async invoke(
+    input: {
+      message: string;
+      memory: ConversationMemory;
+      scope?: DocumentScope;
+      sessionScope?: SessionSearchScope;
+      sections?: SectionFilters;
+      profile: RetrievalProfile;
+    },
+    options?: { onEvent?: AgentEventHandler; signal?: AbortSignal }) {
+    // signal 既让 LangGraph 在节点之间停止调度，也传给各节点内的模型与检索调用
     const result = await this.graph.invoke(
       { ...input, round: 0, emit: options?.onEvent ?? (async () => undefined) },
-      { recursionLimit: 12 },
+      { recursionLimit: 12, signal: options?.signal },
     );
     return result as KnowledgeBaseAgentStateType;
   }
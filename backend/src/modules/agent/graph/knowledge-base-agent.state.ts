@@ -1,16 +1,30 @@
 import { Annotation } from "@langchain/langgraph";
 import type { AgentIntent } from "../intent/intent-router.js";
-import type { KnowledgeBaseSearchOutput } from "../tools/knowledge-base-search.tool.js";
+import type { KnowledgeBaseSearchOutput, SessionSearchScope } from "../tools/knowledge-base-search.tool.js";
 import type { SearchResult } from "../../search/retrieval/post-processor.js";
+import type { DocumentScope } from "../../document/document-access.service.js";
+import type { ConversationMemory } from "../conversation/conversation-memory.js";
+import type { SectionFilters } from "../../search/retrieval/section-filter.js";
+import type { RetrievalProfile } from "../../search/retrieval/retrieval-profile.js";
 
 export type AgentGraphDecision = "answer" | "narrow" | "refuse" | "clarify" | "chat" | "unsupported";
-export type AgentHistoryMessage = { role: "user" | "assistant"; content: string };
 
 export const KnowledgeBaseAgentState = Annotation.Root({
   message: Annotation<string>,
-  history: Annotation<AgentHistoryMessage[]>({ reducer: (_, value) => value, default: () => [] }),
+  /** 检索范围：会话所属工作区与提问者可访问的文档 */
+  scope: Annotation<DocumentScope | undefined>,
+  /** 会话固定的文档 / 标签范围，每一轮检索都使用 */
+  sessionScope: Annotation<SessionSearchScope | undefined>,
+  /** 本次提问显式指定的章节过滤（页码 / 章节范围 / 标题路径），每一轮检索都使用 */
+  sections: Annotation<SectionFilters | undefined>,
+  /** 本次提问使用的检索档位（请求 → 会话 → 默认），每一轮检索与证据判断都使用 */
+  profile: Annotation<RetrievalProfile>,
+  /** 按 token 预算裁剪的历史：较早轮次为摘要，最近轮次为原文；各节点共用 */
+  memory: Annotation<ConversationMemory>({ reducer: (_, value) => value, default: () => ({ summary: null, messages: [] }) }),
   intent: Annotation<AgentIntent | undefined>,
   resolvedQuery: Annotation<string | undefined>,
+  /** 检索计划：对比 / 多跳问题拆出的子查询，单步检索时只有 resolvedQuery 一项 */
+  plan: Annotation<string[]>({ reducer: (_, value) => value, default: () => [] }),
   round: Annotation<0 | 1 | 2>({ reducer: (_, value) => value, default: () => 0 }),
   search: Annotation<KnowledgeBaseSearchOutput | undefined>,
   answer: Annotation<string | undefined>,
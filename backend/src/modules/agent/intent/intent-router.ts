@@ -1,4 +1,5 @@
-import type { ChatMessage, ChatModelGateway } from "../model/chat-model.gateway.js";
+import type { ChatModelGateway } from "../model/chat-model.gateway.js";
+import { formatConversation, type ConversationMemory } from "../conversation/conversation-memory.js";
 
 export type AgentIntent =
   | "greeting"
@@ -14,8 +15,6 @@ export type IntentResult = {
   reason: string;
 };
 
-type ConversationMessage = Pick<ChatMessage, "role" | "content">;
-
 const GREETING_PATTERN = /^(你好|您好|嗨|早上好|下午好|晚上好|谢谢|多谢|明白了|好的|再见)[！!。.\s]*$/;
 const CAPABILITY_PATTERN = /^(你是谁|你能做什么|你可以做什么|支持什么)[？?。.\s]*$/;
 const SESSION_CONTROL_PATTERN = /^(忽略前文|忽略前面的内容|重新开始|换个话题|清除上下文)[！!。.\s]*$/;
@@ -25,7 +24,8 @@ export class IntentRouter {
 
   async classify(input: {
     message: string;
-    history: ConversationMessage[];
+    memory: ConversationMemory;
+    signal?: AbortSignal;
   }): Promise<IntentResult> {
     const message = input.message.trim();
     if (GREETING_PATTERN.test(message) || CAPABILITY_PATTERN.test(message)) {
@@ -47,9 +47,9 @@ export class IntentRouter {
       },
       {
         role: "user",
-        content: `历史:\n${input.history.map((item) => `${item.role}: ${item.content}`).join("\n")}\n当前消息: ${message}`,
+        content: `历史:\n${formatConversation(input.memory)}\n当前消息: ${message}`,
       },
-    ]);
+    ], { signal: input.signal });
 
     if (result.confidence < 0.55) {
       return { ...result, intent: "ambiguous" };
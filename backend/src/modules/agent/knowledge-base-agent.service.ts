@@ -1,41 +1,217 @@
 import { Prisma, type PrismaClient } from "@prisma/client";
 import type { KnowledgeBaseAgentGraph, AgentEventHandler } from "./graph/knowledge-base-agent.graph.js";
-import type { AgentHistoryMessage } from "./graph/knowledge-base-agent.state.js";
+import { AgentEventBuffer, type AgentStreamEnvelope } from "./stream/agent-event-buffer.js";
+import type { ConversationMemoryBuilder } from "./conversation/conversation-memory.js";
+import { documentScopeWhere, type DocumentScope } from "../document/document-access.service.js";
+import {
+  type CreateAgentMessageInput,
+  type ListAgentSessionsInput,
+  type UpdateAgentSessionInput,
+} from "./types.js";
+import { retrievalProfileNameSchema, sectionFiltersSchema } from "../search/types.js";
+import type { SectionFilters } from "../search/retrieval/section-filter.js";
+import { resolveRetrievalProfile, type RetrievalProfileName } from "../search/retrieval/retrieval-profile.js";
+import { branchPath, groupChildren, latestLeaf } from "./conversation/message-branch.js";
+
+/** 搜索结果中匹配消息的摘要长度（字符） */
+const MATCH_SNIPPET_CHARS = 120;
+/** 执行进程退出后遗留在 processing 的回答，由清理任务标记为失败 */
+export const STALE_MESSAGE_ERROR_CODE = "AGENT_RUN_ORPHANED";
+
+function messageNotFound() {
+  return Object.assign(new Error("message_not_found"), { statusCode: 404, code: "MESSAGE_NOT_FOUND" });
+}
+
+/** 会话归属：当前工作区内自己创建的会话，以及没有创建者的历史会话 */
+function sessionWhere(scope: DocumentScope): Prisma.ChatSessionWhereInput {
+  return { workspaceId: scope.workspaceId, OR: [{ userId: scope.viewer.id }, { userId: null }] };
+}
+
+function matchSnippet(content: string, query: string): string {
+  const index = content.toLowerCase().indexOf(query.toLowerCase());
+  const start = Math.max(0, index - Math.floor((MATCH_SNIPPET_CHARS - query.length) / 2));
+  const snippet = content.slice(start, start + MATCH_SNIPPET_CHARS).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${start + MATCH_SNIPPET_CHARS < content.length ? "…" : ""}`;
+}
+
+/** 用户消息上记录的章节过滤与检索档位 */
+function storedRequestOptions(metadata: Prisma.JsonValue | undefined): {
+  sections?: SectionFilters;
+  profile?: RetrievalProfileName;
+} {
+  const stored = (metadata ?? {}) as { sections?: unknown; profile?: unknown };
+  const sections = sectionFiltersSchema.safeParse(stored.sections);
+  const profile = retrievalProfileNameSchema.safeParse(stored.profile);
+  return {
+    sections: sections.success ? sections.data : undefined,
+    profile: profile.success ? profile.data : undefined,
+  };
+}
+
+/** 会话控制（忽略前文 / 换个话题）的回答在 metadataJson 中标记为上下文边界，之后的提问只看它之后的历史 */
+function isContextBoundary(metadata: Prisma.JsonValue | null): boolean {
+  return (metadata as { contextBoundary?: unknown } | null)?.contextBoundary === true;
+}
 
 export class KnowledgeBaseAgentService {
+  /** 本进程内正在执行的回答，按 assistant 消息 id 索引，供取消接口中止 */
+  private readonly runs = new Map<string, AbortController>();
+
   constructor(
     private readonly prisma: PrismaClient,
     private readonly graph: Pick<KnowledgeBaseAgentGraph, "invoke">,
+    private readonly memory: Pick<ConversationMemoryBuilder, "build">,
+    private readonly events = new AgentEventBuffer(),
   ) {}
 
-  async createSession(input: { documentId?: string; title?: string | null }) {
+  async createSession(scope: DocumentScope, input: {
+    documentId?: string;
+    documentIds?: string[];
+    tags?: string[];
+    title?: string | null;
+    retrievalProfile?: RetrievalProfileName;
+  }) {
+    const documentIds = [...new Set([...(input.documentId ? [input.documentId] : []), ...(input.documentIds ?? [])])];
     const session = await this.prisma.chatSession.create({
       data: {
+        workspaceId: scope.workspaceId,
+        userId: scope.viewer.id,
         documentId: input.documentId ?? null,
+        documentIds,
+        tags: input.tags ?? [],
         title: input.title ?? null,
+        retrievalProfile: input.retrievalProfile ?? null,
       },
     });
 
     return this.toSessionDto(session);
   }
 
-  async getSession(sessionId: string) {
-    const session = await this.prisma.chatSession.findUnique({
+  /** 修改会话标题、检索范围、检索档位或当前分支，下一条消息起生效 */
+  async updateSession(scope: DocumentScope, sessionId: string, input: UpdateAgentSessionInput) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...sessionWhere(scope) },
+      select: { id: true, documentId: true },
+    });
+    if (!session) return null;
+    let activeLeafId: string | undefined;
+    if (input.activeMessageId) {
+      const messages = await this.prisma.chatMessage.findMany({
+        where: { sessionId },
+        select: { id: true, parentId: true, createdAt: true },
+      });
+      if (!messages.some((message) => message.id === input.activeMessageId)) throw messageNotFound();
+      activeLeafId = latestLeaf(messages, input.activeMessageId);
+    }
+    const updated = await this.prisma.chatSession.update({
       where: { id: sessionId },
+      data: {
+        ...(activeLeafId ? { activeLeafId } : {}),
+        ...(input.title !== undefined ? { title: input.title } : {}),
+        ...(input.tags !== undefined ? { tags: input.tags } : {}),
+        ...(input.retrievalProfile !== undefined ? { retrievalProfile: input.retrievalProfile } : {}),
+        ...(input.documentIds !== undefined
+          ? {
+              documentIds: input.documentIds,
+              // 旧版 documentId 不再在范围内时一并清除，避免与 documentIds 不一致
+              ...(session.documentId && !input.documentIds.includes(session.documentId) ? { documentId: null } : {}),
+            }
+          : {}),
+      },
+    });
+    return this.toSessionDto(updated);
+  }
+
+  async getSession(scope: DocumentScope, sessionId: string) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...sessionWhere(scope) },
     });
 
     return session ? this.toSessionDto(session) : null;
   }
 
-  async listSessionMessages(sessionId: string) {
-    const messages = await this.prisma.chatMessage.findMany({
-      where: { sessionId },
+  /** 会话列表：按最近更新倒序；q 不区分大小写匹配标题与消息内容，命中消息时附带摘要 */
+  async listSessions(scope: DocumentScope, input: ListAgentSessionsInput) {
+    const query = input.q || undefined;
+    const where: Prisma.ChatSessionWhereInput = {
+      ...sessionWhere(scope),
+      ...(query
+        ? {
+            AND: [
+              {
+                OR: [
+                  { title: { contains: query, mode: "insensitive" } },
+                  { messages: { some: { content: { contains: query, mode: "insensitive" } } } },
+                ],
+              },
+            ],
+          }
+        : {}),
+    };
+    const [total, sessions] = await Promise.all([
+      this.prisma.chatSession.count({ where }),
+      this.prisma.chatSession.findMany({
+        where,
+        orderBy: { updatedAt: "desc" },
+        skip: (input.page - 1) * input.pageSize,
+        take: input.pageSize,
+        include: { _count: { select: { messages: true } } },
+      }),
+    ]);
+
+    const matches = query && sessions.length > 0
+      ? await this.prisma.chatMessage.findMany({
+          where: { sessionId: { in: sessions.map((session) => session.id) }, content: { contains: query, mode: "insensitive" } },
+          orderBy: { createdAt: "desc" },
+          distinct: ["sessionId"],
+          select: { sessionId: true, content: true },
+        })
+      : [];
+    const matchBySession = new Map(matches.map((match) => [match.sessionId, matchSnippet(match.content, query!)]));
+
+    return {
+      sessions: sessions.map((session) => ({
+        ...this.toSessionDto(session),
+        messageCount: session._count.messages,
+        matchedSnippet: matchBySession.get(session.id) ?? null,
+      })),
+      total,
+      page: input.page,
+      pageSize: input.pageSize,
+    };
+  }
+
+  /** 删除会话及其消息；有回答正在生成时拒绝 */
+  async deleteSession(scope: DocumentScope, sessionId: string): Promise<boolean> {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...sessionWhere(scope) },
+      select: { id: true, messages: { where: { role: "assistant", status: "processing" }, select: { id: true }, take: 1 } },
+    });
+    if (!session) return false;
+    if (session.messages.length > 0) {
+      throw Object.assign(new Error("session_busy"), { statusCode: 409, code: "SESSION_BUSY" });
+    }
+    // 消息与引用随会话级联删除
+    await this.prisma.chatSession.delete({ where: { id: sessionId } });
+    return true;
+  }
+
+  /** 当前分支上的消息；siblingIds 为同一父消息下的全部分支（含自身），用于切换 */
+  async listSessionMessages(session: { id: string; activeLeafId: string | null }) {
+    const all = await this.prisma.chatMessage.findMany({
+      where: { sessionId: session.id },
       orderBy: { createdAt: "asc" },
     });
+    const children = groupChildren(all);
+    const messages = branchPath(all, session.activeLeafId);
 
     return messages.map((message) => ({
       id: message.id,
       sessionId: message.sessionId,
+      parentId: message.parentId,
+      siblingIds: (children.get(message.parentId ?? "") ?? []).map((sibling) => sibling.id),
+      /** 此消息之后开始新话题，之前的消息不再作为上下文 */
+      contextBoundary: isContextBoundary(message.metadataJson),
       role: message.role,
       content: message.content,
       status: message.status,
@@ -51,13 +227,20 @@ export class KnowledgeBaseAgentService {
     }));
   }
 
+  /** scope 决定检索与引用范围：提问者无权访问的文档既不参与检索，也不会出现在引用中 */
   async sendMessage(
+    scope: DocumentScope,
     sessionId: string,
-    input: { content: string },
-    options: { traceId: string; onEvent?: AgentEventHandler },
+    input: CreateAgentMessageInput,
+    options: {
+      traceId: string;
+      /** 事件已写入缓存并编号，断线后可通过 Last-Event-ID 补齐 */
+      onEvent?: (event: AgentStreamEnvelope) => void | Promise<void>;
+      signal?: AbortSignal;
+    },
   ) {
-    const session = await this.prisma.chatSession.findUnique({
-      where: { id: sessionId },
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...sessionWhere(scope) },
       include: { messages: { orderBy: { createdAt: "asc" } } },
     });
     if (!session) throw Object.assign(new Error("session_not_found"), { statusCode: 404 });
@@ -65,37 +248,99 @@ export class KnowledgeBaseAgentService {
     const active = session.messages.some((message) => message.role === "assistant" && message.status === "processing");
     if (active) throw Object.assign(new Error("session_busy"), { statusCode: 409, code: "SESSION_BUSY" });
 
-    const userMessage = await this.prisma.chatMessage.create({
-      data: { sessionId, role: "user", content: input.content, status: "completed", completedAt: new Date() },
+    const { parentId, question, existingUserMessage } = this.resolveBranchPoint(session, input);
+    // 章节过滤与检索档位记在用户消息上，重新生成时沿用
+    const stored = storedRequestOptions(existingUserMessage?.metadataJson);
+    const sections = input.sections ?? stored.sections;
+    const requestedProfile = input.profile ?? stored.profile;
+    const sessionProfile = retrievalProfileNameSchema.safeParse(session.retrievalProfile);
+    const profile = resolveRetrievalProfile(requestedProfile, sessionProfile.success ? sessionProfile.data : null);
+    const userMessage = existingUserMessage ?? await this.prisma.chatMessage.create({
+      data: {
+        sessionId,
+        parentId,
+        role: "user",
+        content: question,
+        status: "completed",
+        completedAt: new Date(),
+        ...(sections || requestedProfile
+          ? { metadataJson: JSON.parse(JSON.stringify({ sections, profile: requestedProfile })) as Prisma.InputJsonValue }
+          : {}),
+      },
     });
     const assistantMessage = await this.prisma.chatMessage.create({
-      data: { sessionId, role: "assistant", content: "", status: "processing", traceId: options.traceId, startedAt: new Date() },
+      data: {
+        sessionId,
+        parentId: userMessage.id,
+        role: "assistant",
+        content: "",
+        status: "processing",
+        traceId: options.traceId,
+        startedAt: new Date(),
+      },
+    });
+    // 新回答成为当前分支末端，原分支保留
+    await this.prisma.chatSession.update({ where: { id: sessionId }, data: { activeLeafId: assistantMessage.id } });
+
+    const controller = new AbortController();
+    this.runs.set(assistantMessage.id, controller);
+    const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+    // 订阅的客户端全部断开且未在等待时间内重连时取消执行
+    this.events.start(assistantMessage.id, { sessionId, traceId: options.traceId, onAbandoned: () => controller.abort() });
+    const emit: AgentEventHandler = async (event) => options.onEvent?.(this.events.publish(assistantMessage.id, event));
+
+    await emit({
+      type: "message.accepted",
+      data: { sessionId, messageId: assistantMessage.id, userMessageId: userMessage.id, parentId: userMessage.parentId },
     });
-    await options.onEvent?.({ type: "message.accepted", data: { sessionId, messageId: assistantMessage.id } });
 
-    const history: AgentHistoryMessage[] = session.messages
-      .filter((message) => message.role === "user" || message.role === "assistant")
-      .slice(-20)
-      .map((message) => ({ role: message.role as "user" | "assistant", content: message.content }));
+    // 重置上下文之后的提问只看当前分支上最近一个边界之后的历史
+    const branch = branchPath(session.messages, userMessage.parentId);
+    const boundary = branch.map((message) => isContextBoundary(message.metadataJson)).lastIndexOf(true);
+    const path = branch
+      .slice(boundary + 1)
+      .filter((message) => (message.role === "user" || message.role === "assistant") && message.content)
+      .map((message) => ({ id: message.id, role: message.role as "user" | "assistant", content: message.content }));
 
     try {
-      const result = await this.graph.invoke({ message: input.content, history }, { onEvent: options.onEvent });
+      const previousSummary = session.summary && session.summaryThroughId
+        ? { text: session.summary, throughMessageId: session.summaryThroughId }
+        : null;
+      const { memory, summary } = await this.memory.build({ path, summary: previousSummary, signal });
+      if (summary && summary !== previousSummary) {
+        await this.prisma.chatSession.update({
+          where: { id: sessionId },
+          data: { summary: summary.text, summaryThroughId: summary.throughMessageId },
+        });
+      }
+      const result = await this.graph.invoke(
+        {
+          message: question,
+          memory,
+          scope,
+          sessionScope: { documentIds: session.documentIds, tags: session.tags },
+          sections,
+          profile,
+        },
+        { onEvent: emit, signal },
+      );
+      signal.throwIfAborted();
+      const resetContext = result.intent === "session_control";
       const documentIds = [...new Set(result.citations.map((citation) => citation.documentId))];
       const documents = await this.prisma.document.findMany({
-        where: { id: { in: documentIds } },
+        where: { id: { in: documentIds }, ...documentScopeWhere(scope) },
         select: { id: true, fileName: true, fileType: true },
       });
       const documentMap = new Map(documents.map((document) => [document.id, document]));
-      const citations = result.citations.map((citation) => {
+      // 检索已按 ACL 过滤；这里再校验一次，权限在检索过程中被收回的文档也不会被引用
+      const citations = result.citations.flatMap((citation) => {
         const document = documentMap.get(citation.documentId);
-        return {
-          ...citation,
-          fileName: document?.fileName ?? "未知文档",
-          sourceType: document?.fileType ?? "pdf",
-        };
+        if (!document) return [];
+        return [{ ...citation, fileName: document.fileName, sourceType: document.fileType }];
       });
-      const updated = await this.prisma.chatMessage.update({
-        where: { id: assistantMessage.id },
+      // 只完成仍在处理中的消息：取消接口可能已在其他实例上把它标记为 cancelled
+      const { count } = await this.prisma.chatMessage.updateMany({
+        where: { id: assistantMessage.id, status: "processing" },
         data: {
           content: result.answer ?? "",
           status: "completed",
@@ -103,13 +348,27 @@ export class KnowledgeBaseAgentService {
           resolvedQuery: result.resolvedQuery,
           completedAt: new Date(),
           citations: JSON.parse(JSON.stringify({ items: citations, decision: result.decision })) as Prisma.InputJsonValue,
-          metadataJson: JSON.parse(JSON.stringify({ round: result.round, decision: result.decision, search: result.search })) as Prisma.InputJsonValue,
+          // retrieval 记录本次实际使用的档位与全部参数，便于回溯检索结果
+          metadataJson: JSON.parse(JSON.stringify({
+            round: result.round,
+            decision: result.decision,
+            retrieval: { profile, sections },
+            search: result.search,
+            ...(resetContext ? { contextBoundary: true } : {}),
+          })) as Prisma.InputJsonValue,
         },
       });
+      if (count === 0) return this.finishInterrupted(sessionId, userMessage, assistantMessage.id, emit);
+      const updated = await this.prisma.chatMessage.findUniqueOrThrow({ where: { id: assistantMessage.id } });
       await this.prisma.chatSession.update({
         where: { id: sessionId },
-        data: { title: session.title ?? input.content.slice(0, 60) },
+        data: {
+          title: session.title ?? question.slice(0, 60),
+          // 会话控制（忽略前文 / 换个话题）：本条回答已标记为上下文边界，旧摘要随之失效
+          ...(resetContext ? { summary: null, summaryThroughId: null } : {}),
+        },
       });
+      if (resetContext) await emit({ type: "context.reset", data: { boundaryMessageId: assistantMessage.id } });
       if (citations.length > 0) {
         await this.prisma.chatReference.createMany({
           data: citations.filter((citation) => citation.chunkId).map((citation) => ({
@@ -120,23 +379,130 @@ export class KnowledgeBaseAgentService {
           })),
         }).catch(() => undefined);
       }
-      await options.onEvent?.({ type: "citations.completed", data: { citations } });
-      await options.onEvent?.({ type: "message.completed", data: { message: updated } });
+      await emit({ type: "citations.completed", data: { citations } });
+      await emit({ type: "message.completed", data: { message: updated } });
       return { sessionId, userMessage, assistantMessage: updated, result };
     } catch (error) {
+      if (signal.aborted) return this.finishInterrupted(sessionId, userMessage, assistantMessage.id, emit);
       const code = (error as { code?: string }).code ?? "INTERNAL_ERROR";
       await this.prisma.chatMessage.update({
         where: { id: assistantMessage.id },
         data: { status: "failed", errorCode: code, completedAt: new Date() },
       });
-      await options.onEvent?.({ type: "message.failed", data: { code, retryable: false, message: "Agent 执行失败" } });
+      await emit({ type: "message.failed", data: { code, retryable: false, message: "Agent 执行失败" } });
       throw error;
+    } finally {
+      this.runs.delete(assistantMessage.id);
+      this.events.finish(assistantMessage.id);
+    }
+  }
+
+  /**
+   * 取消会话中正在生成的回答。先把消息标记为 cancelled 使会话立即可以继续提问，
+   * 再中止本进程内的执行；在其他实例上运行的回答只能标记，由该实例完成时丢弃结果。
+   */
+  async cancelMessage(scope: DocumentScope, sessionId: string) {
+    const session = await this.prisma.chatSession.findFirst({
+      where: { id: sessionId, ...sessionWhere(scope) },
+      select: { id: true },
+    });
+    if (!session) return null;
+    const running = await this.prisma.chatMessage.findFirst({
+      where: { sessionId, role: "assistant", status: "processing" },
+      select: { id: true },
+    });
+    if (!running) return { messageId: null, cancelled: false };
+    await this.markCancelled(running.id);
+    this.runs.get(running.id)?.abort();
+    return { messageId: running.id, cancelled: true };
+  }
+
+  /**
+   * 把开始超过 timeoutMs 仍处于 processing 的回答标记为失败：执行它的进程已崩溃或重启，
+   * 否则会话会一直返回 SESSION_BUSY。本进程内仍在执行的同一回答一并中止。
+   */
+  async failStaleMessages(timeoutMs: number): Promise<number> {
+    const cutoff = new Date(Date.now() - timeoutMs);
+    const stale = await this.prisma.chatMessage.findMany({
+      where: {
+        role: "assistant",
+        status: "processing",
+        OR: [{ startedAt: { lt: cutoff } }, { startedAt: null, createdAt: { lt: cutoff } }],
+      },
+      select: { id: true },
+    });
+    if (stale.length === 0) return 0;
+    const ids = stale.map((message) => message.id);
+    const { count } = await this.prisma.chatMessage.updateMany({
+      where: { id: { in: ids }, status: "processing" },
+      data: { status: "failed", errorCode: STALE_MESSAGE_ERROR_CODE, completedAt: new Date() },
+    });
+    for (const id of ids) this.runs.get(id)?.abort();
+    return count;
+  }
+
+  private markCancelled(messageId: string) {
+    return this.prisma.chatMessage.updateMany({
+      where: { id: messageId, status: "processing" },
+      data: { status: "cancelled", errorCode: "CANCELLED", completedAt: new Date() },
+    });
+  }
+
+  /** 执行被中止或结果被丢弃：消息若仍在处理中则记为取消，按最终状态通知客户端 */
+  private async finishInterrupted(
+    sessionId: string,
+    userMessage: { id: string },
+    messageId: string,
+    onEvent?: AgentEventHandler,
+  ) {
+    await this.markCancelled(messageId);
+    const message = await this.prisma.chatMessage.findUniqueOrThrow({ where: { id: messageId } });
+    if (message.status === "failed") {
+      await onEvent?.({
+        type: "message.failed",
+        data: { code: message.errorCode, retryable: true, message: "回答超时中断，请重试" },
+      });
+    } else {
+      await onEvent?.({ type: "message.cancelled", data: { messageId } });
+    }
+    return { sessionId, userMessage, assistantMessage: message, result: null };
+  }
+
+  /**
+   * 确定新消息在对话树中的位置：
+   * 重新生成复用原问题，新回答挂在同一条用户消息下；编辑重发挂在被编辑消息的父消息下；
+   * 普通提问默认接在当前分支末端。
+   */
+  private resolveBranchPoint<T extends { id: string; parentId: string | null; role: string; content: string }>(
+    session: { activeLeafId: string | null; messages: T[] },
+    input: CreateAgentMessageInput,
+  ) {
+    const find = (id: string, role: "user" | "assistant") =>
+      session.messages.find((message) => message.id === id && message.role === role);
+
+    if (input.regenerateMessageId) {
+      const answer = find(input.regenerateMessageId, "assistant");
+      const question = answer?.parentId ? find(answer.parentId, "user") : undefined;
+      if (!answer || !question) throw messageNotFound();
+      return { parentId: question.parentId, question: question.content, existingUserMessage: question };
+    }
+    if (input.editMessageId) {
+      const edited = find(input.editMessageId, "user");
+      if (!edited) throw messageNotFound();
+      return { parentId: edited.parentId, question: input.content!, existingUserMessage: undefined };
     }
+    const parentId = input.parentId !== undefined ? input.parentId : session.activeLeafId;
+    if (parentId && !session.messages.some((message) => message.id === parentId)) throw messageNotFound();
+    return { parentId, question: input.content!, existingUserMessage: undefined };
   }
 
   private toSessionDto(session: {
     id: string;
     documentId: string | null;
+    documentIds: string[];
+    tags: string[];
+    activeLeafId: string | null;
+    retrievalProfile: string | null;
     title: string | null;
     createdAt: Date;
     updatedAt: Date;
@@ -144,6 +510,10 @@ export class KnowledgeBaseAgentService {
     return {
       id: session.id,
       documentId: session.documentId,
+      documentIds: session.documentIds,
+      tags: session.tags,
+      activeLeafId: session.activeLeafId,
+      retrievalProfile: session.retrievalProfile,
       title: session.title,
       createdAt: session.createdAt.toISOString(),
       updatedAt: session.updatedAt.toISOString(),
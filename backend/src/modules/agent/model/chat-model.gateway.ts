@@ -5,9 +5,12 @@ export type ChatMessage = {
   content: string;
 };
 
+/** signal 中止后底层请求随之取消，调用方收到 AbortError */
+export type ChatCallOptions = { signal?: AbortSignal };
+
 export interface ChatModelGateway {
-  completeJson<T>(messages: ChatMessage[]): Promise<T>;
-  streamText(messages: ChatMessage[]): AsyncIterable<string>;
+  completeJson<T>(messages: ChatMessage[], options?: ChatCallOptions): Promise<T>;
+  streamText(messages: ChatMessage[], options?: ChatCallOptions): AsyncIterable<string>;
 }
 
 type ChatClient = Pick<OpenAI, "chat">;
@@ -22,13 +25,16 @@ export class OpenAICompatibleChatGateway implements ChatModelGateway {
     private readonly model: string,
   ) {}
 
-  async completeJson<T>(messages: ChatMessage[]): Promise<T> {
-    const response = await this.client.chat.completions.create({
-      model: this.model,
-      temperature: 0,
-      response_format: { type: "json_object" },
-      messages,
-    });
+  async completeJson<T>(messages: ChatMessage[], options?: ChatCallOptions): Promise<T> {
+    const response = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        temperature: 0,
+        response_format: { type: "json_object" },
+        messages,
+      },
+      { signal: options?.signal },
+    );
     const content = response.choices[0]?.message?.content;
     if (!content) {
       throw modelError("MODEL_EMPTY_RESPONSE", "模型返回了空响应");
@@ -40,13 +46,16 @@ export class OpenAICompatibleChatGateway implements ChatModelGateway {
     }
   }
 
-  async *streamText(messages: ChatMessage[]): AsyncIterable<string> {
-    const stream = await this.client.chat.completions.create({
-      model: this.model,
-      temperature: 0.1,
-      stream: true,
-      messages,
-    });
+  async *streamText(messages: ChatMessage[], options?: ChatCallOptions): AsyncIterable<string> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: this.model,
+        temperature: 0.1,
+        stream: true,
+        messages,
+      },
+      { signal: options?.signal },
+    );
     for await (const chunk of stream) {
       const delta = chunk.choices[0]?.delta?.content;
       if (delta) yield delta;
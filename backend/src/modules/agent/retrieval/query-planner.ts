@@ -0,0 +1,46 @@
+import type { ChatModelGateway } from "../model/chat-model.gateway.js";
+import { formatConversation, type ConversationMemory } from "../conversation/conversation-memory.js";
+
+/** 单个问题最多拆成的子查询数 */
+const MAX_SUB_QUERIES = 4;
+/** 对比 / 多对象 / 多年份等需要多次检索的信号；都不命中时不调用模型 */
+const MULTI_STEP_PATTERN = /(比较|对比|区别|差异|异同|分别|相比|不同|变化|变更|之间|以及|vs\.?|versus|compare|difference)/i;
+const MULTIPLE_YEARS_PATTERN = /(19|20)\d{2}[\s\S]*(19|20)\d{2}/;
+
+export class QueryPlanner {
+  constructor(private readonly gateway: ChatModelGateway) {}
+
+  /**
+   * 把对比类、多跳问题拆成可独立检索的子查询；不需要拆分或规划失败时返回 [query]。
+   * 每个子查询单独提取元数据过滤（年份、文件类型、标签），因此应保留各自的限定词。
+   */
+  async plan(input: { query: string; memory?: ConversationMemory; signal?: AbortSignal }): Promise<string[]> {
+    if (!MULTI_STEP_PATTERN.test(input.query) && !MULTIPLE_YEARS_PATTERN.test(input.query)) return [input.query];
+    try {
+      const conversation = input.memory ? formatConversation(input.memory) : "";
+      const result = await this.gateway.completeJson<{ steps: unknown }>([
+        {
+          role: "system",
+          content: [
+            "你是企业知识库的检索规划器，只输出 JSON：{ steps }，steps 为字符串数组。",
+            `问题需要对比多个对象 / 年份，或需要先查到 A 再查 B 时，拆成 2-${MAX_SUB_QUERIES} 个可独立检索的子问题，每个只针对一个对象。`,
+            "子问题保留原问题中的年份、文档类型等限定词；不需要拆分时 steps 只包含原问题。不要回答问题。",
+          ].join("\n"),
+        },
+        {
+          role: "user",
+          content: `${conversation ? `历史:\n${conversation}\n` : ""}问题: ${input.query}`,
+        },
+      ], { signal: input.signal });
+      const steps = Array.isArray(result.steps)
+        ? [...new Set(result.steps.filter((step): step is string => typeof step === "string").map((step) => step.trim()))]
+            .filter(Boolean)
+            .slice(0, MAX_SUB_QUERIES)
+        : [];
+      return steps.length > 0 ? steps : [input.query];
+    } catch {
+      input.signal?.throwIfAborted();
+      return [input.query];
+    }
+  }
+}
@@ -3,7 +3,7 @@ import type { ChatModelGateway } from "../model/chat-model.gateway.js";
 export class RetrievalRetryPlanner {
   constructor(private readonly gateway: ChatModelGateway) {}
 
-  async plan(input: { query: string; snippets: string[] }): Promise<string | null> {
+  async plan(input: { query: string; snippets: string[]; signal?: AbortSignal }): Promise<string | null> {
     try {
       const result = await this.gateway.completeJson<{ query: string }>([
         {
@@ -14,10 +14,12 @@ export class RetrievalRetryPlanner {
           role: "user",
           content: `原查询: ${input.query}\n第一轮片段:\n${input.snippets.join("\n")}`,
         },
-      ]);
+      ], { signal: input.signal });
       const query = result.query?.trim();
       return query && query !== input.query ? query : null;
     } catch {
+      // 改写失败时沿用原查询，但取消必须向上传递
+      input.signal?.throwIfAborted();
       return null;
     }
   }
@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { AgentEventBuffer, type AgentStreamEnvelope } from "./agent-event-buffer.js";
+
+function recorder() {
+  const events: AgentStreamEnvelope[] = [];
+  const listener = { onEvent: vi.fn((event: AgentStreamEnvelope) => events.push(event)), onEnd: vi.fn() };
+  return { events, listener, sequences: () => events.map((event) => event.sequence) };
+}
+
+function publishTokens(buffer: AgentEventBuffer, messageId: string, count: number) {
+  for (let i = 0; i < count; i += 1) buffer.publish(messageId, { type: "token", data: { text: `t${i}` } });
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("AgentEventBuffer 重放", () => {
+  it("事件按消息编号，带上会话与 trace", () => {
+    const buffer = new AgentEventBuffer();
+    buffer.start("m1", { sessionId: "s1", traceId: "t1" });
+
+    const first = buffer.publish("m1", { type: "status", data: {} });
+    const second = buffer.publish("m1", { type: "token", data: { text: "你好" } });
+
+    expect(first).toMatchObject({ sequence: 1, sessionId: "s1", messageId: "m1", traceId: "t1" });
+    expect(second.sequence).toBe(2);
+    expect(first.eventId).not.toBe(second.eventId);
+    expect(buffer.sessionIdOf("m1")).toBe("s1");
+  });
+
+  it("订阅时只重放 afterSequence 之后的事件，再推送实时事件", () => {
+    const buffer = new AgentEventBuffer();
+    buffer.start("m1", { sessionId: "s1", traceId: "t1" });
+    publishTokens(buffer, "m1", 3);
+
+    const client = recorder();
+    buffer.attach("m1", 1, client.listener);
+    publishTokens(buffer, "m1", 1);
+
+    expect(client.sequences()).toEqual([2, 3, 4]);
+    expect(client.listener.onEnd).not.toHaveBeenCalled();
+  });
+
+  it("结束后订阅补齐剩余事件并立即收到 onEnd", () => {
+    const buffer = new AgentEventBuffer();
+    buffer.start("m1", { sessionId: "s1", traceId: "t1" });
+    publishTokens(buffer, "m1", 2);
+    buffer.finish("m1");
+    publishTokens(buffer, "m1", 1);
+
+    const client = recorder();
+    const detach = buffer.attach("m1", 0, client.listener);
+
+    expect(detach).not.toBeNull();
+    expect(client.sequences()).toEqual([1, 2]);
+    expect(client.listener.onEnd).toHaveBeenCalledTimes(1);
+  });
+
+  it("结束时通知在线订阅者，保留期过后从缓存移除", () => {
+    const buffer = new AgentEventBuffer({ retentionMs: 1000 });
+    buffer.start("m1", { sessionId: "s1", traceId: "t1" });
+    const client = recorder();
+    buffer.attach("m1", 0, client.listener);
+
+    buffer.finish("m1");
+    expect(client.listener.onEnd).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(999);
+    expect(buffer.sessionIdOf("m1")).toBe("s1");
+    vi.advanceTimersByTime(1);
+    expect(buffer.sessionIdOf("m1")).toBeUndefined();
+    expect(buffer.attach("m1", 0, recorder().listener)).toBeNull();
+  });
+
+  it("未知消息不可订阅，发布的事件也不缓存", () => {
+    const buffer = new AgentEventBuffer();
+
+    expect(buffer.attach("missing", 0, recorder().listener)).toBeNull();
+    expect(buffer.publish("missing", { type: "token", data: {} }).sequence).toBe(1);
+    expect(buffer.sessionIdOf("missing")).toBeUndefined();
+  });
+});
+
+describe("AgentEventBuffer 放弃", () => {
+  it("所有客户端断开超过等待时间后触发 onAbandoned", () => {
+    const onAbandoned = vi.fn();
+    const buffer = new AgentEventBuffer({ abandonAfterMs: 1000 });
+    buffer.start("m1", { sessionId: "s1", traceId: "t1", onAbandoned });
+    const detachA = buffer.attach("m1", 0, recorder().listener)!;
+    const detachB = buffer.attach("m1", 0, recorder().listener)!;
+
+    detachA();
+    vi.advanceTimersByTime(5000);
+    expect(onAbandoned).not.toHaveBeenCalled();
+
+    detachB();
+    vi.advanceTimersByTime(999);
+    expect(onAbandoned).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onAbandoned).toHaveBeenCalledTimes(1);
+  });
+
+  it("等待期间重连则不触发", () => {
+    const onAbandoned = vi.fn();
+    const buffer = new AgentEventBuffer({ abandonAfterMs: 1000 });
+    buffer.start("m1", { sessionId: "s1", traceId: "t1", onAbandoned });
+    buffer.attach("m1", 0, recorder().listener)!();
+
+    vi.advanceTimersByTime(500);
+    buffer.attach("m1", 0, recorder().listener);
+    vi.advanceTimersByTime(5000);
+
+    expect(onAbandoned).not.toHaveBeenCalled();
+  });
+
+  it("回答结束后断开或结束时正在等待都不触发", () => {
+    const onAbandoned = vi.fn();
+    const buffer = new AgentEventBuffer({ abandonAfterMs: 1000 });
+    buffer.start("m1", { sessionId: "s1", traceId: "t1", onAbandoned });
+    buffer.attach("m1", 0, recorder().listener)!();
+    buffer.finish("m1");
+    vi.advanceTimersByTime(5000);
+
+    buffer.start("m2", { sessionId: "s1", traceId: "t2", onAbandoned });
+    const detach = buffer.attach("m2", 0, recorder().listener)!;
+    buffer.finish("m2");
+    detach();
+    vi.advanceTimersByTime(5000);
+
+    expect(onAbandoned).not.toHaveBeenCalled();
+  });
+
+  it("重复调用取消订阅函数不会重新计时", () => {
+    const onAbandoned = vi.fn();
+    const buffer = new AgentEventBuffer({ abandonAfterMs: 1000 });
+    buffer.start("m1", { sessionId: "s1", traceId: "t1", onAbandoned });
+    const detach = buffer.attach("m1", 0, recorder().listener)!;
+
+    detach();
+    vi.advanceTimersByTime(1000);
+    detach();
+    vi.advanceTimersByTime(5000);
+
+    expect(onAbandoned).toHaveBeenCalledTimes(1);
+  });
+});
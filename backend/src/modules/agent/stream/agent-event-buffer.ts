@@ -0,0 +1,125 @@
+import { randomUUID } from "crypto";
+
+/** 推送给客户端的事件；sequence 在同一条消息内从 1 递增，用作 SSE 的 id（Last-Event-ID） */
+export interface AgentStreamEnvelope {
+  type: string;
+  eventId: string;
+  sessionId: string;
+  messageId: string;
+  traceId: string;
+  sequence: number;
+  timestamp: string;
+  data: Record<string, unknown>;
+}
+
+export interface AgentStreamListener {
+  onEvent: (event: AgentStreamEnvelope) => void;
+  /** 回答结束（完成 / 失败 / 取消）且事件已全部送达 */
+  onEnd: () => void;
+}
+
+type MessageStream = {
+  sessionId: string;
+  traceId: string;
+  events: AgentStreamEnvelope[];
+  listeners: Set<AgentStreamListener>;
+  finished: boolean;
+  /** 曾有客户端订阅、但当前全部断开时调用 */
+  onAbandoned?: () => void;
+  abandonTimer?: NodeJS.Timeout;
+  evictTimer?: NodeJS.Timeout;
+};
+
+/** 回答结束后事件保留多久，供断线的客户端补齐 */
+const DEFAULT_RETENTION_MS = 5 * 60_000;
+/** 所有客户端断开后等待重连的时间，超时视为放弃 */
+const DEFAULT_ABANDON_AFTER_MS = 30_000;
+
+/**
+ * 按 assistant 消息缓存 Agent 事件（进程内）。
+ * 断线重连时从 Last-Event-ID 之后重放，再继续推送实时事件；
+ * 客户端全部断开超过等待时间仍未重连时触发 onAbandoned，由调用方取消执行。
+ */
+export class AgentEventBuffer {
+  private readonly streams = new Map<string, MessageStream>();
+
+  constructor(
+    private readonly options: { retentionMs?: number; abandonAfterMs?: number } = {},
+  ) {}
+
+  start(messageId: string, context: { sessionId: string; traceId: string; onAbandoned?: () => void }) {
+    this.streams.set(messageId, {
+      sessionId: context.sessionId,
+      traceId: context.traceId,
+      events: [],
+      listeners: new Set(),
+      finished: false,
+      onAbandoned: context.onAbandoned,
+    });
+  }
+
+  /** 缓存中消息所属的会话；不在缓存中时为 undefined */
+  sessionIdOf(messageId: string): string | undefined {
+    return this.streams.get(messageId)?.sessionId;
+  }
+
+  publish(messageId: string, event: { type: string; data: Record<string, unknown> }): AgentStreamEnvelope {
+    const stream = this.streams.get(messageId);
+    const envelope: AgentStreamEnvelope = {
+      type: event.type,
+      eventId: randomUUID(),
+      sessionId: stream?.sessionId ?? "",
+      messageId,
+      traceId: stream?.traceId ?? "",
+      sequence: (stream?.events.length ?? 0) + 1,
+      timestamp: new Date().toISOString(),
+      data: event.data,
+    };
+    if (!stream || stream.finished) return envelope;
+    stream.events.push(envelope);
+    for (const listener of stream.listeners) listener.onEvent(envelope);
+    return envelope;
+  }
+
+  finish(messageId: string) {
+    const stream = this.streams.get(messageId);
+    if (!stream || stream.finished) return;
+    stream.finished = true;
+    if (stream.abandonTimer) clearTimeout(stream.abandonTimer);
+    for (const listener of stream.listeners) listener.onEnd();
+    stream.listeners.clear();
+    stream.evictTimer = setTimeout(
+      () => this.streams.delete(messageId),
+      this.options.retentionMs ?? DEFAULT_RETENTION_MS,
+    );
+    stream.evictTimer.unref();
+  }
+
+  /**
+   * 订阅一条消息的事件：先重放 sequence 大于 afterSequence 的缓存事件，再推送实时事件。
+   * 返回取消订阅函数；消息不在缓存中（已过期或在其他实例上执行）时返回 null。
+   */
+  attach(messageId: string, afterSequence: number, listener: AgentStreamListener): (() => void) | null {
+    const stream = this.streams.get(messageId);
+    if (!stream) return null;
+    for (const event of stream.events) {
+      if (event.sequence > afterSequence) listener.onEvent(event);
+    }
+    if (stream.finished) {
+      listener.onEnd();
+      return () => undefined;
+    }
+    if (stream.abandonTimer) clearTimeout(stream.abandonTimer);
+    stream.abandonTimer = undefined;
+    stream.listeners.add(listener);
+
+    return () => {
+      if (!stream.listeners.delete(listener) || stream.finished || stream.listeners.size > 0) return;
+      stream.abandonTimer = setTimeout(
+        () => stream.onAbandoned?.(),
+        this.options.abandonAfterMs ?? DEFAULT_ABANDON_AFTER_MS,
+      );
+      stream.abandonTimer.unref();
+    };
+  }
+}
@@ -1,15 +1,17 @@
 import type { FastifyReply } from "fastify";
 import type { OutgoingHttpHeaders } from "node:http";
-import { randomUUID } from "crypto";
+import type { AgentStreamEnvelope } from "./agent-event-buffer.js";
 
 export class SseWriter {
-  private sequence = 0;
   private heartbeat?: NodeJS.Timeout;
+  private readonly disconnect = new AbortController();
 
-  constructor(
-    private readonly reply: FastifyReply,
-    private readonly context: { sessionId: string; messageId?: string; traceId: string },
-  ) {}
+  constructor(private readonly reply: FastifyReply) {}
+
+  /** 客户端在流结束前断开时中止 */
+  get signal(): AbortSignal {
+    return this.disconnect.signal;
+  }
 
   open() {
     const headers = Object.fromEntries(
@@ -23,24 +25,18 @@ export class SseWriter {
       Connection: "keep-alive",
       "X-Accel-Buffering": "no",
     });
+    this.reply.raw.on("close", () => {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+      if (!this.reply.raw.writableFinished) this.disconnect.abort();
+    });
     this.heartbeat = setInterval(() => this.reply.raw.write(": heartbeat\n\n"), 15_000);
   }
 
-  write(event: { type: string; data: Record<string, unknown> }) {
-    if (event.type === "message.accepted" && typeof event.data.messageId === "string") {
-      this.context.messageId = event.data.messageId;
-    }
-    this.sequence += 1;
-    const envelope = {
-      eventId: randomUUID(),
-      sessionId: this.context.sessionId,
-      messageId: this.context.messageId ?? "pending",
-      traceId: this.context.traceId,
-      sequence: this.sequence,
-      timestamp: new Date().toISOString(),
-      data: event.data,
-    };
-    this.reply.raw.write(`event: ${event.type}\ndata: ${JSON.stringify(envelope)}\n\n`);
+  /** id 行写入 sequence，浏览器重连时通过 Last-Event-ID 带回 */
+  write(event: AgentStreamEnvelope) {
+    if (this.disconnect.signal.aborted) return;
+    const { type, ...envelope } = event;
+    this.reply.raw.write(`id: ${envelope.sequence}\nevent: ${type}\ndata: ${JSON.stringify(envelope)}\n\n`);
   }
 
   close() {
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import type { RetrievalProfile } from "../../search/retrieval/retrieval-profile.js";
+import type { SearchResult } from "../../search/retrieval/post-processor.js";
+import { extractQueryMetadata } from "../../search/retrieval/query-metadata.js";
+import { mergeSearchOutputs, type KnowledgeBaseSearchOutput } from "./knowledge-base-search.tool.js";
+
+const profile: RetrievalProfile = {
+  name: "precise",
+  rrfK: 60,
+  denseWeight: 1,
+  lexicalWeight: 0.8,
+  fetchMultiplier: 3,
+  threshold: 0.3,
+  efSearch: 100,
+  evidenceThreshold: 0.5,
+  bm25K1: 1.2,
+  bm25B: 0.75,
+};
+
+function result(chunkId: string, score = 0.9): SearchResult {
+  return { documentId: "doc", pageNumber: 1, snippet: chunkId, chunkId, rerankScore: score };
+}
+
+function output(query: string, results: SearchResult[], durationMs = 10): KnowledgeBaseSearchOutput {
+  return {
+    query,
+    round: 1,
+    filters: extractQueryMetadata(query),
+    results,
+    assessment: { decision: "answer", reason: "sufficient_evidence", topScore: 1, evidenceCount: results.length },
+    durationMs,
+  };
+}
+
+describe("mergeSearchOutputs", () => {
+  it("按名次轮流取各子查询的结果", () => {
+    const merged = mergeSearchOutputs(
+      "对比 A 与 B",
+      1,
+      [output("A", [result("a1"), result("a2"), result("a3")]), output("B", [result("b1")])],
+      profile,
+    );
+
+    expect(merged.results.map((hit) => hit.chunkId)).toEqual(["a1", "b1", "a2", "a3"]);
+  });
+
+  it("同一 chunk 只保留第一次出现", () => {
+    const merged = mergeSearchOutputs(
+      "q",
+      1,
+      [output("A", [result("shared"), result("a2")]), output("B", [result("b1"), result("shared")])],
+      profile,
+    );
+
+    expect(merged.results.map((hit) => hit.chunkId)).toEqual(["shared", "b1", "a2"]);
+  });
+
+  it("没有 chunkId 时按文档、页码与摘要去重", () => {
+    const page = { documentId: "doc", pageNumber: 2, snippet: "同一段落", rerankScore: 0.9 };
+    const merged = mergeSearchOutputs("q", 1, [output("A", [page]), output("B", [{ ...page }])], profile);
+
+    expect(merged.results).toHaveLength(1);
+  });
+
+  it("合并结果最多 12 条", () => {
+    const many = (prefix: string) => Array.from({ length: 8 }, (_, i) => result(`${prefix}${i}`));
+    const merged = mergeSearchOutputs("q", 1, [output("A", many("a")), output("B", many("b"))], profile);
+
+    expect(merged.results).toHaveLength(12);
+    expect(merged.results.slice(0, 4).map((hit) => hit.chunkId)).toEqual(["a0", "b0", "a1", "b1"]);
+  });
+
+  it("按检索档位的证据门槛重新评估，耗时取各子查询的最大值并保留子查询结果", () => {
+    const steps = [output("A", [result("a1", 0.9)], 30), output("B", [result("b1", 0.2)], 50)];
+    const merged = mergeSearchOutputs("对比 A 与 B", 2, steps, profile);
+
+    expect(merged.query).toBe("对比 A 与 B");
+    expect(merged.round).toBe(2);
+    expect(merged.assessment).toMatchObject({ decision: "narrow", evidenceCount: 1, topScore: 0.9 });
+    expect(merged.durationMs).toBe(50);
+    expect(merged.steps).toBe(steps);
+  });
+
+  it("所有子查询都没有结果时拒答", () => {
+    const merged = mergeSearchOutputs("q", 1, [output("A", []), output("B", [])], profile);
+
+    expect(merged.results).toEqual([]);
+    expect(merged.assessment.decision).toBe("refuse");
+  });
+});
@@ -2,11 +2,24 @@ import { assessEvidence, type EvidenceAssessment } from "../../search/retrieval/
 import { extractQueryMetadata, type QueryMetadataFilters } from "../../search/retrieval/query-metadata.js";
 import type { HybridSearchParams } from "../../search/retrieval/hybrid-search.service.js";
 import type { SearchResult } from "../../search/retrieval/post-processor.js";
+import type { DocumentScope } from "../../document/document-access.service.js";
+import type { SectionFilters } from "../../search/retrieval/section-filter.js";
+import type { RetrievalProfile } from "../../search/retrieval/retrieval-profile.js";
 
 export interface KnowledgeBaseSearchService {
   search(params: HybridSearchParams): Promise<SearchResult[]>;
 }
 
+export interface KnowledgeBaseTagSource {
+  list(workspaceId?: string): Promise<string[]>;
+}
+
+/** 会话固定的检索范围：文档与标签取并集，都为空时检索整个工作区 */
+export interface SessionSearchScope {
+  documentIds: string[];
+  tags: string[];
+}
+
 export type KnowledgeBaseSearchOutput = {
   query: string;
   round: 1 | 2;
@@ -14,27 +27,89 @@ export type KnowledgeBaseSearchOutput = {
   results: SearchResult[];
   assessment: EvidenceAssessment;
   durationMs: number;
+  /** 多步检索时各子查询的结果；results 为合并后的证据 */
+  steps?: KnowledgeBaseSearchOutput[];
 };
 
+/** 合并后保留的证据条数上限 */
+const MERGED_EVIDENCE_LIMIT = 12;
+
+/**
+ * 合并多个子查询的检索结果：按名次轮流取，保证每个子查询的前几条证据都能进入回答；
+ * 同一 chunk 只保留一次。
+ */
+export function mergeSearchOutputs(
+  query: string,
+  round: 1 | 2,
+  outputs: KnowledgeBaseSearchOutput[],
+  profile: RetrievalProfile,
+): KnowledgeBaseSearchOutput {
+  const seen = new Set<string>();
+  const results: SearchResult[] = [];
+  const depth = Math.max(0, ...outputs.map((output) => output.results.length));
+  for (let rank = 0; rank < depth && results.length < MERGED_EVIDENCE_LIMIT; rank += 1) {
+    for (const output of outputs) {
+      const result = output.results[rank];
+      if (!result) continue;
+      const key = result.chunkId ?? `${result.documentId}:${result.pageNumber}:${result.snippet}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      results.push(result);
+    }
+  }
+  return {
+    query,
+    round,
+    filters: extractQueryMetadata(query, []),
+    results: results.slice(0, MERGED_EVIDENCE_LIMIT),
+    assessment: assessEvidence(results, profile.evidenceThreshold),
+    durationMs: Math.max(0, ...outputs.map((output) => output.durationMs)),
+    steps: outputs,
+  };
+}
+
 export class KnowledgeBaseSearchTool {
-  constructor(private readonly searchService: KnowledgeBaseSearchService) {}
+  constructor(
+    private readonly searchService: KnowledgeBaseSearchService,
+    private readonly tagSource?: KnowledgeBaseTagSource,
+  ) {}
 
-  async execute(input: { query: string; round: 1 | 2 }): Promise<KnowledgeBaseSearchOutput> {
+  async execute(input: {
+    query: string;
+    round: 1 | 2;
+    scope?: DocumentScope;
+    sessionScope?: SessionSearchScope;
+    /** 请求显式指定的章节过滤（如界面限定当前打开的页），优先于问题中识别出的页码 / 章节 */
+    sections?: SectionFilters;
+    profile: RetrievalProfile;
+    signal?: AbortSignal;
+  }): Promise<KnowledgeBaseSearchOutput> {
     const startedAt = Date.now();
-    const filters = extractQueryMetadata(input.query);
+    const knownTags = await this.tagSource?.list(input.scope?.workspaceId).catch(() => []) ?? [];
+    const filters = extractQueryMetadata(input.query, knownTags);
     const results = await this.searchService.search({
+      workspaceId: input.scope?.workspaceId,
+      viewer: input.scope?.viewer,
+      documentIds: input.sessionScope?.documentIds,
+      scopeTags: input.sessionScope?.tags,
       query: filters.residualQuery || input.query,
       topK: 8,
       publishedYear: filters.publishedYear,
       fileTypes: filters.fileTypes,
       tags: filters.tags,
+      pageRange: input.sections?.pageRange ?? filters.pageRange ?? undefined,
+      sectionRange: input.sections?.sectionRange,
+      sectionPath: input.sections?.sectionPath,
+      chapter: input.sections?.chapter ?? filters.chapter ?? undefined,
+      profile: input.profile,
+      signal: input.signal,
     });
     return {
       query: input.query,
       round: input.round,
       filters,
       results,
-      assessment: assessEvidence(results),
+      assessment: assessEvidence(results, input.profile.evidenceThreshold),
       durationMs: Date.now() - startedAt,
     };
   }
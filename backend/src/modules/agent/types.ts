@@ -1,10 +1,83 @@
 import { z } from "zod";
+import { MAX_DOCUMENT_TAGS, MAX_TAG_LENGTH, normalizeTags } from "../document/types.js";
+import { retrievalProfileNameSchema, sectionFiltersSchema } from "../search/types.js";
+
+export const MAX_SESSION_DOCUMENTS = 50;
+
+const sessionDocumentIdsSchema = z
+  .array(z.string().uuid())
+  .max(MAX_SESSION_DOCUMENTS)
+  .transform((ids) => [...new Set(ids)]);
+
+const sessionTagsSchema = z
+  .array(z.string().max(MAX_TAG_LENGTH))
+  .transform(normalizeTags)
+  .pipe(z.array(z.string()).max(MAX_DOCUMENT_TAGS));
 
 export const createAgentSessionSchema = z.object({
+  /** 旧版单文档会话，等同于 documentIds: [documentId] */
   documentId: z.string().uuid().optional(),
+  documentIds: sessionDocumentIdsSchema.optional(),
+  tags: sessionTagsSchema.optional(),
   title: z.string().trim().min(1).max(200).optional(),
+  retrievalProfile: retrievalProfileNameSchema.optional(),
 });
 
-export const createAgentMessageSchema = z.object({
-  content: z.string().trim().min(1),
+/** PATCH /agent/sessions/:id：未提供的字段保持不变，传空数组表示取消限定 */
+export const updateAgentSessionSchema = z
+  .object({
+    documentIds: sessionDocumentIdsSchema.optional(),
+    tags: sessionTagsSchema.optional(),
+    title: z.string().trim().min(1).max(200).nullable().optional(),
+    /** null 表示恢复为配置的默认档位 */
+    retrievalProfile: retrievalProfileNameSchema.nullable().optional(),
+    /** 切换分支：以该消息为起点、沿最新的子消息走到末端作为当前分支 */
+    activeMessageId: z.string().uuid().optional(),
+  })
+  .strict();
+
+export type UpdateAgentSessionInput = z.infer<typeof updateAgentSessionSchema>;
+
+/**
+ * 发送消息的三种形式：
+ * - { content }：接在当前分支末端（或显式 parentId 之后）提问；
+ * - { content, editMessageId }：编辑一条用户消息并重新运行，新消息与原消息成为兄弟分支；
+ * - { regenerateMessageId }：对同一个问题重新生成回答，新回答与原回答成为兄弟分支。
+ * 三种形式都可附带 sections 限定本次检索的页码 / 章节、profile 指定本次的检索档位（优先于会话档位）；
+ * 重新生成时未指定则沿用原问题的设置。
+ */
+export const createAgentMessageSchema = z
+  .object({
+    content: z.string().trim().min(1).optional(),
+    parentId: z.string().uuid().nullable().optional(),
+    editMessageId: z.string().uuid().optional(),
+    regenerateMessageId: z.string().uuid().optional(),
+    sections: sectionFiltersSchema.optional(),
+    profile: retrievalProfileNameSchema.optional(),
+  })
+  .strict()
+  .superRefine((input, ctx) => {
+    if (input.regenerateMessageId) {
+      if (input.content !== undefined || input.parentId !== undefined || input.editMessageId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "regenerateMessageId 不能与其他字段同时使用" });
+      }
+      return;
+    }
+    if (input.content === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "content 不能为空", path: ["content"] });
+    }
+    if (input.editMessageId && input.parentId !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "editMessageId 与 parentId 不能同时使用" });
+    }
+  });
+
+export type CreateAgentMessageInput = z.infer<typeof createAgentMessageSchema>;
+
+/** GET /agent/sessions：按最近更新倒序分页，q 匹配标题与消息内容 */
+export const listAgentSessionsSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
 });
+
+export type ListAgentSessionsInput = z.infer<typeof listAgentSessionsSchema>;
@@ -0,0 +1,106 @@
+import type { FastifyRequest } from "fastify";
+import type { Prisma, PrismaClient } from "@prisma/client";
+import { ForbiddenError, NotFoundError } from "../../lib/errors.js";
+import type { AuthUser } from "../../server/plugins/auth.js";
+import type { DocumentAccessInput } from "./types.js";
+
+/** 文档访问主体：检索与文档接口按它过滤 */
+export type DocumentViewer = Pick<AuthUser, "id" | "roles" | "groups">;
+
+/** 请求可见的文档范围：当前工作区内、且通过文档 ACL 的文档 */
+export interface DocumentScope {
+  workspaceId: string;
+  viewer: DocumentViewer;
+}
+
+export function documentScopeOf(request: FastifyRequest): DocumentScope {
+  return { workspaceId: request.workspaceId, viewer: request.user };
+}
+
+function isAdmin(viewer: DocumentViewer) {
+  return viewer.roles.includes("admin");
+}
+
+/**
+ * 文档 ACL 过滤条件：admin 不受限；其他用户可见工作区公开的文档、
+ * 自己上传的文档，以及共享给自己所在用户组的文档。
+ */
+export function documentAccessWhere(viewer: DocumentViewer): Prisma.DocumentWhereInput {
+  if (isAdmin(viewer)) return {};
+  return {
+    OR: [
+      { visibility: "workspace" },
+      { ownerId: viewer.id },
+      ...(viewer.groups.length > 0 ? [{ visibility: "groups", aclGroups: { hasSome: viewer.groups } }] : []),
+    ],
+  };
+}
+
+/** 修改文档（元数据、可见范围、归档 / 删除 / 恢复）只允许上传者或 admin；仅可见不足以修改 */
+export function canManageDocument(viewer: DocumentViewer, document: { ownerId: string | null }): boolean {
+  return isAdmin(viewer) || document.ownerId === viewer.id;
+}
+
+export function assertCanManageDocument(
+  viewer: DocumentViewer,
+  document: { ownerId: string | null },
+  message = "只有上传者可以修改此文档",
+) {
+  if (!canManageDocument(viewer, document)) throw new ForbiddenError(message);
+}
+
+export function documentScopeWhere(scope: DocumentScope): Prisma.DocumentWhereInput {
+  return { workspaceId: scope.workspaceId, AND: [documentAccessWhere(scope.viewer)] };
+}
+
+/** 文档是否在范围内可见；不可见与不存在不作区分，避免泄露文档是否存在 */
+export async function canAccessDocument(
+  prisma: PrismaClient,
+  scope: DocumentScope,
+  documentId: string,
+): Promise<boolean> {
+  const document = await prisma.document.findFirst({
+    where: { id: documentId, ...documentScopeWhere(scope) },
+    select: { id: true },
+  });
+  return document !== null;
+}
+
+/** 显式指定的文档（会话固定文档、检索范围）必须都在当前请求可见的范围内，返回其中不可见的 id */
+export async function findInaccessibleDocumentIds(
+  prisma: PrismaClient,
+  scope: DocumentScope,
+  documentIds: string[],
+): Promise<string[]> {
+  if (documentIds.length === 0) return [];
+  const documents = await prisma.document.findMany({
+    where: { id: { in: documentIds }, ...documentScopeWhere(scope) },
+    select: { id: true },
+  });
+  const visible = new Set(documents.map((document) => document.id));
+  return documentIds.filter((id) => !visible.has(id));
+}
+
+const accessSelect = { id: true, ownerId: true, visibility: true, aclGroups: true } as const;
+
+/** 修改文档可见范围：只有上传者或 admin 可以操作 */
+export class DocumentAccessService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async update(scope: DocumentScope, documentId: string, input: DocumentAccessInput) {
+    const document = await this.prisma.document.findFirst({
+      where: { id: documentId, ...documentScopeWhere(scope) },
+      select: { ownerId: true },
+    });
+    if (!document) throw new NotFoundError("document", documentId);
+    assertCanManageDocument(scope.viewer, document, "只有上传者可以修改文档的可见范围");
+    return this.prisma.document.update({
+      where: { id: documentId },
+      data: {
+        visibility: input.visibility,
+        aclGroups: input.visibility === "groups" ? input.aclGroups : [],
+      },
+      select: accessSelect,
+    });
+  }
+}
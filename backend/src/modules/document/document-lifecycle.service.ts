@@ -0,0 +1,123 @@
+import { promises as fs } from "fs";
+import type { PrismaClient } from "@prisma/client";
+import type { IngestionPipeline } from "../../pipeline/ingestionPipeline.js";
+import { AppError, NotFoundError } from "../../lib/errors.js";
+import { logger } from "../../lib/logger.js";
+import { loadUploadIndex, saveUploadIndex, withIndexLock } from "../upload/upload.service.js";
+import { assertCanManageDocument, documentScopeWhere, type DocumentScope } from "./document-access.service.js";
+
+/** 入库过程中写在源文件旁的派生文件 */
+const SIDECAR_SUFFIXES = [".layout.json", ".docx.html", ".parsed.json"];
+
+/** 入库任务处于这些阶段时没有 worker 在写入（queued 还需尚未被认领），可以安全删除 */
+const SETTLED_JOB_STAGES = ["queued", "completed", "failed"];
+
+const lifecycleSelect = {
+  id: true,
+  fileName: true,
+  status: true,
+  archivedAt: true,
+  deletedAt: true,
+} as const;
+
+/**
+ * 文档生命周期：归档 / 软删除 / 恢复 / 彻底删除。
+ *
+ * 归档与软删除只打标记，检索（resolveDocumentIds）与文档列表会跳过它们；
+ * 彻底删除清理数据库行（级联 Section / Chunk / 向量 / 引用 / 入库任务）、
+ * upload-index 条目、源文件及其派生文件，并移除内存中的入库任务。
+ * 所有操作限定在请求可见的文档范围内（工作区 + 文档 ACL），范围外的文档视为不存在；
+ * 可见但不是上传者（且非 admin）时拒绝操作。
+ */
+export class DocumentLifecycleService {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly pipeline?: Pick<IngestionPipeline, "forgetTask">,
+  ) {}
+
+  async archive(scope: DocumentScope, documentId: string) {
+    return this.mark(scope, documentId, { archivedAt: new Date() });
+  }
+
+  async softDelete(scope: DocumentScope, documentId: string) {
+    return this.mark(scope, documentId, { deletedAt: new Date() });
+  }
+
+  async restore(scope: DocumentScope, documentId: string) {
+    return this.mark(scope, documentId, { archivedAt: null, deletedAt: null });
+  }
+
+  async purge(scope: DocumentScope, documentId: string): Promise<{ id: string; removedFiles: string[] }> {
+    const document = await this.prisma.document.findFirst({
+      where: { id: documentId, ...documentScopeWhere(scope) },
+      select: {
+        id: true,
+        ownerId: true,
+        contentHash: true,
+        ingestionJob: { select: { stage: true, sourcePath: true, startedAt: true } },
+      },
+    });
+    if (!document) throw new NotFoundError("document", documentId);
+    assertCanManageDocument(scope.viewer, document, "只有上传者可以删除此文档");
+    const job = document.ingestionJob;
+    const claimed = job?.stage === "queued" && job.startedAt !== null;
+    if (job && (claimed || !SETTLED_JOB_STAGES.includes(job.stage))) {
+      // 入库进行中删除会与 writeDatabase 竞争，等任务结束后再删
+      throw new AppError("文档正在处理中，请在处理结束后再删除", 409, "DOCUMENT_PROCESSING");
+    }
+
+    const sourcePaths = new Set<string>(job?.sourcePath ? [job.sourcePath] : []);
+    await withIndexLock(async () => {
+      const index = await loadUploadIndex();
+      let changed = false;
+      for (const [hash, entry] of Object.entries(index)) {
+        if (entry.documentId !== documentId) continue;
+        sourcePaths.add(entry.sourcePath);
+        delete index[hash];
+        changed = true;
+      }
+      if (changed) await saveUploadIndex(index);
+    });
+
+    // 会话只解除关联（外键 ON DELETE SET NULL），其余派生数据随 Document 级联删除。
+    // 固定文档列表保留该 id，检索时自然过滤掉；若移除，最后一个固定文档被删后会话会扩大到整个工作区检索
+    await this.prisma.document.delete({ where: { id: documentId } });
+    this.pipeline?.forgetTask(documentId);
+
+    const removedFiles: string[] = [];
+    // 源文件按内容哈希存储，其他工作区仍引用同一份文件时保留
+    const shared = await this.prisma.document.count({ where: { contentHash: document.contentHash } });
+    if (shared > 0) return { id: documentId, removedFiles };
+    for (const sourcePath of sourcePaths) {
+      for (const filePath of [sourcePath, ...SIDECAR_SUFFIXES.map((suffix) => sourcePath + suffix)]) {
+        try {
+          await fs.unlink(filePath);
+          removedFiles.push(filePath);
+        } catch (err) {
+          if ((err as NodeJS.ErrnoException).code !== "ENOENT") {
+            logger.error({ err, documentId, filePath }, "failed to remove document file");
+          }
+        }
+      }
+    }
+    return { id: documentId, removedFiles };
+  }
+
+  private async mark(
+    scope: DocumentScope,
+    documentId: string,
+    data: { archivedAt?: Date | null; deletedAt?: Date | null },
+  ) {
+    const existing = await this.prisma.document.findFirst({
+      where: { id: documentId, ...documentScopeWhere(scope) },
+      select: { id: true, ownerId: true },
+    });
+    if (!existing) throw new NotFoundError("document", documentId);
+    assertCanManageDocument(scope.viewer, existing);
+    return this.prisma.document.update({
+      where: { id: documentId },
+      data,
+      select: lifecycleSelect,
+    });
+  }
+}
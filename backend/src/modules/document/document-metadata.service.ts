@@ -0,0 +1,48 @@
+import type { PrismaClient } from "@prisma/client";
+import { NotFoundError } from "../../lib/errors.js";
+import type { DocumentMetadataInput, ManualMetadataField } from "./types.js";
+import { assertCanManageDocument, documentScopeWhere, type DocumentScope } from "./document-access.service.js";
+
+export const documentMetadataSelect = {
+  id: true,
+  fileName: true,
+  sourceLabel: true,
+  publishedAt: true,
+  tags: true,
+  manualMetadata: true,
+  updatedAt: true,
+} as const;
+
+/**
+ * 人工维护文档元数据（标签 / 来源 / 发布时间）。
+ *
+ * 编辑过的字段记入 manualMetadata，入库写库阶段只补全未被人工设置的字段，
+ * 因此上传时填写或事后修改的值在重新处理后依然保留。只有上传者或 admin 可以编辑。
+ */
+export class DocumentMetadataService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async update(scope: DocumentScope, documentId: string, input: DocumentMetadataInput) {
+    const existing = await this.prisma.document.findFirst({
+      where: { id: documentId, ...documentScopeWhere(scope) },
+      select: { id: true, ownerId: true, manualMetadata: true },
+    });
+    if (!existing) throw new NotFoundError("document", documentId);
+    assertCanManageDocument(scope.viewer, existing, "只有上传者可以编辑文档元数据");
+
+    const fields = (Object.keys(input) as ManualMetadataField[]).filter((field) => input[field] !== undefined);
+    if (fields.length === 0) {
+      return this.prisma.document.findUniqueOrThrow({ where: { id: documentId }, select: documentMetadataSelect });
+    }
+    return this.prisma.document.update({
+      where: { id: documentId },
+      data: {
+        ...(input.tags !== undefined ? { tags: input.tags } : {}),
+        ...(input.sourceLabel !== undefined ? { sourceLabel: input.sourceLabel } : {}),
+        ...(input.publishedAt !== undefined ? { publishedAt: input.publishedAt } : {}),
+        manualMetadata: [...new Set([...existing.manualMetadata, ...fields])],
+      },
+      select: documentMetadataSelect,
+    });
+  }
+}
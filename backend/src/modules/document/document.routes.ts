@@ -8,20 +8,79 @@ import {
 import { loadUploadIndex } from "../upload/upload.service.js";
 import { analyzePdfLayout } from "../../pdf/layoutAnalyzer.js";
 import { writeFile } from "fs/promises";
+import { DocumentLifecycleService } from "./document-lifecycle.service.js";
+import { DocumentMetadataService } from "./document-metadata.service.js";
+import { documentAccessSchema, documentMetadataSchema } from "./types.js";
+import {
+  canAccessDocument,
+  documentScopeOf,
+  documentScopeWhere,
+  DocumentAccessService,
+} from "./document-access.service.js";
+import type { WorkspaceService } from "../workspace/workspace.service.js";
+import { workspaceScope } from "../../server/plugins/workspace.js";
 
 interface DocumentPluginOptions {
   prisma: PrismaClient;
   pipeline?: any;
+  workspaces: WorkspaceService;
 }
 
 export const documentRoutes: FastifyPluginAsync<DocumentPluginOptions> = async (
   app,
   opts,
 ) => {
+  const lifecycle = new DocumentLifecycleService(opts.prisma, opts.pipeline);
+  const metadataService = new DocumentMetadataService(opts.prisma);
+  const accessService = new DocumentAccessService(opts.prisma);
+  const documentParamsSchema = z.object({ id: z.string().uuid() });
+
+  app.addHook("preHandler", workspaceScope(opts.workspaces));
+
+  // ---- PATCH /documents/:id（编辑标签 / 来源 / 发布时间）----
+  app.patch("/documents/:id", async (request, reply) => {
+    const params = documentParamsSchema.parse(request.params);
+    const body = documentMetadataSchema.parse(request.body ?? {});
+    reply.send(await metadataService.update(documentScopeOf(request), params.id, body));
+  });
+
+  // ---- PUT /documents/:id/access（可见范围：workspace / private / groups）----
+  app.put("/documents/:id/access", async (request, reply) => {
+    const params = documentParamsSchema.parse(request.params);
+    const body = documentAccessSchema.parse(request.body ?? {});
+    reply.send(await accessService.update(documentScopeOf(request), params.id, body));
+  });
+
+  // ---- DELETE /documents/:id ----
+  // 默认软删除（可通过 restore 恢复）；?purge=true 彻底删除数据库记录与磁盘文件
+  app.delete("/documents/:id", async (request, reply) => {
+    const params = documentParamsSchema.parse(request.params);
+    const query = z
+      .object({ purge: z.enum(["true", "false"]).default("false") })
+      .parse(request.query ?? {});
+    if (query.purge === "true") {
+      reply.send(await lifecycle.purge(documentScopeOf(request), params.id));
+      return;
+    }
+    reply.send(await lifecycle.softDelete(documentScopeOf(request), params.id));
+  });
+
+  // ---- POST /documents/:id/archive ----
+  app.post("/documents/:id/archive", async (request, reply) => {
+    const params = documentParamsSchema.parse(request.params);
+    reply.send(await lifecycle.archive(documentScopeOf(request), params.id));
+  });
+
+  // ---- POST /documents/:id/restore（取消归档 / 软删除）----
+  app.post("/documents/:id/restore", async (request, reply) => {
+    const params = documentParamsSchema.parse(request.params);
+    reply.send(await lifecycle.restore(documentScopeOf(request), params.id));
+  });
+
   app.get("/documents/:id/source", async (request, reply) => {
     const params = z.object({ id: z.string().uuid() }).parse(request.params);
-    const document = await opts.prisma.document.findUnique({
-      where: { id: params.id },
+    const document = await opts.prisma.document.findFirst({
+      where: { id: params.id, ...documentScopeWhere(documentScopeOf(request)) },
       select: { id: true, fileName: true, fileType: true, status: true },
     });
     if (!document) {
@@ -35,6 +94,10 @@ export const documentRoutes: FastifyPluginAsync<DocumentPluginOptions> = async (
   app.get("/documents/:id/sections", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
+    if (!(await canAccessDocument(opts.prisma, documentScopeOf(request), params.id))) {
+      reply.code(404).send({ error: "document_not_found" });
+      return;
+    }
     const sections = await opts.prisma.documentSection.findMany({
       where: { documentId: params.id },
       orderBy: { index: "asc" },
@@ -46,6 +109,10 @@ export const documentRoutes: FastifyPluginAsync<DocumentPluginOptions> = async (
   app.get("/documents/:id/regions", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
+    if (!(await canAccessDocument(opts.prisma, documentScopeOf(request), params.id))) {
+      reply.code(404).send({ error: "document_not_found" });
+      return;
+    }
 
     const task = opts.pipeline?.getTask(params.id);
     console.log("[regions] documentId:", params.id, "task in memory:", !!task);
@@ -179,6 +246,10 @@ export const documentRoutes: FastifyPluginAsync<DocumentPluginOptions> = async (
   app.get("/documents/:id/html", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
+    if (!(await canAccessDocument(opts.prisma, documentScopeOf(request), params.id))) {
+      reply.code(404).send({ error: "html_not_found" });
+      return;
+    }
 
     // 1️⃣ 优先从内存 task.meta 获取（pipeline 运行期间）
     const task = opts.pipeline?.getTask(params.id);
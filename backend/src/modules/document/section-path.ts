@@ -0,0 +1,49 @@
+import type { PrismaClient } from "@prisma/client";
+import { logger } from "../../lib/logger.js";
+
+/** 标题在路径中保留的最大长度，与 DocumentSection.title 一致 */
+const MAX_HEADING_LENGTH = 120;
+
+/**
+ * 按文档顺序计算每个章节的标题路径：维护标题栈，遇到标题时弹出所有不低于其层级的标题再入栈。
+ * 标题章节的路径包含自身，正文章节的路径为当前栈。
+ */
+export function buildSectionPaths(items: { headingLevel: number | null; text: string }[]): string[][] {
+  const stack: { level: number; title: string }[] = [];
+  return items.map((item) => {
+    if (item.headingLevel !== null) {
+      while (stack.length > 0 && stack[stack.length - 1].level >= item.headingLevel) stack.pop();
+      stack.push({ level: item.headingLevel, title: item.text.trim().slice(0, MAX_HEADING_LENGTH) });
+    }
+    return stack.map((heading) => heading.title);
+  });
+}
+
+/**
+ * 为引入 sectionPath 之前入库的文档补建标题路径，启动时在后台执行。
+ * 入库时过短被跳过的标题已不在库中，补建的路径只包含保留下来的标题。
+ */
+export async function backfillSectionPaths(prisma: PrismaClient): Promise<number> {
+  const pending = await prisma.documentSection.findMany({
+    where: { headingLevel: { not: null }, sectionPath: { isEmpty: true } },
+    distinct: ["documentId"],
+    select: { documentId: true },
+  });
+  for (const { documentId } of pending) {
+    const sections = await prisma.documentSection.findMany({
+      where: { documentId },
+      orderBy: { index: "asc" },
+      select: { id: true, headingLevel: true, content: true },
+    });
+    const paths = buildSectionPaths(sections.map((section) => ({ headingLevel: section.headingLevel, text: section.content })));
+    await prisma.$transaction(
+      sections.flatMap((section, index) =>
+        paths[index].length > 0
+          ? [prisma.documentSection.update({ where: { id: section.id }, data: { sectionPath: paths[index] } })]
+          : [],
+      ),
+    );
+  }
+  if (pending.length > 0) logger.info({ documents: pending.length }, "[sections] 标题路径补建完成");
+  return pending.length;
+}
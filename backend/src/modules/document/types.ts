@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+export const MAX_DOCUMENT_TAGS = 32;
+export const MAX_TAG_LENGTH = 50;
+
+/** 标签规范化：去首尾空白、合并连续空白、按不区分大小写去重，保留首次出现的写法 */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const normalized: string[] = [];
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/\s+/g, " ");
+    if (!tag) continue;
+    const key = tag.toLowerCase();
+    if (seen.has(key)) continue;
+    seen.add(key);
+    normalized.push(tag);
+  }
+  return normalized;
+}
+
+/**
+ * 可人工编辑的文档元数据（PATCH /documents/:id 与 /upload/init 共用）。
+ * 未提供的字段保持不变；sourceLabel / publishedAt 传 null 表示清空。
+ */
+export const documentMetadataSchema = z
+  .object({
+    tags: z
+      .array(z.string().max(MAX_TAG_LENGTH))
+      .transform(normalizeTags)
+      .pipe(z.array(z.string()).max(MAX_DOCUMENT_TAGS))
+      .optional(),
+    sourceLabel: z
+      .string()
+      .trim()
+      .max(200)
+      .nullable()
+      .transform((value) => value || null)
+      .optional(),
+    // 接受 "2024-05-01" 或完整 ISO 时间
+    publishedAt: z
+      .string()
+      .refine((value) => !Number.isNaN(Date.parse(value)), "invalid_date")
+      .transform((value) => new Date(value))
+      .nullable()
+      .optional(),
+  })
+  .strict();
+
+export type DocumentMetadataInput = z.infer<typeof documentMetadataSchema>;
+
+/** 上传元数据里保存的是解析前的 JSON 形式，应用时再经 schema 解析 */
+export type DocumentMetadataJson = z.input<typeof documentMetadataSchema>;
+
+export type ManualMetadataField = keyof DocumentMetadataInput;
+
+/** 转回可 JSON 持久化的形式（上传元数据文件中保存） */
+export function toDocumentMetadataJson(input: DocumentMetadataInput): DocumentMetadataJson {
+  const { publishedAt, ...rest } = input;
+  return {
+    ...rest,
+    ...(publishedAt !== undefined ? { publishedAt: publishedAt?.toISOString() ?? null } : {}),
+  };
+}
+
+export const DOCUMENT_VISIBILITIES = ["workspace", "private", "groups"] as const;
+export type DocumentVisibility = (typeof DOCUMENT_VISIBILITIES)[number];
+
+/** PUT /documents/:id/access：visibility=groups 时至少指定一个用户组 */
+export const documentAccessSchema = z
+  .object({
+    visibility: z.enum(DOCUMENT_VISIBILITIES),
+    aclGroups: z.array(z.string().trim().min(1).max(100)).max(32).default([]),
+  })
+  .strict()
+  .refine((input) => input.visibility !== "groups" || input.aclGroups.length > 0, {
+    message: "visibility=groups 时需要指定 aclGroups",
+    path: ["aclGroups"],
+  });
+
+export type DocumentAccessInput = z.infer<typeof documentAccessSchema>;
@@ -0,0 +1,38 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import { requireRoles } from "../../server/plugins/auth.js";
+import type { ReindexService } from "./reindex.service.js";
+import { reindexScopeSchema } from "./types.js";
+
+interface ReindexRoutesOptions {
+  reindexService: ReindexService;
+}
+
+const jobParamsSchema = z.object({ id: z.string().uuid() });
+
+export const reindexRoutes: FastifyPluginAsync<ReindexRoutesOptions> = async (app, opts) => {
+  app.addHook("preHandler", requireRoles("admin"));
+
+  // ---- POST /admin/reindex ----
+  // body: { documentId } | { tag } | { all: true }；后台执行，返回任务供轮询或订阅进度
+  app.post("/admin/reindex", async (request, reply) => {
+    const scope = reindexScopeSchema.parse(request.body ?? {});
+    const job = await opts.reindexService.createJob(scope);
+    if (!job) {
+      reply.code(404).send({ error: "no_ready_documents_in_scope" });
+      return;
+    }
+    reply.code(202).send(job);
+  });
+
+  // ---- GET /admin/reindex/:id ----
+  app.get("/admin/reindex/:id", async (request, reply) => {
+    const params = jobParamsSchema.parse(request.params);
+    const job = await opts.reindexService.getJob(params.id);
+    if (!job) {
+      reply.code(404).send({ error: "reindex_job_not_found" });
+      return;
+    }
+    reply.send(job);
+  });
+};
@@ -0,0 +1,283 @@
+import { promises as fs } from "fs";
+import type { Prisma, PrismaClient, ReindexJob } from "@prisma/client";
+import { config } from "../../config/env.js";
+import { logger } from "../../lib/logger.js";
+import { ConcurrencyLimiter } from "../../lib/concurrencyLimiter.js";
+import type { EmbeddingProvider } from "../../embedding/types.js";
+import { createEmbeddingProvider } from "../../embedding/createEmbeddingProvider.js";
+import type { DocumentBlockKind, ParsedDocument } from "../../document-parsing/types.js";
+import { ChunkEmbeddingWriter } from "../../pipeline/chunkEmbeddingWriter.js";
+import type { ProgressEmitter } from "../../pipeline/progressEmitter.js";
+import { ChunkingService } from "../search/chunking/chunking.service.js";
+import { documentLexicalStats } from "../search/lexical/lexical-terms.js";
+import { loadUploadIndex } from "../upload/upload.service.js";
+import type { ReindexJobStatus, ReindexProgressEvent, ReindexScope } from "./types.js";
+
+/**
+ * 重建索引（换向量模型 / 调整分块参数后使用）。
+ *
+ * 从已落库的 DocumentSection 重新分块并生成向量，写入 indexVersion + 1 的新版本；
+ * 全部完成后在事务内切换 Document.indexVersion 并删除旧版本，
+ * 切换前检索始终使用旧版本。单个文档失败只记录在任务上，不影响文档本身的状态。
+ */
+export class ReindexService {
+  private running = false;
+  private wakeRequested = false;
+  private readonly networkLimiter: ConcurrencyLimiter;
+  private readonly embeddingWriter: ChunkEmbeddingWriter;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly progressEmitter: ProgressEmitter,
+    embeddingProvider: EmbeddingProvider = createEmbeddingProvider(),
+  ) {
+    this.networkLimiter = new ConcurrencyLimiter(config.ingestion.networkConcurrency);
+    this.embeddingWriter = new ChunkEmbeddingWriter(prisma, embeddingProvider, this.networkLimiter);
+  }
+
+  /**
+   * 解析范围内的就绪文档并入队；范围内没有文档时返回 null。
+   * 按标签 / 全量重建时跳过已归档文档（检索不读取它们）；显式指定的单个文档即使已归档也重建，供恢复前刷新索引
+   */
+  async createJob(scope: ReindexScope): Promise<ReindexJob | null> {
+    const documents = await this.prisma.document.findMany({
+      where: {
+        status: "ready",
+        deletedAt: null,
+        ...("documentId" in scope ? { id: scope.documentId } : { archivedAt: null }),
+        ...("tag" in scope ? { tags: { has: scope.tag } } : {}),
+      },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    if (documents.length === 0) return null;
+
+    const job = await this.prisma.reindexJob.create({
+      data: {
+        scope: scope as Prisma.InputJsonValue,
+        documentIds: documents.map((document) => document.id),
+      },
+    });
+    this.emitProgress(job);
+    this.wake();
+    return job;
+  }
+
+  async getJob(id: string): Promise<ReindexJob | null> {
+    return this.prisma.reindexJob.findUnique({ where: { id } });
+  }
+
+  /** 启动时把中断的任务重新入队，已完成的文档会被跳过 */
+  async resumeInterrupted() {
+    const { count } = await this.prisma.reindexJob.updateMany({
+      where: { status: "running" },
+      data: { status: "queued", startedAt: null },
+    });
+    if (count > 0) logger.info({ requeued: count }, "reindex resume");
+    this.wake();
+  }
+
+  private wake() {
+    this.wakeRequested = true;
+    void this.runNext();
+  }
+
+  private async runNext() {
+    if (this.running) return;
+    this.running = true;
+    try {
+      for (;;) {
+        this.wakeRequested = false;
+        const job = await this.claimNext();
+        if (!job) {
+          if (this.wakeRequested) continue;
+          break;
+        }
+        await this.runJob(job);
+      }
+    } catch (err) {
+      logger.error({ err }, "reindex queue polling failed");
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async claimNext(): Promise<ReindexJob | null> {
+    for (;;) {
+      const candidate = await this.prisma.reindexJob.findFirst({
+        where: { status: "queued" },
+        orderBy: { createdAt: "asc" },
+      });
+      if (!candidate) return null;
+      const startedAt = new Date();
+      const claimed = await this.prisma.reindexJob.updateMany({
+        where: { id: candidate.id, status: "queued" },
+        data: { status: "running", startedAt },
+      });
+      if (claimed.count === 1) return { ...candidate, status: "running", startedAt };
+    }
+  }
+
+  private async runJob(job: ReindexJob) {
+    const done = new Set([...job.completedIds, ...job.failedIds]);
+    let current = job;
+    try {
+      for (const documentId of job.documentIds) {
+        if (done.has(documentId)) continue;
+        let succeeded = true;
+        try {
+          await this.reindexDocument(documentId, (completed, total) =>
+            this.emitProgress(current, {
+              documentId,
+              documentProgress: Math.round((completed / total) * 100),
+            }),
+          );
+        } catch (err) {
+          succeeded = false;
+          logger.warn({ err, jobId: job.id, documentId }, "reindex document failed");
+        }
+        current = await this.prisma.reindexJob.update({
+          where: { id: job.id },
+          data: succeeded
+            ? { completedIds: { push: documentId } }
+            : { failedIds: { push: documentId } },
+        });
+        this.emitProgress(current, { documentId, documentProgress: 100 });
+      }
+      current = await this.finishJob(job.id, current.failedIds.length === 0 ? "completed" : "failed", null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      current = await this.finishJob(job.id, "failed", message);
+    }
+    this.emitProgress(current);
+  }
+
+  private async finishJob(id: string, status: ReindexJobStatus, error: string | null) {
+    return this.prisma.reindexJob.update({
+      where: { id },
+      data: {
+        status,
+        error: error ?? (status === "failed" ? "some documents failed to reindex" : null),
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * 重建单个文档：写入新版本 → 原子切换 → 删除旧版本。
+   * 失败时清理未生效的新版本，旧索引保持可用。
+   */
+  async reindexDocument(
+    documentId: string,
+    onProgress?: (completed: number, total: number) => void,
+  ): Promise<void> {
+    const document = await this.prisma.document.findUnique({
+      where: { id: documentId },
+      select: { id: true, status: true, indexVersion: true },
+    });
+    if (!document || document.status !== "ready") {
+      throw new Error(`reindex_document_not_ready: ${documentId}`);
+    }
+    const sections = await this.prisma.documentSection.findMany({
+      where: { documentId },
+      orderBy: { index: "asc" },
+    });
+    if (sections.length === 0) {
+      throw new Error(`reindex_no_sections: ${documentId}`);
+    }
+
+    const previousVersion = document.indexVersion;
+    const nextVersion = previousVersion + 1;
+    // 上次中断遗留的未生效版本
+    await this.deleteVersion(documentId, { equals: nextVersion });
+
+    try {
+      const blockKinds = await this.loadBlockKinds(documentId);
+      const chunkingService = new ChunkingService(this.prisma);
+      const { chunks } = await chunkingService.chunkDocument(
+        documentId,
+        sections.map((section) => {
+          const kind = blockKinds.get(section.index) ?? (section.headingLevel ? "heading" : undefined);
+          return {
+            id: section.id,
+            pageNumber: section.pageNumber,
+            content: section.content,
+            title: section.title,
+            blocks: kind ? [{ kind, text: section.content }] : undefined,
+          };
+        }),
+        {
+          skipContextualRetrieval: sections.length > 40,
+          networkLimiter: this.networkLimiter,
+          indexVersion: nextVersion,
+        },
+      );
+      if (chunks.length === 0) throw new Error("document_has_no_chunks");
+      await this.embeddingWriter.write(documentId, chunks, onProgress);
+
+      await this.prisma.$transaction(async (tx) => {
+        const swapped = await tx.document.updateMany({
+          where: { id: documentId, indexVersion: previousVersion },
+          data: { indexVersion: nextVersion, ...(await documentLexicalStats(tx, documentId, nextVersion)) },
+        });
+        if (swapped.count !== 1) throw new Error(`reindex_conflict: ${documentId}`);
+        // ChunkEmbedding 随 Chunk 级联删除
+        await tx.chunkContext.deleteMany({ where: { documentId, indexVersion: { not: nextVersion } } });
+        await tx.chunk.deleteMany({ where: { documentId, indexVersion: { not: nextVersion } } });
+      });
+    } catch (err) {
+      await this.deleteVersion(documentId, { equals: nextVersion }).catch((cleanupError) =>
+        logger.error({ err: cleanupError, documentId }, "failed to clean up unfinished index version"),
+      );
+      throw err;
+    }
+  }
+
+  private async deleteVersion(documentId: string, indexVersion: Prisma.IntFilter) {
+    await this.prisma.$transaction([
+      this.prisma.chunkContext.deleteMany({ where: { documentId, indexVersion } }),
+      this.prisma.chunk.deleteMany({ where: { documentId, indexVersion } }),
+    ]);
+  }
+
+  /**
+   * 从源文件旁的 `.parsed.json` 恢复各段落的块类型（表格、列表等影响结构化分块）。
+   * 下标规则与入库时创建 DocumentSection 一致；找不到时返回空表。
+   */
+  private async loadBlockKinds(documentId: string): Promise<Map<number, DocumentBlockKind>> {
+    const kinds = new Map<number, DocumentBlockKind>();
+    const sourcePath = await this.findSourcePath(documentId);
+    if (!sourcePath) return kinds;
+    try {
+      const raw = await fs.readFile(sourcePath + ".parsed.json", "utf8");
+      const parsed = (JSON.parse(raw) as { parsedDocument?: ParsedDocument }).parsedDocument;
+      parsed?.blocks.forEach((block, index) => {
+        kinds.set(block.locator.paragraphIndex ?? block.locator.blockIndex ?? index, block.kind);
+      });
+    } catch {
+      // 旧文档没有提取结果，退化为按段落分块
+    }
+    return kinds;
+  }
+
+  private async findSourcePath(documentId: string): Promise<string | null> {
+    const job = await this.prisma.ingestionJob.findUnique({
+      where: { id: documentId },
+      select: { sourcePath: true },
+    });
+    if (job?.sourcePath) return job.sourcePath;
+    const index = await loadUploadIndex();
+    return Object.values(index).find((entry) => entry.documentId === documentId)?.sourcePath ?? null;
+  }
+
+  private emitProgress(job: ReindexJob, extra: Partial<ReindexProgressEvent> = {}) {
+    this.progressEmitter.emitReindex({
+      jobId: job.id,
+      status: job.status as ReindexJobStatus,
+      total: job.documentIds.length,
+      completed: job.completedIds.length,
+      failed: job.failedIds.length,
+      ...extra,
+    });
+  }
+}
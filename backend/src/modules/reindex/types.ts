@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+/** 重建范围：单个文档、某个标签下的全部文档，或全库（三选一） */
+export const reindexScopeSchema = z.union([
+  z.object({ documentId: z.string().uuid() }).strict(),
+  z.object({ tag: z.string().trim().min(1).max(100) }).strict(),
+  z.object({ all: z.literal(true) }).strict(),
+]);
+
+export type ReindexScope = z.infer<typeof reindexScopeSchema>;
+
+export type ReindexJobStatus = "queued" | "running" | "completed" | "failed";
+
+export interface ReindexProgressEvent {
+  jobId: string;
+  status: ReindexJobStatus;
+  total: number;
+  completed: number;
+  failed: number;
+  /** 当前处理中的文档及其向量生成进度 */
+  documentId?: string;
+  documentProgress?: number;
+  message?: string;
+}
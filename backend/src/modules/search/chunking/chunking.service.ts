@@ -12,6 +12,7 @@ import type { PrismaClient } from "@prisma/client";
 import OpenAI from "openai";
 import { config } from "../../../config/env.js";
 import { logger } from "../../../lib/logger.js";
+import { ConcurrencyLimiter } from "../../../lib/concurrencyLimiter.js";
 import {
   buildStructuralChunks,
   mapParentChildIndexes,
@@ -19,6 +20,7 @@ import {
 } from "./structural-chunking.js";
 import type { DocumentBlockKind } from "../../../document-parsing/types.js";
 import type { ChunkResult } from "./strategies/recursive-chunker.js";
+import { lexicalTermsData } from "../lexical/lexical-terms.js";
 
 export interface ChunkRecord {
   id: string;
@@ -86,9 +88,14 @@ export class ChunkingService {
       skipContextualRetrieval?: boolean;
       chunkSize?: number;
       chunkOverlap?: number;
+      /** 上下文前缀 LLM 调用共享的并发限制（由摄取管线传入，与向量调用共用网络配额） */
+      networkLimiter?: ConcurrencyLimiter;
+      /** 写入的索引版本；重建索引时写入新版本，切换前不参与检索 */
+      indexVersion?: number;
     },
   ): Promise<{ chunks: ChunkRecord[]; contexts: ChunkContextRecord[] }> {
     const chunkSize = options?.chunkSize ?? config.chunking.chunkSize;
+    const indexVersion = options?.indexVersion ?? 1;
     const chunkOverlap = options?.chunkOverlap ?? config.chunking.chunkOverlap;
 
     // Step 1: 递归分块（逐页）
@@ -113,7 +120,11 @@ export class ChunkingService {
     const skipContext = options?.skipContextualRetrieval ?? false;
     const contextPrefixes = skipContext
       ? allChunks.map(() => null)
-      : await this.generateContextPrefixes(documentId, allChunks);
+      : await this.generateContextPrefixes(
+          documentId,
+          allChunks,
+          options?.networkLimiter ?? new ConcurrencyLimiter(1),
+        );
 
     // Step 3: 构建 Parent Context 窗口
     const parentContexts = this.buildParentContexts(allChunks, sections, chunkSize);
@@ -137,6 +148,8 @@ export class ChunkingService {
           startOffset: c.startOffset,
           endOffset: c.endOffset,
           contextPrefix: prefix,
+          indexVersion,
+          ...lexicalTermsData(fullContent),
         },
       });
       chunkRecords.push({
@@ -173,6 +186,7 @@ export class ChunkingService {
           childChunkIds: contextChunkMapping[i],
           startOffset: pc.startOffset,
           endOffset: pc.endOffset,
+          indexVersion,
         },
       });
       contextRecords.push({
@@ -195,18 +209,19 @@ export class ChunkingService {
 
   /**
    * Contextual Retrieval: 用 LLM 为每个 chunk 生成文档上下文。
-   * 生产环境可能需要对大量 chunk 做批处理/限流。
+   * 采样 chunk 的请求并发发出，并发数由 limiter 控制。
    */
   private async generateContextPrefixes(
     documentId: string,
     chunks: (ChunkResult & { sectionId: string; pageNumber?: number | null })[],
+    limiter: ConcurrencyLimiter,
   ): Promise<(string | null)[]> {
     // 只对前 N 个独立 chunk 生成上下文（避免一次性调用过多）
     // 实际场景：抽取代表性 chunk 生成上下文，相同页面/章节的 chunk 共享
     const sampledChunks = this.sampleChunksForContext(chunks, 20);
     const sampledResults = new Map<number, string>();
 
-    for (const { index, chunk } of sampledChunks) {
+    await Promise.all(sampledChunks.map(({ index, chunk }) => limiter.run(async () => {
       try {
         const response = await this.openai.chat.completions.create({
           model: config.chat.model,
@@ -224,7 +239,7 @@ export class ChunkingService {
       } catch (err) {
         logger.warn({ err, chunkIndex: index }, "上下文生成失败，跳过该 chunk");
       }
-    }
+    })));
 
     return propagateSectionContexts(chunks, sampledResults);
   }
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import { Bm25Index, type Bm25IndexedChunk } from "./bm25-index.js";
+
+const params = { k1: 1.2, b: 0.75 };
+
+function chunk(id: string, terms: Record<string, number>, length = Object.values(terms).reduce((a, b) => a + b, 0)): Bm25IndexedChunk {
+  return { id, terms, length };
+}
+
+describe("Bm25Index.search", () => {
+  it("按标准 BM25 计算得分", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [chunk("c1", { 预算: 1 }), chunk("c2", { 报告: 1 })]);
+
+    // N = 2、df = 1、长度等于平均长度：idf = ln(1 + 1.5 / 1.5)，tf 项为 1
+    const [hit] = index.search(["预算"], { documentIds: ["doc"], limit: 10, ...params });
+    expect(hit.chunkId).toBe("c1");
+    expect(hit.score).toBeCloseTo(Math.log(2), 10);
+  });
+
+  it("文档频率越低的词 idf 越高", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [
+      chunk("common-1", { 常见: 1, 填充: 1 }),
+      chunk("common-2", { 常见: 1, 填充: 1 }),
+      chunk("common-3", { 常见: 1, 填充: 1 }),
+      chunk("rare", { 罕见: 1, 填充: 1 }),
+    ]);
+
+    const hits = index.search(["常见", "罕见"], { documentIds: ["doc"], limit: 10, ...params });
+    expect(hits[0].chunkId).toBe("rare");
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it("词频相同时较短的 Chunk 得分更高；b = 0 时不做长度归一化", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [
+      chunk("short", { 预算: 1 }, 2),
+      chunk("long", { 预算: 1 }, 20),
+      chunk("other", { 其他: 1 }, 5),
+    ]);
+
+    const normalized = index.search(["预算"], { documentIds: ["doc"], limit: 10, ...params });
+    expect(normalized.map((hit) => hit.chunkId)).toEqual(["short", "long"]);
+    expect(normalized[0].score).toBeGreaterThan(normalized[1].score);
+
+    const flat = index.search(["预算"], { documentIds: ["doc"], limit: 10, k1: 1.2, b: 0 });
+    expect(flat[0].score).toBeCloseTo(flat[1].score, 10);
+  });
+
+  it("只统计 documentIds 内、已建索引的文档", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("a", 1, [chunk("a1", { 预算: 1 })]);
+    index.replaceDocument("b", 1, [chunk("b1", { 预算: 1 })]);
+
+    const hits = index.search(["预算"], { documentIds: ["a", "missing"], limit: 10, ...params });
+    expect(hits.map((hit) => hit.chunkId)).toEqual(["a1"]);
+    expect(index.search(["预算"], { documentIds: ["missing"], limit: 10, ...params })).toEqual([]);
+  });
+
+  it("指定 chunkIds 时只在其中检索，N 与平均长度也只在其中统计", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [
+      chunk("c1", { 预算: 1 }),
+      chunk("c2", { 预算: 1 }),
+      chunk("c3", { 报告: 1 }),
+      chunk("c4", { 报告: 1 }),
+    ]);
+
+    const hits = index.search(["预算"], { documentIds: ["doc"], limit: 10, chunkIds: new Set(["c1", "c3"]), ...params });
+    expect(hits.map((hit) => hit.chunkId)).toEqual(["c1"]);
+    // 范围内 N = 2、df = 1，与未过滤时（N = 4、df = 2）的 idf 相同
+    expect(hits[0].score).toBeCloseTo(Math.log(2), 10);
+
+    const scoped = index.search(["预算"], { documentIds: ["doc"], limit: 10, chunkIds: new Set(["c1", "c2"]), ...params });
+    // 范围内每个 Chunk 都包含该词：idf = ln(1 + 0.5 / 2.5)
+    expect(scoped[0].score).toBeCloseTo(Math.log(1.2), 10);
+  });
+
+  it("按得分降序截取前 limit 个", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [
+      chunk("c1", { 预算: 1, 其他: 3 }),
+      chunk("c2", { 预算: 3, 其他: 1 }),
+      chunk("c3", { 预算: 2, 其他: 2 }),
+    ]);
+
+    const hits = index.search(["预算"], { documentIds: ["doc"], limit: 2, ...params });
+    expect(hits.map((hit) => hit.chunkId)).toEqual(["c2", "c3"]);
+  });
+});
+
+describe("Bm25Index 文档维护", () => {
+  it("replaceDocument 替换旧 Chunk，removeDocument 清理倒排", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("doc", 1, [chunk("old", { 旧词: 1 })]);
+    index.replaceDocument("doc", 2, [chunk("new", { 新词: 1 })]);
+
+    expect(index.stampOf("doc")).toBe(2);
+    expect(index.search(["旧词"], { documentIds: ["doc"], limit: 10, ...params })).toEqual([]);
+    expect(index.search(["新词"], { documentIds: ["doc"], limit: 10, ...params }).map((hit) => hit.chunkId)).toEqual(["new"]);
+
+    index.removeDocument("doc");
+    expect(index.size).toBe(0);
+    expect(index.stampOf("doc")).toBeUndefined();
+    expect(index.search(["新词"], { documentIds: ["doc"], limit: 10, ...params })).toEqual([]);
+  });
+});
+
+describe("Bm25Index 快照", () => {
+  it("快照恢复后文档、标记与检索结果不变", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("a", 3, [chunk("a1", { 预算: 2, 报告: 1 }), chunk("a2", { 报告: 1 })]);
+    index.replaceDocument("b", null, [chunk("b1", { 预算: 1 }, 4)]);
+
+    const restored = Bm25Index.fromSnapshot(JSON.parse(JSON.stringify(index.toSnapshot())));
+    expect(restored.documentIds().sort()).toEqual(["a", "b"]);
+    expect(restored.stampOf("a")).toBe(3);
+    expect(restored.stampOf("b")).toBeNull();
+
+    const query = { documentIds: ["a", "b"], limit: 10, ...params };
+    expect(restored.search(["预算", "报告"], query)).toEqual(index.search(["预算", "报告"], query));
+  });
+
+  it("格式版本不符时返回空索引", () => {
+    const index = new Bm25Index();
+    index.replaceDocument("a", 1, [chunk("a1", { 预算: 1 })]);
+    const snapshot = { ...index.toSnapshot(), version: 0 };
+
+    expect(Bm25Index.fromSnapshot(snapshot).size).toBe(0);
+  });
+});
@@ -0,0 +1,154 @@
+import type { LexicalTerms } from "./lexical-terms.js";
+
+/** 快照格式版本，结构变化时递增，旧快照直接丢弃重建 */
+const SNAPSHOT_VERSION = 1;
+
+/** BM25 参数：k1 控制词频饱和，b 控制长度归一化强度；取自检索档位 */
+export interface Bm25Parameters {
+  k1: number;
+  b: number;
+}
+
+export interface Bm25IndexedChunk extends LexicalTerms {
+  id: string;
+}
+
+export interface Bm25Snapshot {
+  version: number;
+  documents: {
+    id: string;
+    /** 构建时文档的索引版本；null 表示文档尚未就绪，每次检索都重新加载 */
+    stamp: number | null;
+    chunks: Bm25IndexedChunk[];
+  }[];
+}
+
+type IndexedDocument = {
+  stamp: number | null;
+  chunks: Bm25IndexedChunk[];
+  totalLength: number;
+};
+
+/**
+ * 进程内 BM25 倒排索引，按文档整体替换 / 删除。
+ * N、df 与平均长度都只在检索范围（documentIds）内统计，与 Postgres 实现的打分一致。
+ */
+export class Bm25Index {
+  private readonly documents = new Map<string, IndexedDocument>();
+  /** 词 → (chunkId → 词频) */
+  private readonly postings = new Map<string, Map<string, number>>();
+  private readonly chunkDocuments = new Map<string, { documentId: string; length: number }>();
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  documentIds(): string[] {
+    return [...this.documents.keys()];
+  }
+
+  stampOf(documentId: string): number | null | undefined {
+    return this.documents.get(documentId)?.stamp;
+  }
+
+  replaceDocument(documentId: string, stamp: number | null, chunks: Bm25IndexedChunk[]) {
+    this.removeDocument(documentId);
+    let totalLength = 0;
+    for (const chunk of chunks) {
+      this.chunkDocuments.set(chunk.id, { documentId, length: chunk.length });
+      totalLength += chunk.length;
+      for (const [term, tf] of Object.entries(chunk.terms)) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        posting.set(chunk.id, tf);
+      }
+    }
+    this.documents.set(documentId, { stamp, chunks, totalLength });
+  }
+
+  removeDocument(documentId: string) {
+    const document = this.documents.get(documentId);
+    if (!document) return;
+    for (const chunk of document.chunks) {
+      this.chunkDocuments.delete(chunk.id);
+      for (const term of Object.keys(chunk.terms)) {
+        const posting = this.postings.get(term);
+        posting?.delete(chunk.id);
+        if (posting?.size === 0) this.postings.delete(term);
+      }
+    }
+    this.documents.delete(documentId);
+  }
+
+  /**
+   * 按 BM25 得分降序返回前 limit 个 Chunk；未建索引的文档不参与统计。
+   * 指定 chunkIds 时只在其中检索与统计（章节过滤后的范围）。
+   */
+  search(
+    terms: string[],
+    { documentIds, limit, chunkIds, k1, b }: {
+      documentIds: string[];
+      limit: number;
+      chunkIds?: ReadonlySet<string>;
+    } & Bm25Parameters,
+  ): { chunkId: string; score: number }[] {
+    const scope = new Set(documentIds.filter((id) => this.documents.has(id)));
+    let n = 0;
+    let totalLength = 0;
+    for (const id of scope) {
+      const document = this.documents.get(id)!;
+      if (!chunkIds) {
+        n += document.chunks.length;
+        totalLength += document.totalLength;
+        continue;
+      }
+      for (const chunk of document.chunks) {
+        if (!chunkIds.has(chunk.id)) continue;
+        n += 1;
+        totalLength += chunk.length;
+      }
+    }
+    if (n === 0) return [];
+    const avgdl = Math.max(totalLength / n, 1);
+
+    const scores = new Map<string, number>();
+    for (const term of new Set(terms)) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+      const matches: [string, number, number][] = [];
+      for (const [chunkId, tf] of posting) {
+        const chunk = this.chunkDocuments.get(chunkId)!;
+        if (scope.has(chunk.documentId) && (!chunkIds || chunkIds.has(chunkId))) matches.push([chunkId, tf, chunk.length]);
+      }
+      if (matches.length === 0) continue;
+      const idf = Math.log(1 + (n - matches.length + 0.5) / (matches.length + 0.5));
+      for (const [chunkId, tf, length] of matches) {
+        const weight = (idf * tf * (k1 + 1)) / (tf + k1 * (1 - b + (b * length) / avgdl));
+        scores.set(chunkId, (scores.get(chunkId) ?? 0) + weight);
+      }
+    }
+
+    return [...scores]
+      .map(([chunkId, score]) => ({ chunkId, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  toSnapshot(): Bm25Snapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      documents: [...this.documents].map(([id, document]) => ({ id, stamp: document.stamp, chunks: document.chunks })),
+    };
+  }
+
+  /** 从快照恢复；格式版本不符时返回空索引 */
+  static fromSnapshot(snapshot: Bm25Snapshot): Bm25Index {
+    const index = new Bm25Index();
+    if (snapshot.version !== SNAPSHOT_VERSION) return index;
+    for (const document of snapshot.documents) index.replaceDocument(document.id, document.stamp, document.chunks);
+    return index;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { queryTerms, tokenize } from "./cjk-tokenizer.js";
+
+describe("tokenize", () => {
+  it("CJK 连续字符切成 bigram，索引时另加单字", () => {
+    expect(tokenize("知识库", "index")).toEqual(["知识", "识库", "知", "识", "库"]);
+    expect(tokenize("知识库", "query")).toEqual(["知识", "识库"]);
+  });
+
+  it("单个 CJK 字符原样成词", () => {
+    expect(tokenize("库", "index")).toEqual(["库"]);
+    expect(tokenize("库", "query")).toEqual(["库"]);
+  });
+
+  it("日文假名与韩文同样按 CJK 切分", () => {
+    expect(tokenize("カタカナ", "query")).toEqual(["カタ", "タカ", "カナ"]);
+    expect(tokenize("한국어", "query")).toEqual(["한국", "국어"]);
+  });
+
+  it("混合文本中字母数字按连续片段成词，标点与空白丢弃", () => {
+    expect(tokenize("GPT-4模型，Hello world!", "query")).toEqual(["gpt", "4", "模型", "hello", "world"]);
+  });
+
+  it("NFKC 归一化全角字符并转小写", () => {
+    expect(tokenize("ＡＢＣ１２３", "query")).toEqual(["abc123"]);
+  });
+
+  it("丢弃超过 32 个字符的字母数字串", () => {
+    const limit = "a".repeat(32);
+    expect(tokenize(`${limit} ${"b".repeat(33)} 报告`, "query")).toEqual([limit, "报告"]);
+  });
+});
+
+describe("queryTerms", () => {
+  it("去重", () => {
+    expect(queryTerms("预算 预算 budget Budget")).toEqual(["预算", "budget"]);
+  });
+
+  it("最多保留 32 个查询词", () => {
+    const query = Array.from({ length: 40 }, (_, i) => `term${i}`).join(" ");
+    const terms = queryTerms(query);
+    expect(terms).toHaveLength(32);
+    expect(terms[0]).toBe("term0");
+    expect(terms.at(-1)).toBe("term31");
+  });
+
+  it("只有标点时没有查询词", () => {
+    expect(queryTerms("？！，。")).toEqual([]);
+  });
+});
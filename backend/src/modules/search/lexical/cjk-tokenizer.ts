@@ -0,0 +1,36 @@
+/**
+ * 面向中日韩文本的词法切分：CJK 连续字符切成相邻二字（bigram），索引时另加单字以便单字查询命中；
+ * 其余字母 / 数字按连续片段成词。统一 NFKC 归一化并转小写，标点与空白丢弃。
+ */
+const CJK_RANGES = "\\u3040-\\u30ff\\u3400-\\u4dbf\\u4e00-\\u9fff\\uac00-\\ud7af\\uf900-\\ufaff";
+const TOKEN_PATTERN = new RegExp(`[${CJK_RANGES}]+|(?:(?![${CJK_RANGES}])[\\p{L}\\p{N}])+`, "gu");
+const CJK_RUN = new RegExp(`^[${CJK_RANGES}]`, "u");
+/** 超长的字母数字串（哈希、base64 等）不参与检索 */
+const MAX_TERM_LENGTH = 32;
+/** 查询词上限，避免超长问题生成过多检索条件 */
+const MAX_QUERY_TERMS = 32;
+
+export type TokenizeMode = "index" | "query";
+
+export function tokenize(text: string, mode: TokenizeMode = "index"): string[] {
+  const tokens: string[] = [];
+  for (const [run] of text.normalize("NFKC").toLowerCase().matchAll(TOKEN_PATTERN)) {
+    if (!CJK_RUN.test(run)) {
+      if (run.length <= MAX_TERM_LENGTH) tokens.push(run);
+      continue;
+    }
+    const chars = [...run];
+    if (chars.length === 1) {
+      tokens.push(run);
+      continue;
+    }
+    for (let i = 0; i < chars.length - 1; i += 1) tokens.push(chars[i] + chars[i + 1]);
+    if (mode === "index") tokens.push(...chars);
+  }
+  return tokens;
+}
+
+/** 查询词：去重并限制数量 */
+export function queryTerms(query: string): string[] {
+  return [...new Set(tokenize(query, "query"))].slice(0, MAX_QUERY_TERMS);
+}
@@ -0,0 +1,16 @@
+import type { PrismaClient } from "@prisma/client";
+import { config } from "../../../config/env.js";
+import type { LexicalRetriever } from "./lexical-retriever.js";
+import { PostgresLexicalRetriever } from "./postgres-lexical-retriever.js";
+import { InMemoryLexicalRetriever } from "./memory-lexical-retriever.js";
+
+/** 按 LEXICAL_RETRIEVER 创建关键词检索实现 */
+export function createLexicalRetriever(prisma: PrismaClient): LexicalRetriever {
+  const lexicalConfig = config.lexical;
+  switch (lexicalConfig.retriever) {
+    case "memory":
+      return new InMemoryLexicalRetriever(prisma, lexicalConfig.snapshotPath);
+    case "postgres":
+      return new PostgresLexicalRetriever(prisma);
+  }
+}
@@ -0,0 +1,22 @@
+import type { SearchResult } from "../retrieval/post-processor.js";
+import type { SectionFilters } from "../retrieval/section-filter.js";
+import type { Bm25Parameters } from "./bm25-index.js";
+
+export interface LexicalSearchParams {
+  query: string;
+  /** 已按工作区 / ACL / 元数据过滤后的检索范围 */
+  documentIds: string[];
+  limit: number;
+  /** 章节级过滤；BM25 的 N / df / 平均长度也只在过滤后的范围内统计 */
+  sections?: SectionFilters;
+  bm25: Bm25Parameters;
+  signal?: AbortSignal;
+}
+
+/**
+ * 关键词检索（BM25）。结果的 source 为 "bm25"，similarity 为相对本次最高分的比例（0-1），
+ * 与向量相似度量纲一致，供 RRF 融合与阈值过滤使用。
+ */
+export interface LexicalRetriever {
+  search(params: LexicalSearchParams): Promise<SearchResult[]>;
+}
@@ -0,0 +1,76 @@
+import type { PrismaClient } from "@prisma/client";
+import { Prisma } from "@prisma/client";
+import { logger } from "../../../lib/logger.js";
+import { tokenize } from "./cjk-tokenizer.js";
+
+/** 写入 Chunk.lexicalTerms / lexicalLength 的词频统计，BM25 的 tf 与文档长度来源 */
+export interface LexicalTerms {
+  terms: Record<string, number>;
+  length: number;
+}
+
+export function buildLexicalTerms(content: string): LexicalTerms {
+  const terms: Record<string, number> = {};
+  const tokens = tokenize(content, "index");
+  for (const token of tokens) terms[token] = (terms[token] ?? 0) + 1;
+  return { terms, length: tokens.length };
+}
+
+/** 创建 / 更新 Chunk 时写入的词法索引字段 */
+export function lexicalTermsData(content: string) {
+  const { terms, length } = buildLexicalTerms(content);
+  return { lexicalTerms: terms as Prisma.InputJsonValue, lexicalLength: length };
+}
+
+/**
+ * 文档某个索引版本的词法统计，写入 Document.chunkCount / totalLexicalLength。
+ * 入库完成、重建索引切换版本、补建词法索引后都要刷新，BM25 按文档汇总 N 与平均长度。
+ */
+export async function documentLexicalStats(
+  client: Prisma.TransactionClient,
+  documentId: string,
+  indexVersion: number,
+): Promise<{ chunkCount: number; totalLexicalLength: number }> {
+  const stats = await client.chunk.aggregate({
+    where: { documentId, indexVersion, lexicalLength: { not: null } },
+    _count: { _all: true },
+    _sum: { lexicalLength: true },
+  });
+  return { chunkCount: stats._count._all, totalLexicalLength: stats._sum.lexicalLength ?? 0 };
+}
+
+const BACKFILL_BATCH_SIZE = 200;
+
+/**
+ * 为没有词法索引的 Chunk（引入词法索引之前入库的数据）补建 lexicalTerms，启动时在后台执行，
+ * 完成后刷新涉及文档的词法统计。补建完成前这些 Chunk 只能通过向量检索命中。
+ */
+export async function backfillLexicalTerms(prisma: PrismaClient): Promise<number> {
+  let total = 0;
+  const documentIds = new Set<string>();
+  for (;;) {
+    const chunks = await prisma.chunk.findMany({
+      where: { lexicalTerms: { equals: Prisma.DbNull } },
+      select: { id: true, documentId: true, content: true },
+      take: BACKFILL_BATCH_SIZE,
+    });
+    if (chunks.length === 0) break;
+    await prisma.$transaction(
+      chunks.map((chunk) => prisma.chunk.update({ where: { id: chunk.id }, data: lexicalTermsData(chunk.content) })),
+    );
+    for (const chunk of chunks) documentIds.add(chunk.documentId);
+    total += chunks.length;
+  }
+  for (const documentId of documentIds) {
+    await prisma.$transaction(async (tx) => {
+      const document = await tx.document.findUnique({ where: { id: documentId }, select: { indexVersion: true } });
+      if (!document) return;
+      await tx.document.update({
+        where: { id: documentId },
+        data: await documentLexicalStats(tx, documentId, document.indexVersion),
+      });
+    });
+  }
+  if (total > 0) logger.info({ total }, "[lexical] 词法索引补建完成");
+  return total;
+}
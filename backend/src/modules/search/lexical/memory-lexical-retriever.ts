@@ -0,0 +1,165 @@
+import { promises as fs } from "fs";
+import { dirname } from "path";
+import { randomUUID } from "crypto";
+import type { PrismaClient } from "@prisma/client";
+import { logger } from "../../../lib/logger.js";
+import { queryTerms } from "./cjk-tokenizer.js";
+import { buildLexicalTerms } from "./lexical-terms.js";
+import { Bm25Index, type Bm25Snapshot } from "./bm25-index.js";
+import type { LexicalRetriever, LexicalSearchParams } from "./lexical-retriever.js";
+import type { SearchResult } from "../retrieval/post-processor.js";
+import { hasSectionFilters, sectionFilterSql, type SectionFilters } from "../retrieval/section-filter.js";
+
+/** 索引变化后延迟写快照，合并短时间内的多次更新 */
+const SNAPSHOT_DEBOUNCE_MS = 5_000;
+
+/**
+ * 进程内 BM25 检索：不依赖 Chunk.lexicalTerms 与 Postgres 扩展，直接由 Chunk 原文切词建索引。
+ *
+ * 启动后首次检索时加载磁盘快照并清理已删除的文档；之后每次检索前按文档的 indexVersion
+ * 增量同步检索范围内的文档（新入库、重建索引后重新加载），变化后延迟写回快照。
+ * 打分只在进程内完成，章节过滤、命中 Chunk 的原文与页码仍从数据库读取。
+ */
+export class InMemoryLexicalRetriever implements LexicalRetriever {
+  private index: Bm25Index | null = null;
+  /** 串行化加载与同步，避免并发检索重复读取同一文档 */
+  private queue: Promise<unknown> = Promise.resolve();
+  private snapshotTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly snapshotPath: string,
+  ) {}
+
+  async search({ query, documentIds, limit, sections, bm25, signal }: LexicalSearchParams): Promise<SearchResult[]> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+
+    try {
+      const index = await this.exclusive(async () => {
+        const loaded = this.index ?? (this.index = await this.load());
+        await this.sync(loaded, documentIds);
+        return loaded;
+      });
+      signal?.throwIfAborted();
+
+      const chunkIds = hasSectionFilters(sections) ? await this.filteredChunkIds(documentIds, sections!) : undefined;
+      const hits = index.search(terms, { documentIds, limit, chunkIds, ...bm25 });
+      if (hits.length === 0) return [];
+      const chunks = await this.prisma.chunk.findMany({
+        where: { id: { in: hits.map((hit) => hit.chunkId) } },
+        select: { id: true, content: true, documentId: true, section: { select: { pageNumber: true, index: true } } },
+      });
+      const byId = new Map(chunks.map((chunk) => [chunk.id, chunk]));
+      const topScore = hits[0].score;
+      return hits.flatMap((hit) => {
+        const chunk = byId.get(hit.chunkId);
+        if (!chunk) return [];
+        return [{
+          documentId: chunk.documentId,
+          pageNumber: chunk.section.pageNumber ?? chunk.section.index,
+          snippet: chunk.content.slice(0, 500),
+          fullContent: chunk.content,
+          chunkId: chunk.id,
+          similarity: topScore > 0 ? hit.score / topScore : 0,
+          source: "bm25" as const,
+        }];
+      });
+    } catch (err) {
+      signal?.throwIfAborted();
+      logger.warn({ err }, "BM25 检索降级");
+      return [];
+    }
+  }
+
+  /** 章节过滤由数据库解析，索引只负责打分 */
+  private async filteredChunkIds(documentIds: string[], sections: SectionFilters): Promise<Set<string>> {
+    const rows = await this.prisma.$queryRaw<{ id: string }[]>`
+      SELECT c.id
+      FROM "Chunk" c
+      JOIN "Document" d ON d.id = c."documentId" AND d."indexVersion" = c."indexVersion"
+      JOIN "DocumentSection" ds ON ds.id = c."sectionId"
+      WHERE c."documentId" = ANY(${documentIds}::text[])
+        ${sectionFilterSql(sections)}
+    `;
+    return new Set(rows.map((row) => row.id));
+  }
+
+  private exclusive<T>(run: () => Promise<T>): Promise<T> {
+    const next = this.queue.then(run);
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  /** 读取快照并删除数据库中已不存在的文档；快照缺失或损坏时从空索引开始 */
+  private async load(): Promise<Bm25Index> {
+    let index = new Bm25Index();
+    try {
+      index = Bm25Index.fromSnapshot(JSON.parse(await fs.readFile(this.snapshotPath, "utf8")) as Bm25Snapshot);
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== "ENOENT") logger.warn({ err, path: this.snapshotPath }, "[lexical] 快照读取失败，重新建索引");
+    }
+    if (index.size === 0) return index;
+
+    const existing = await this.prisma.document.findMany({
+      where: { id: { in: index.documentIds() }, deletedAt: null },
+      select: { id: true },
+    });
+    const alive = new Set(existing.map((document) => document.id));
+    const removed = index.documentIds().filter((id) => !alive.has(id));
+    for (const id of removed) index.removeDocument(id);
+    if (removed.length > 0) this.scheduleSnapshot();
+    logger.info({ documents: index.size, removed: removed.length }, "[lexical] 已加载 BM25 快照");
+    return index;
+  }
+
+  /**
+   * 重新加载检索范围内索引版本变化的文档。已就绪文档以 indexVersion 作为缓存标记；
+   * 未就绪（仍在入库）的文档 Chunk 可能还在增加，每次都重新加载。
+   */
+  private async sync(index: Bm25Index, documentIds: string[]) {
+    const documents = await this.prisma.document.findMany({
+      where: { id: { in: documentIds } },
+      select: { id: true, status: true, indexVersion: true },
+    });
+    const stale = documents
+      .map((document) => ({ ...document, stamp: document.status === "ready" ? document.indexVersion : null }))
+      .filter((document) => document.stamp === null || index.stampOf(document.id) !== document.stamp);
+    if (stale.length === 0) return;
+
+    const chunks = await this.prisma.chunk.findMany({
+      where: { OR: stale.map((document) => ({ documentId: document.id, indexVersion: document.indexVersion })) },
+      select: { id: true, documentId: true, content: true },
+    });
+    for (const document of stale) {
+      index.replaceDocument(
+        document.id,
+        document.stamp,
+        chunks
+          .filter((chunk) => chunk.documentId === document.id)
+          .map((chunk) => ({ id: chunk.id, ...buildLexicalTerms(chunk.content) })),
+      );
+    }
+    if (stale.some((document) => document.stamp !== null)) this.scheduleSnapshot();
+  }
+
+  private scheduleSnapshot() {
+    if (this.snapshotTimer) return;
+    this.snapshotTimer = setTimeout(() => {
+      this.snapshotTimer = undefined;
+      this.exclusive(() => this.writeSnapshot()).catch((err) =>
+        logger.warn({ err, path: this.snapshotPath }, "[lexical] 快照写入失败"),
+      );
+    }, SNAPSHOT_DEBOUNCE_MS);
+    this.snapshotTimer.unref();
+  }
+
+  /** 先写临时文件再替换，进程中途退出时不会留下半个快照 */
+  private async writeSnapshot() {
+    if (!this.index) return;
+    await fs.mkdir(dirname(this.snapshotPath), { recursive: true });
+    const tmpPath = `${this.snapshotPath}.tmp-${randomUUID()}`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.index.toSnapshot()), "utf8");
+    await fs.rename(tmpPath, this.snapshotPath);
+  }
+}
@@ -0,0 +1,104 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { logger } from "../../../lib/logger.js";
+import { queryTerms } from "./cjk-tokenizer.js";
+import type { LexicalRetriever, LexicalSearchParams } from "./lexical-retriever.js";
+import type { SearchResult } from "../retrieval/post-processor.js";
+import { hasSectionFilters, sectionFilterSql } from "../retrieval/section-filter.js";
+
+/**
+ * 基于入库时预切分的 Chunk.lexicalTerms（词 → 词频）的 BM25 检索。
+ *
+ * 候选召回走 lexicalTerms 上的 GIN 索引（?| 任一查询词），
+ * 打分为标准 BM25：idf = ln(1 + (N - df + 0.5) / (df + 0.5))，
+ * tf 项按 lexicalLength 相对检索范围内平均长度归一化。N / df / 平均长度都在检索范围（文档 + 章节过滤）内统计：
+ * 没有章节过滤时 N 与平均长度直接汇总 Document.chunkCount / totalLexicalLength，不扫描 Chunk；
+ * 有章节过滤时范围通常很小，才按 Chunk 统计。documentId 列不做类型转换，以便走 btree 索引。
+ */
+export class PostgresLexicalRetriever implements LexicalRetriever {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  async search({ query, documentIds, limit, sections, bm25 }: LexicalSearchParams): Promise<SearchResult[]> {
+    const terms = queryTerms(query);
+    if (terms.length === 0) return [];
+    const sectionFilter = sectionFilterSql(sections);
+    const corpus = hasSectionFilters(sections)
+      ? Prisma.sql`
+          SELECT count(*)::float8 AS n, GREATEST(COALESCE(avg(c."lexicalLength"), 0), 1)::float8 AS avgdl
+          FROM "Chunk" c
+          JOIN "Document" d ON d.id = c."documentId" AND d."indexVersion" = c."indexVersion"
+          JOIN "DocumentSection" ds ON ds.id = c."sectionId"
+          WHERE c."documentId" = ANY(${documentIds}::text[])
+            AND c."lexicalLength" IS NOT NULL
+            ${sectionFilter}`
+      : Prisma.sql`
+          SELECT
+            COALESCE(sum(d."chunkCount"), 0)::float8 AS n,
+            GREATEST(COALESCE(sum(d."totalLexicalLength")::float8 / NULLIF(sum(d."chunkCount"), 0), 0), 1)::float8 AS avgdl
+          FROM "Document" d
+          WHERE d.id = ANY(${documentIds}::text[])`;
+
+    try {
+      const rows = await this.prisma.$queryRaw<
+        { chunkId: string; content: string; documentId: string; pageNumber: number; score: number }[]
+      >`
+        WITH corpus AS (${corpus}),
+        candidates AS (
+          SELECT c.id, c."lexicalTerms", c."lexicalLength"
+          FROM "Chunk" c
+          JOIN "Document" d ON d.id = c."documentId" AND d."indexVersion" = c."indexVersion"
+          JOIN "DocumentSection" ds ON ds.id = c."sectionId"
+          WHERE c."documentId" = ANY(${documentIds}::text[])
+            AND c."lexicalTerms" ?| ${terms}::text[]
+            ${sectionFilter}
+        ),
+        -- 候选集即范围内包含任一查询词的全部 Chunk，因此在其中统计的 df 就是范围内的文档频率
+        df AS (
+          SELECT t.term, count(*)::float8 AS df
+          FROM unnest(${terms}::text[]) AS t(term)
+          JOIN candidates s ON s."lexicalTerms" ? t.term
+          GROUP BY t.term
+        ),
+        scored AS (
+          SELECT
+            s.id,
+            sum(
+              ln(1 + (corpus.n - df.df + 0.5) / (df.df + 0.5))
+              * tf.value * (${bm25.k1}::float8 + 1)
+              / (tf.value + ${bm25.k1}::float8 * (1 - ${bm25.b}::float8 + ${bm25.b}::float8 * COALESCE(s."lexicalLength", 0) / corpus.avgdl))
+            ) AS score
+          FROM candidates s
+          CROSS JOIN corpus
+          JOIN df ON s."lexicalTerms" ? df.term
+          CROSS JOIN LATERAL (SELECT (s."lexicalTerms" ->> df.term)::float8 AS value) tf
+          GROUP BY s.id
+          ORDER BY score DESC
+          LIMIT ${limit}
+        )
+        SELECT
+          c.id as "chunkId",
+          c.content as "content",
+          c."documentId" as "documentId",
+          COALESCE(ds."pageNumber", ds.index)::int as "pageNumber",
+          scored.score::float8 as "score"
+        FROM scored
+        JOIN "Chunk" c ON c.id = scored.id
+        JOIN "DocumentSection" ds ON ds.id = c."sectionId"
+        ORDER BY scored.score DESC;
+      `;
+
+      const topScore = rows[0]?.score ?? 0;
+      return rows.map((r) => ({
+        documentId: r.documentId,
+        pageNumber: r.pageNumber,
+        snippet: r.content.slice(0, 500),
+        fullContent: r.content,
+        chunkId: r.chunkId,
+        similarity: topScore > 0 ? r.score / topScore : 0,
+        source: "bm25" as const,
+      }));
+    } catch (err) {
+      logger.warn({ err }, "BM25 检索降级");
+      return [];
+    }
+  }
+}
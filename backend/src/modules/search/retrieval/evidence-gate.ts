@@ -13,10 +13,11 @@ function getEvidenceScore(result: SearchResult): number {
   return result.rerankScore ?? result.rrfScore ?? result.similarity ?? 0;
 }
 
-export function assessEvidence(results: SearchResult[]): EvidenceAssessment {
+/** threshold 为检索档位的证据门槛：达到该分数的结果才算支撑证据 */
+export function assessEvidence(results: SearchResult[], threshold: number): EvidenceAssessment {
   const sorted = [...results].sort((a, b) => getEvidenceScore(b) - getEvidenceScore(a));
   const topScore = sorted[0] ? getEvidenceScore(sorted[0]) : 0;
-  const supporting = sorted.filter((result) => getEvidenceScore(result) >= 0.35);
+  const supporting = sorted.filter((result) => getEvidenceScore(result) >= threshold);
 
   if (supporting.length === 0) {
     return {
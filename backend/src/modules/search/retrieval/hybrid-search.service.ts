@@ -2,54 +2,78 @@
  * 混合检索服务（2026 生产级标准方案）。
  *
  * 流程:
- *   Query → Dense (HNSW 向量) + BM25 (pg_bigm tsquery)
- *         → RRF 融合 (k=60)
+ *   Query → Dense (HNSW 向量) + BM25 (LexicalRetriever：Postgres 词法索引或进程内倒排索引)
+ *         → RRF 融合（k 与两路权重、召回数量、阈值等取自检索档位 RetrievalProfile）
  *         → Parent-Child 映射（小块结果 → 大窗口 Context）
  *         → Rerank
  *         → CRAG 自评
  *         → 后处理 (MMR + 阈值 + 去重)
  */
 
-import type { PrismaClient } from "@prisma/client";
-import OpenAI from "openai";
-import { config } from "../../../config/env.js";
+import { Prisma, type PrismaClient } from "@prisma/client";
 import { logger } from "../../../lib/logger.js";
+import type { EmbeddingProvider } from "../../../embedding/types.js";
+import { createEmbeddingProvider } from "../../../embedding/createEmbeddingProvider.js";
 import type { RerankerService } from "./reranker.service.js";
 import { postProcess, type SearchResult } from "./post-processor.js";
 import type { KnowledgeBaseFileType } from "./query-metadata.js";
-
-export interface HybridSearchParams {
+import { documentAccessWhere, type DocumentViewer } from "../../document/document-access.service.js";
+import type { LexicalRetriever } from "../lexical/lexical-retriever.js";
+import { createLexicalRetriever } from "../lexical/create-lexical-retriever.js";
+import { hasSectionFilters, sectionFilterSql, type SectionFilters } from "./section-filter.js";
+import { resolveRetrievalProfile, type RetrievalProfile } from "./retrieval-profile.js";
+
+/** 章节级过滤（页码 / 章节序号 / 标题路径 / 第 N 章）在向量与关键词检索的 SQL 中生效 */
+export interface HybridSearchParams extends SectionFilters {
+  /** 限定检索的工作区；未指定时不按工作区过滤 */
+  workspaceId?: string;
+  /** 检索发起者，按文档 ACL 过滤；未指定时不做文档级过滤（仅限内部调用） */
+  viewer?: DocumentViewer;
   documentIds?: string[];
+  /** 带有任一标签的文档，与 documentIds 取并集构成显式检索范围（会话范围） */
+  scopeTags?: string[];
   query: string;
   topK?: number;
-  /** 可选的页面范围过滤 */
-  pageRange?: [number, number];
   /** 是否跳过 rerank（用于快速搜索） */
   skipRerank?: boolean;
   publishedYear?: number | null;
   fileTypes?: KnowledgeBaseFileType[];
   tags?: string[];
+  /** 检索档位；未指定时使用配置的默认档位 */
+  profile?: RetrievalProfile;
+  /** 调用方取消时在各阶段之间中止，不再发起后续的向量 / rerank 请求 */
+  signal?: AbortSignal;
 }
 
 export class HybridSearchService {
-  private openai: OpenAI;
-
   constructor(
     private prisma: PrismaClient,
     private reranker?: RerankerService,
-  ) {
-    this.openai = new OpenAI({
-      baseURL: config.embedding.baseURL,
-      apiKey: config.embedding.apiKey,
-    });
-  }
+    private embeddingProvider: EmbeddingProvider = createEmbeddingProvider(),
+    private lexicalRetriever: LexicalRetriever = createLexicalRetriever(prisma),
+  ) {}
 
+  /**
+   * 解析检索范围；未就绪（入库中 / 失败）、已归档 / 软删除或调用者无权访问的文档即使被显式指定也不参与检索。
+   * 指定了 documentIds / scopeTags 时只在该范围内检索，问题中识别出的元数据过滤（年份 / 类型 / 标签）在范围内继续生效。
+   */
   private async resolveDocumentIds(params: HybridSearchParams): Promise<string[]> {
-    if (params.documentIds?.length) return params.documentIds;
-
+    const scoped = Boolean(params.documentIds?.length || params.scopeTags?.length);
     const documents = await this.prisma.document.findMany({
       where: {
+        ...(scoped
+          ? {
+              OR: [
+                ...(params.documentIds?.length ? [{ id: { in: params.documentIds } }] : []),
+                ...(params.scopeTags?.length ? [{ tags: { hasSome: params.scopeTags } }] : []),
+              ],
+            }
+          : {}),
         status: "ready",
+        archivedAt: null,
+        deletedAt: null,
+        ...(params.workspaceId ? { workspaceId: params.workspaceId } : {}),
+        ...(params.viewer ? { AND: [documentAccessWhere(params.viewer)] } : {}),
         ...(params.fileTypes?.length ? { fileType: { in: params.fileTypes } } : {}),
         ...(params.tags?.length ? { tags: { hasEvery: params.tags } } : {}),
         ...(params.publishedYear
@@ -73,28 +97,44 @@ export class HybridSearchService {
   async search(params: HybridSearchParams): Promise<SearchResult[]> {
     const documentIds = await this.resolveDocumentIds(params);
     if (documentIds.length === 0) return [];
-
-    const { query, topK = 10, pageRange, skipRerank = false } = params;
-    const fetchK = topK * 3; // 多取一些给 rerank 用
+    params.signal?.throwIfAborted();
+
+    const { query, topK = 10, skipRerank = false } = params;
+    const sections: SectionFilters = {
+      pageRange: params.pageRange,
+      sectionRange: params.sectionRange,
+      sectionPath: params.sectionPath,
+      chapter: params.chapter,
+    };
+    const profile = params.profile ?? resolveRetrievalProfile();
+    const fetchK = topK * profile.fetchMultiplier; // 多取一些给 rerank 用
 
     // Step 1: 并行 Dense + BM25
     const [denseResults, bm25Results] = await Promise.all([
-      this.denseSearch(query, documentIds, fetchK, pageRange),
-      this.bm25Search(query, documentIds, fetchK, pageRange),
+      this.denseSearch(query, documentIds, fetchK, profile.efSearch, sections),
+      this.lexicalRetriever.search({
+        query,
+        documentIds,
+        limit: fetchK,
+        sections,
+        bm25: { k1: profile.bm25K1, b: profile.bm25B },
+        signal: params.signal,
+      }),
     ]);
 
     logger.info(
-      { documentIds, query: query.slice(0, 80), topK, denseCount: denseResults.length, bm25Count: bm25Results.length },
+      { documentIds, query: query.slice(0, 80), topK, profile: profile.name, denseCount: denseResults.length, bm25Count: bm25Results.length },
       "[hybridSearch] 混合检索完成",
     );
 
     // Step 2: RRF 融合
-    const fused = this.rrfFusion(denseResults, bm25Results, { k: 60 });
+    const fused = this.rrfFusion(denseResults, bm25Results, profile);
 
     // Step 3: Parent-Child 映射（Child chunk → Parent context）
     const withContext = await this.mapToParentContext(fused);
 
     // Step 4: Rerank
+    params.signal?.throwIfAborted();
     let reranked: SearchResult[];
     if (!skipRerank && this.reranker && withContext.length > 0) {
       reranked = await this.reranker.rerank(query, withContext, Math.min(topK * 2, withContext.length));
@@ -102,9 +142,11 @@ export class HybridSearchService {
       reranked = withContext.slice(0, topK * 2);
     }
 
+    params.signal?.throwIfAborted();
+
     // Step 5: 后处理
     const final = postProcess(reranked, {
-      threshold: 0.3,
+      threshold: profile.threshold,
       deduplicate: true,
     });
 
@@ -127,240 +169,55 @@ export class HybridSearchService {
 
   /**
    * Dense 向量检索（使用 ChunkEmbedding 表 + HNSW 索引）。
+   * 只比较与当前 EmbeddingProvider 同模型、同维度的向量，
+   * 以维度强转后的表达式排序以命中按维度建立的部分 HNSW 索引。
+   * 带章节过滤时范围通常很小，HNSW 先取近邻再过滤可能丢掉范围内的结果，改为对过滤后的行精确排序。
+   * ef_search 用 SET LOCAL 设置，只在同一事务内生效，因此与查询放在一个事务中。
    */
   private async denseSearch(
     query: string,
     documentIds: string[],
     limit: number,
-    pageRange?: [number, number],
+    efSearch: number,
+    sections?: SectionFilters,
   ): Promise<SearchResult[]> {
     try {
-      // 设置 HNSW 搜索参数
-      await this.prisma.$executeRaw`SET LOCAL hnsw.ef_search = 100;`;
-
-      const embeddingResp = await this.openai.embeddings.create({
-        model: config.embedding.model,
-        input: query,
-      });
-      const embedding = embeddingResp.data[0]?.embedding;
+      const { model, dimension } = this.embeddingProvider;
+      const [embedding] = await this.embeddingProvider.embed([query]);
       if (!embedding || embedding.length === 0) return [];
 
       const embeddingLiteral = `[${embedding.join(",")}]`;
+      // dimension 为配置中的整数，可安全拼入类型修饰符
+      const vectorType = Prisma.raw(`vector(${dimension})`);
       const docIdsLiteral = `{${documentIds.join(",")}}`;
-
-      const rows = await this.prisma.$queryRaw<
-        { chunkId: string; content: string; documentId: string; pageNumber: number; similarity: number }[]
-      >`
-        SELECT
-          c.id as "chunkId",
-          c.content as "content",
-          c."documentId" as "documentId",
-          COALESCE(ds."pageNumber", ds.index)::int as "pageNumber",
-          1 - (ce.embedding <=> ${embeddingLiteral}::vector) as "similarity"
-        FROM "ChunkEmbedding" ce
-        JOIN "Chunk" c ON c.id = ce."chunkId"
-        JOIN "DocumentSection" ds ON ds.id = c."sectionId"
-        WHERE ce."documentId"::text = ANY(${docIdsLiteral}::text[])
-        ORDER BY "similarity" DESC
-        LIMIT ${limit};
-      `;
-
-      return rows.map((r) => ({
-        documentId: r.documentId,
-        pageNumber: r.pageNumber,
-        snippet: r.content.slice(0, 500),
-        fullContent: r.content,
-        chunkId: r.chunkId,
-        similarity: r.similarity,
-        source: "dense" as const,
-      }));
-    } catch (err) {
-      logger.error({ err }, "Dense 检索失败");
-      return [];
-    }
-  }
-
-  /**
-   * BM25 关键词检索。
-   *
-   * - 中文查询: 使用字符 bigram + ILIKE 模糊匹配（因为 pg_bigm 扩展未安装，
-   *   to_tsvector('simple') 对中文不进行分词，tsquery @@ 始终无法命中）。
-   * - 非中文查询: 使用 PostgreSQL tsvector/tsquery（simple 配置）。
-   */
-  private async bm25Search(
-    query: string,
-    documentIds: string[],
-    limit: number,
-    _pageRange?: [number, number],
-  ): Promise<SearchResult[]> {
-    try {
-      const docIdsLiteral = `{${documentIds.join(",")}}`;
-
-      // ---- 中文查询：字符 bigram + ILIKE ----
-      const hasChinese = /[一-鿿]/.test(query);
-      if (hasChinese) {
-        return await this.bm25ChineseBigram(query, docIdsLiteral, limit);
-      }
-
-      // ---- 非中文查询：tsquery（原有逻辑）----
-      const terms = query
-        .replace(/[，,。；;！!？?、\s]+/g, " ")
-        .trim()
-        .split(/\s+/)
-        .filter(Boolean);
-
-      if (terms.length === 0) return [];
-
-      // 尝试 tsquery，如果失败则 ILIKE fallback
-      try {
-        const tsquery = terms.map((t) => `'${t}'`).join(" & ");
-        const rows = await this.prisma.$queryRaw<
-          { chunkId: string; content: string; documentId: string; pageNumber: number; rank: number }[]
+      const distance = Prisma.sql`ce.embedding::${vectorType} <=> ${embeddingLiteral}::${vectorType}`;
+      // 加 0 后的表达式与索引表达式不同，规划器不会走 HNSW
+      const orderBy = hasSectionFilters(sections) ? Prisma.sql`(${distance}) + 0` : distance;
+
+      const rows = await this.prisma.$transaction(async (tx) => {
+        // efSearch 为配置校验过的整数，可安全拼入
+        await tx.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${Math.trunc(efSearch)}`);
+        return tx.$queryRaw<
+          { chunkId: string; content: string; documentId: string; pageNumber: number; similarity: number }[]
         >`
           SELECT
             c.id as "chunkId",
             c.content as "content",
             c."documentId" as "documentId",
             COALESCE(ds."pageNumber", ds.index)::int as "pageNumber",
-            ts_rank(
-              to_tsvector('simple', c.content),
-              to_tsquery('simple', ${tsquery})
-            ) as "rank"
-          FROM "Chunk" c
+            1 - (${distance}) as "similarity"
+          FROM "ChunkEmbedding" ce
+          JOIN "Chunk" c ON c.id = ce."chunkId"
+          JOIN "Document" d ON d.id = c."documentId" AND d."indexVersion" = c."indexVersion"
           JOIN "DocumentSection" ds ON ds.id = c."sectionId"
-          WHERE c."documentId"::text = ANY(${docIdsLiteral}::text[])
-            AND to_tsvector('simple', c.content) @@ to_tsquery('simple', ${tsquery})
-          ORDER BY "rank" DESC
+          WHERE ce."documentId"::text = ANY(${docIdsLiteral}::text[])
+            AND ce."model" = ${model}
+            AND ce."dimension" = ${dimension}
+            ${sectionFilterSql(sections)}
+          ORDER BY ${orderBy}
           LIMIT ${limit};
         `;
-        return rows.map((r) => ({
-          documentId: r.documentId,
-          pageNumber: r.pageNumber,
-          snippet: r.content.slice(0, 500),
-          fullContent: r.content,
-          chunkId: r.chunkId,
-          similarity: r.rank,
-          source: "bm25" as const,
-        }));
-      } catch {
-        // tsquery 失败 → ILIKE fallback
-        const rows = await this.prisma.chunk.findMany({
-          where: {
-            documentId: { in: documentIds },
-            content: { contains: query, mode: "insensitive" },
-          },
-          include: { section: true },
-          take: limit,
-          orderBy: { chunkIndex: "asc" },
-        });
-        return rows.map((r) => ({
-          documentId: r.documentId,
-          pageNumber: r.section?.pageNumber ?? r.section?.index ?? 0,
-          snippet: r.content.slice(0, 500),
-          fullContent: r.content,
-          chunkId: r.id,
-          similarity: 0.5,
-          source: "bm25" as const,
-        }));
-      }
-    } catch (err) {
-      logger.warn({ err }, "BM25 检索降级");
-      return [];
-    }
-  }
-
-  /**
-   * 中文 bigram ILIKE 关键词匹配。
-   *
-   * 原理: 中文没有空格分词，to_tsvector('simple') 不会对中文字符进行 tokenize，
-   * 因此 tsquery @@ 匹配对中文始终失败。字符 bigram（相邻两字）是中文文本匹配
-   * 的有效近似 —— 如果查询和文档共享多个 bigram，则语义高度相关。
-   *
-   * 例如查询 "这个文档讲了什么" 生成 bigram:
-   *   ["这个", "个文", "文档", "档讲", "讲了", "了什", "什么"]
-   * 然后用 ILIKE '%这个%' OR ILIKE '%个文%' OR ... 在 Chunk.content 中匹配。
-   */
-  private async bm25ChineseBigram(
-    query: string,
-    docIdsLiteral: string,
-    limit: number,
-  ): Promise<SearchResult[]> {
-    // 清洗查询文本：移除标点、空白
-    const cleanQuery = query.replace(/[\s，,。；;！!？?、""''「」『』【】《》…—\-　]+/g, "");
-    if (cleanQuery.length < 2) {
-      // 单字查询退化为简单 ILIKE
-      try {
-        const rows = await this.prisma.$queryRawUnsafe<
-          { chunkId: string; content: string; documentId: string; pageNumber: number; rank: number }[]
-        >(
-          `SELECT
-            c.id as "chunkId",
-            c.content as "content",
-            c."documentId" as "documentId",
-            COALESCE(ds."pageNumber", ds.index)::int as "pageNumber",
-            0.5::float8 as "rank"
-          FROM "Chunk" c
-          JOIN "DocumentSection" ds ON ds.id = c."sectionId"
-          WHERE c."documentId"::text = ANY($1::text[])
-            AND c.content ILIKE '%' || $2 || '%'
-          LIMIT $3`,
-          docIdsLiteral,
-          cleanQuery,
-          limit,
-        );
-        return rows.map((r) => ({
-          documentId: r.documentId,
-          pageNumber: r.pageNumber,
-          snippet: r.content.slice(0, 500),
-          fullContent: r.content,
-          chunkId: r.chunkId,
-          similarity: r.rank,
-          source: "bm25" as const,
-        }));
-      } catch (err) {
-        logger.warn({ err }, "BM25 中文单字 ILIKE 失败");
-        return [];
-      }
-    }
-
-    // 生成字符 bigram（滑动窗口，步长 1）
-    const bigrams: string[] = [];
-    for (let i = 0; i < cleanQuery.length - 1; i++) {
-      bigrams.push(cleanQuery.slice(i, i + 2));
-    }
-    // 去重 + 限制数量（避免 SQL 过长）
-    const uniqueBigrams = [...new Set(bigrams)].slice(0, 16);
-
-    if (uniqueBigrams.length === 0) return [];
-
-    // 构建 ILIKE OR 条件
-    const conditions = uniqueBigrams
-      .map((_, i) => `c.content ILIKE '%' || $${i + 2} || '%'`)
-      .join(" OR ");
-
-    try {
-      const rows = await this.prisma.$queryRawUnsafe<
-        { chunkId: string; content: string; documentId: string; pageNumber: number; rank: number }[]
-      >(
-        `SELECT
-          c.id as "chunkId",
-          c.content as "content",
-          c."documentId" as "documentId",
-          COALESCE(ds."pageNumber", ds.index)::int as "pageNumber",
-          (
-            SELECT count(*) FROM unnest(ARRAY[${uniqueBigrams.map((_, i) => `$${i + 2}`).join(", ")}]) AS bg
-            WHERE c.content ILIKE '%' || bg || '%'
-          )::float8 / ${uniqueBigrams.length}::float8 as "rank"
-        FROM "Chunk" c
-        JOIN "DocumentSection" ds ON ds.id = c."sectionId"
-        WHERE c."documentId"::text = ANY($1::text[])
-          AND (${conditions})
-        ORDER BY "rank" DESC
-        LIMIT $${uniqueBigrams.length + 2}`,
-        docIdsLiteral,
-        ...uniqueBigrams,
-        limit,
-      );
+      });
 
       return rows.map((r) => ({
         documentId: r.documentId,
@@ -368,29 +225,29 @@ export class HybridSearchService {
         snippet: r.content.slice(0, 500),
         fullContent: r.content,
         chunkId: r.chunkId,
-        similarity: r.rank,
-        source: "bm25" as const,
+        similarity: r.similarity,
+        source: "dense" as const,
       }));
     } catch (err) {
-      logger.warn({ err }, "BM25 中文 bigram ILIKE 失败");
+      logger.error({ err }, "Dense 检索失败");
       return [];
     }
   }
 
   /**
    * RRF (Reciprocal Rank Fusion) 融合。
-   * score(d) = Σ 1/(k + rank_i(d))
+   * score(d) = Σ weight_i/(k + rank_i(d))
    */
   private rrfFusion(
     denseResults: SearchResult[],
     bm25Results: SearchResult[],
-    { k = 60 }: { k?: number } = {},
+    { rrfK: k, denseWeight, lexicalWeight }: Pick<RetrievalProfile, "rrfK" | "denseWeight" | "lexicalWeight">,
   ): SearchResult[] {
     const scoreMap = new Map<string, { result: SearchResult; score: number }>();
 
     const rankList = [
-      { results: denseResults, weight: 1.0 },
-      { results: bm25Results, weight: 0.8 }, // BM25 权重略低
+      { results: denseResults, weight: denseWeight },
+      { results: bm25Results, weight: lexicalWeight },
     ];
 
     for (const { results, weight } of rankList) {
@@ -425,12 +282,13 @@ export class HybridSearchService {
 
     if (chunkIds.length === 0) return results;
 
-    // 查找包含这些 child chunk 的 parent context
-    const contexts = await this.prisma.chunkContext.findMany({
-      where: {
-        childChunkIds: { hasSome: chunkIds },
-      },
-    });
+    // 查找包含这些 child chunk 的 parent context；只取文档生效版本的，重建索引期间不会映射到旧版本内容
+    const contexts = await this.prisma.$queryRaw<{ id: string; content: string; childChunkIds: string[] }[]>`
+      SELECT cc.id, cc.content, cc."childChunkIds"
+      FROM "ChunkContext" cc
+      JOIN "Document" d ON d.id = cc."documentId" AND d."indexVersion" = cc."indexVersion"
+      WHERE cc."childChunkIds" && ${chunkIds}::text[]
+    `;
 
     if (contexts.length === 0) return results;
 
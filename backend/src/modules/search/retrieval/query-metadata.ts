@@ -1,9 +1,15 @@
-export type KnowledgeBaseFileType = "pdf" | "docx" | "pptx" | "text" | "html";
+export const KNOWLEDGE_BASE_FILE_TYPES = ["pdf", "docx", "pptx", "text", "html"] as const;
+
+export type KnowledgeBaseFileType = (typeof KNOWLEDGE_BASE_FILE_TYPES)[number];
 
 export interface QueryMetadataFilters {
   publishedYear: number | null;
   fileTypes: KnowledgeBaseFileType[];
   tags: string[];
+  /** 「第 3 页」「第 3-5 页」「page 3」 */
+  pageRange: [number, number] | null;
+  /** 「第三章」「第 3 章」「chapter 3」 */
+  chapter: number | null;
   residualQuery: string;
 }
 
@@ -19,22 +25,69 @@ const FILE_TYPE_KEYWORDS: ReadonlyArray<readonly [string, KnowledgeBaseFileType]
   ["html", "html"],
 ];
 
-export function extractQueryMetadata(query: string): QueryMetadataFilters {
+/** 过短的标签（如单个汉字）容易误命中，不参与识别 */
+const MIN_TAG_MATCH_LENGTH = 2;
+
+/** 「第 3 页」「第 3-5 页」「3 至 5 页」；单独的「30 页」可能是在问页数，不识别 */
+const PAGE_PATTERN = /第\s*(\d{1,4})\s*(?:[-~～—至到]\s*第?\s*(\d{1,4})\s*)?页|(\d{1,4})\s*[-~～—至到]\s*(\d{1,4})\s*页|\bpages?\s*(\d{1,4})(?:\s*(?:-|–|to)\s*(\d{1,4}))?\b/i;
+const CHAPTER_PATTERN = /第\s*([零〇一二两三四五六七八九十\d]{1,4})\s*章|\bchapter\s+(\d{1,3})\b/i;
+const CHINESE_NUMERALS: Record<string, number> = {
+  零: 0, 〇: 0, 一: 1, 二: 2, 两: 2, 三: 3, 四: 4, 五: 5, 六: 6, 七: 7, 八: 8, 九: 9,
+};
+
+/** 阿拉伯数字或不超过九十九的中文数字（三、十二、二十一） */
+function parseNumeral(value: string): number | null {
+  if (/^\d+$/.test(value)) return Number(value);
+  const [tens, ones] = value.split("十");
+  if (ones === undefined) return value.length === 1 ? CHINESE_NUMERALS[value] ?? null : null;
+  const tensValue = tens ? CHINESE_NUMERALS[tens] : 1;
+  const onesValue = ones ? CHINESE_NUMERALS[ones] : 0;
+  return tensValue === undefined || onesValue === undefined ? null : tensValue * 10 + onesValue;
+}
+
+function extractPageRange(query: string): [number, number] | null {
+  const match = PAGE_PATTERN.exec(query);
+  if (!match) return null;
+  const from = Number(match[1] ?? match[3] ?? match[5]);
+  const to = Number(match[2] ?? match[4] ?? match[6] ?? from);
+  return from <= to ? [from, to] : [to, from];
+}
+
+function extractChapter(query: string): number | null {
+  const match = CHAPTER_PATTERN.exec(query);
+  if (!match) return null;
+  const chapter = parseNumeral(match[1] ?? match[2]);
+  return chapter && chapter > 0 ? chapter : null;
+}
+
+/**
+ * 从问题中识别年份、文件类型、标签、页码与章节过滤条件。
+ * 标签只匹配知识库已有的标签（knownTags），返回库中的原始写法；
+ * 标签词保留在 residualQuery 中，它们同时也是检索主题。
+ */
+export function extractQueryMetadata(query: string, knownTags: readonly string[] = []): QueryMetadataFilters {
   const yearMatch = query.match(/(20\d{2})\s*年/);
   const lowerQuery = query.toLowerCase();
   const fileTypes = FILE_TYPE_KEYWORDS.flatMap(([keyword, type]) =>
     lowerQuery.includes(keyword) ? [type] : [],
   );
   const residualQuery = query
+    .replace(new RegExp(PAGE_PATTERN.source, "gi"), "")
+    .replace(new RegExp(CHAPTER_PATTERN.source, "gi"), "")
     .replace(/20\d{2}\s*年/g, "")
     .replace(/pdf|word|docx|pptx|ppt|markdown|md|txt|html/gi, "")
     .replace(/\s+/g, " ")
     .trim();
+  const tags = knownTags.filter(
+    (tag) => tag.length >= MIN_TAG_MATCH_LENGTH && lowerQuery.includes(tag.toLowerCase()),
+  );
 
   return {
     publishedYear: yearMatch ? Number(yearMatch[1]) : null,
     fileTypes: [...new Set(fileTypes)],
-    tags: [],
+    tags: [...new Set(tags)],
+    pageRange: extractPageRange(query),
+    chapter: extractChapter(query),
     residualQuery,
   };
 }
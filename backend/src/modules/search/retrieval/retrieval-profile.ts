@@ -0,0 +1,9 @@
+import { config, type RetrievalProfile, type RetrievalProfileName } from "../../../config/env.js";
+
+export type { RetrievalProfile, RetrievalProfileName };
+
+/** 按优先级（请求 → 会话）取第一个指定的检索档位，都未指定时使用配置的默认档位 */
+export function resolveRetrievalProfile(...names: (RetrievalProfileName | null | undefined)[]): RetrievalProfile {
+  const { defaultProfile, profiles } = config.retrieval;
+  return profiles[names.find((name) => name != null) ?? defaultProfile];
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { chapterHeadingPattern, hasSectionFilters } from "./section-filter.js";
+
+/** SQL 中以 ~* 使用，这里同样不区分大小写 */
+function matchesChapter(chapter: number, title: string): boolean {
+  return new RegExp(chapterHeadingPattern(chapter), "i").test(title);
+}
+
+describe("chapterHeadingPattern", () => {
+  it("匹配阿拉伯数字与中文数字的「第 N 章」", () => {
+    expect(matchesChapter(3, "第3章 系统设计")).toBe(true);
+    expect(matchesChapter(3, "第 3 章 系统设计")).toBe(true);
+    expect(matchesChapter(3, "第三章 系统设计")).toBe(true);
+    expect(matchesChapter(10, "第十章 附录")).toBe(true);
+    expect(matchesChapter(11, "第十一章")).toBe(true);
+    expect(matchesChapter(20, "第二十章")).toBe(true);
+    expect(matchesChapter(21, "第二十一章")).toBe(true);
+  });
+
+  it("匹配 Chapter N 与编号标题，不区分大小写", () => {
+    expect(matchesChapter(2, "Chapter 2: Architecture")).toBe(true);
+    expect(matchesChapter(2, "CHAPTER 2")).toBe(true);
+    expect(matchesChapter(2, "2. 架构")).toBe(true);
+    expect(matchesChapter(2, "2．架构")).toBe(true);
+    expect(matchesChapter(2, "2、架构")).toBe(true);
+    expect(matchesChapter(2, "  2 架构")).toBe(true);
+    expect(matchesChapter(2, "2")).toBe(true);
+  });
+
+  it("不匹配以 N 开头的其他数字", () => {
+    expect(matchesChapter(1, "第十一章")).toBe(false);
+    expect(matchesChapter(1, "Chapter 12")).toBe(false);
+    expect(matchesChapter(1, "10. 总结")).toBe(false);
+    expect(matchesChapter(1, "第11章")).toBe(false);
+  });
+
+  it("N 须出现在标题开头", () => {
+    expect(matchesChapter(3, "参见第3章")).toBe(false);
+    expect(matchesChapter(3, "附录 3.")).toBe(false);
+  });
+
+  it("100 及以上只匹配阿拉伯数字", () => {
+    expect(matchesChapter(120, "第120章")).toBe(true);
+    expect(matchesChapter(120, "Chapter 120")).toBe(true);
+  });
+});
+
+describe("hasSectionFilters", () => {
+  it("空对象、空关键词列表视为没有过滤条件", () => {
+    expect(hasSectionFilters()).toBe(false);
+    expect(hasSectionFilters({})).toBe(false);
+    expect(hasSectionFilters({ sectionPath: [] })).toBe(false);
+  });
+
+  it("任一条件存在即为有过滤条件", () => {
+    expect(hasSectionFilters({ pageRange: [1, 2] })).toBe(true);
+    expect(hasSectionFilters({ sectionRange: [0, 3] })).toBe(true);
+    expect(hasSectionFilters({ sectionPath: ["预算"] })).toBe(true);
+    expect(hasSectionFilters({ chapter: 2 })).toBe(true);
+  });
+});
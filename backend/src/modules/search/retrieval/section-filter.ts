@@ -0,0 +1,62 @@
+import { Prisma } from "@prisma/client";
+
+/** 章节级检索过滤，向量与关键词检索共用，条件都作用在命中 Chunk 所属的 DocumentSection 上 */
+export interface SectionFilters {
+  /** 页码范围（含两端）；没有页码的章节（Word、文本等）不命中 */
+  pageRange?: [number, number];
+  /** 章节序号范围（DocumentSection.index，含两端）：PDF 为页码，Word 为段落序号 */
+  sectionRange?: [number, number];
+  /** 每个关键词都须出现在章节所属的某级标题中（不区分大小写的子串匹配） */
+  sectionPath?: string[];
+  /** 第 N 章：标题路径中有形如「第N章 / 第三章 / Chapter N / N.」的标题 */
+  chapter?: number;
+}
+
+const CHINESE_DIGITS = ["零", "一", "二", "三", "四", "五", "六", "七", "八", "九"];
+
+/** 1-99 的中文数字（十一、二十、二十一） */
+function toChineseNumeral(value: number): string {
+  if (value < 10) return CHINESE_DIGITS[value];
+  const tens = Math.floor(value / 10);
+  const ones = value % 10;
+  return `${tens === 1 ? "" : CHINESE_DIGITS[tens]}十${ones === 0 ? "" : CHINESE_DIGITS[ones]}`;
+}
+
+/** 匹配第 N 章标题的正则；只由数字与固定字符构成，可直接作为 SQL 参数 */
+export function chapterHeadingPattern(chapter: number): string {
+  const numerals = chapter < 100 ? `(${chapter}|${toChineseNumeral(chapter)})` : String(chapter);
+  return `^\\s*(第\\s*${numerals}\\s*章|chapter\\s+${chapter}([^0-9]|$)|${chapter}([.．、]|\\s|$))`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export function hasSectionFilters(filters?: SectionFilters): boolean {
+  return Boolean(filters?.pageRange || filters?.sectionRange || filters?.sectionPath?.length || filters?.chapter);
+}
+
+/**
+ * 生成追加在 WHERE 之后的过滤条件（以 AND 开头），章节表别名固定为 ds。
+ * 没有过滤条件时返回空片段。
+ */
+export function sectionFilterSql(filters?: SectionFilters): Prisma.Sql {
+  const conditions: Prisma.Sql[] = [];
+  if (filters?.pageRange) {
+    conditions.push(Prisma.sql`ds."pageNumber" BETWEEN ${filters.pageRange[0]} AND ${filters.pageRange[1]}`);
+  }
+  if (filters?.sectionRange) {
+    conditions.push(Prisma.sql`ds.index BETWEEN ${filters.sectionRange[0]} AND ${filters.sectionRange[1]}`);
+  }
+  for (const keyword of filters?.sectionPath ?? []) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM unnest(ds."sectionPath") AS heading(title) WHERE heading.title ILIKE ${`%${escapeLike(keyword)}%`})`,
+    );
+  }
+  if (filters?.chapter) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM unnest(ds."sectionPath") AS heading(title) WHERE heading.title ~* ${chapterHeadingPattern(filters.chapter)})`,
+    );
+  }
+  return conditions.length > 0 ? Prisma.sql`AND ${Prisma.join(conditions, " AND ")}` : Prisma.empty;
+}
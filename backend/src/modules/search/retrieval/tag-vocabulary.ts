@@ -0,0 +1,31 @@
+import { Prisma, type PrismaClient } from "@prisma/client";
+
+const DEFAULT_TTL_MS = 60_000;
+
+/**
+ * 知识库中已有的标签集合，供 extractQueryMetadata 从问题里识别标签过滤条件。
+ * 按工作区短时间缓存，避免每次检索都扫描 Document 表。
+ */
+export class TagVocabulary {
+  private readonly cached = new Map<string, { tags: string[]; expiresAt: number }>();
+
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly ttlMs = DEFAULT_TTL_MS,
+  ) {}
+
+  async list(workspaceId?: string): Promise<string[]> {
+    const key = workspaceId ?? "*";
+    const cached = this.cached.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.tags;
+    const rows = await this.prisma.$queryRaw<{ tag: string }[]>`
+      SELECT DISTINCT unnest(tags) AS tag
+      FROM "Document"
+      WHERE status = 'ready' AND "archivedAt" IS NULL AND "deletedAt" IS NULL
+      ${workspaceId ? Prisma.sql`AND "workspaceId" = ${workspaceId}` : Prisma.empty}
+    `;
+    const tags = rows.map((row) => row.tag);
+    this.cached.set(key, { tags, expiresAt: Date.now() + this.ttlMs });
+    return tags;
+  }
+}
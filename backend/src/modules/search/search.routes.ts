@@ -0,0 +1,77 @@
+import type { PrismaClient } from "@prisma/client";
+import type { FastifyPluginAsync } from "fastify";
+import type { WorkspaceService } from "../workspace/workspace.service.js";
+import { workspaceScope } from "../../server/plugins/workspace.js";
+import { documentScopeOf, findInaccessibleDocumentIds } from "../document/document-access.service.js";
+import type { HybridSearchService } from "./retrieval/hybrid-search.service.js";
+import { resolveRetrievalProfile } from "./retrieval/retrieval-profile.js";
+import { searchRequestSchema } from "./types.js";
+
+interface SearchRoutesOptions {
+  prisma: PrismaClient;
+  workspaces: WorkspaceService;
+  searchService: HybridSearchService;
+}
+
+export const searchRoutes: FastifyPluginAsync<SearchRoutesOptions> = async (app, opts) => {
+  app.addHook("preHandler", workspaceScope(opts.workspaces));
+
+  // ---- POST /search ----
+  // body: { query, filters?, topK?, profile?, skipRerank? }；不经过 Agent，直接返回排序后的 Chunk 与各阶段分数
+  app.post("/search", async (request, reply) => {
+    const input = searchRequestSchema.parse(request.body ?? {});
+    const scope = documentScopeOf(request);
+    const { documentIds, tags, fileTypes, publishedYear, ...sections } = input.filters ?? {};
+
+    const missing = await findInaccessibleDocumentIds(opts.prisma, scope, documentIds ?? []);
+    if (missing.length > 0) {
+      reply.code(404).send({ error: "document_not_found", documentIds: missing });
+      return;
+    }
+
+    const profile = resolveRetrievalProfile(input.profile);
+    const startedAt = Date.now();
+    const results = await opts.searchService.search({
+      workspaceId: scope.workspaceId,
+      viewer: scope.viewer,
+      documentIds,
+      tags,
+      fileTypes,
+      publishedYear,
+      ...sections,
+      query: input.query,
+      topK: input.topK,
+      skipRerank: input.skipRerank,
+      profile,
+    });
+    const durationMs = Date.now() - startedAt;
+
+    const documents = await opts.prisma.document.findMany({
+      where: { id: { in: [...new Set(results.map((result) => result.documentId))] } },
+      select: { id: true, fileName: true, fileType: true },
+    });
+    const documentById = new Map(documents.map((document) => [document.id, document]));
+
+    reply.send({
+      query: input.query,
+      profile: profile.name,
+      durationMs,
+      results: results.map((result, index) => ({
+        rank: index + 1,
+        chunkId: result.chunkId ?? null,
+        documentId: result.documentId,
+        fileName: documentById.get(result.documentId)?.fileName ?? null,
+        fileType: documentById.get(result.documentId)?.fileType ?? null,
+        pageNumber: result.pageNumber,
+        snippet: result.snippet,
+        // 命中 Chunk 所属的父级上下文（mapToParentContext 之后的 fullContent）
+        content: result.fullContent ?? result.snippet,
+        parentContextId: result.parentContextId ?? null,
+        similarity: result.similarity ?? null,
+        rrfScore: result.rrfScore ?? null,
+        rerankScore: result.rerankScore ?? null,
+        source: result.source ?? null,
+      })),
+    });
+  });
+};
@@ -0,0 +1,60 @@
+import { z } from "zod";
+import { RETRIEVAL_PROFILE_NAMES } from "../../config/env.js";
+import { MAX_DOCUMENT_TAGS, MAX_TAG_LENGTH, normalizeTags } from "../document/types.js";
+import { KNOWLEDGE_BASE_FILE_TYPES } from "./retrieval/query-metadata.js";
+
+export const MAX_SEARCH_DOCUMENTS = 50;
+export const MAX_SEARCH_TOP_K = 50;
+
+/** 检索档位：precise / broad / fast，参数见 config.retrieval */
+export const retrievalProfileNameSchema = z.enum(RETRIEVAL_PROFILE_NAMES);
+
+const rangeSchema = (min: number) =>
+  z
+    .tuple([z.number().int().min(min), z.number().int().min(min)])
+    .refine(([from, to]) => from <= to, "范围起点不能大于终点");
+
+/** 检索的章节级过滤：页码 / 章节序号范围（含两端）、标题关键词、第 N 章 */
+export const sectionFiltersSchema = z
+  .object({
+    pageRange: rangeSchema(1).optional(),
+    sectionRange: rangeSchema(0).optional(),
+    sectionPath: z.array(z.string().trim().min(1).max(120)).max(5).optional(),
+    chapter: z.number().int().min(1).max(999).optional(),
+  })
+  .strict();
+
+/**
+ * POST /search 的过滤条件：指定 documentIds 时只在这些文档中检索，
+ * 否则在当前工作区可见的文档中按标签（须全部带有）/ 文件类型 / 发布年份筛选；章节过滤两种情况都生效。
+ */
+export const searchFiltersSchema = sectionFiltersSchema
+  .extend({
+    documentIds: z
+      .array(z.string().uuid())
+      .max(MAX_SEARCH_DOCUMENTS)
+      .transform((ids) => [...new Set(ids)])
+      .optional(),
+    tags: z
+      .array(z.string().max(MAX_TAG_LENGTH))
+      .transform(normalizeTags)
+      .pipe(z.array(z.string()).max(MAX_DOCUMENT_TAGS))
+      .optional(),
+    fileTypes: z.array(z.enum(KNOWLEDGE_BASE_FILE_TYPES)).max(KNOWLEDGE_BASE_FILE_TYPES.length).optional(),
+    publishedYear: z.number().int().min(1900).max(2100).optional(),
+  })
+  .strict();
+
+export const searchRequestSchema = z
+  .object({
+    query: z.string().trim().min(1).max(1000),
+    filters: searchFiltersSchema.optional(),
+    topK: z.number().int().min(1).max(MAX_SEARCH_TOP_K).default(10),
+    /** 未指定时使用配置的默认档位 */
+    profile: retrievalProfileNameSchema.optional(),
+    /** 跳过 LLM rerank，按 RRF 融合分数排序 */
+    skipRerank: z.boolean().default(false),
+  })
+  .strict();
+
+export type SearchRequest = z.infer<typeof searchRequestSchema>;
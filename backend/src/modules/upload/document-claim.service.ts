@@ -2,6 +2,9 @@ import type { PrismaClient } from "@prisma/client";
 
 export interface ClaimDocumentInput {
   id: string;
+  workspaceId: string;
+  /** 新建文档时记录的上传者；已存在的文档保持原上传者 */
+  ownerId: string;
   contentHash: string;
   fileName: string;
   fileType: string;
@@ -28,9 +31,12 @@ export async function claimDocument(
   prisma: PrismaClient,
   input: ClaimDocumentInput,
 ): Promise<ClaimDocumentResult> {
+  const contentHashKey = {
+    workspaceId_contentHash: { workspaceId: input.workspaceId, contentHash: input.contentHash },
+  };
   const existing = await prisma.document.findUnique({
-    where: { contentHash: input.contentHash },
-    select: { id: true, contentHash: true, status: true },
+    where: contentHashKey,
+    select: { id: true, contentHash: true, status: true, archivedAt: true, deletedAt: true },
   });
   if (existing) {
     if (existing.status === "failed") {
@@ -45,19 +51,31 @@ export async function claimDocument(
             fileName: input.fileName,
             fileType: input.fileType,
             status: "processing",
+            archivedAt: null,
+            deletedAt: null,
           },
           select: { id: true, contentHash: true, status: true },
         });
       });
       return { document, action: "retry" };
     }
-    return { document: existing, action: actionForStatus(existing.status) };
+    // 重新上传已归档 / 软删除的文档视为恢复
+    if (existing.archivedAt || existing.deletedAt) {
+      await prisma.document.update({
+        where: { id: existing.id },
+        data: { archivedAt: null, deletedAt: null },
+      });
+    }
+    const { id, contentHash, status } = existing;
+    return { document: { id, contentHash, status }, action: actionForStatus(status) };
   }
 
   try {
     const document = await prisma.document.create({
       data: {
         id: input.id,
+        workspaceId: input.workspaceId,
+        ownerId: input.ownerId,
         contentHash: input.contentHash,
         fileName: input.fileName,
         fileType: input.fileType,
@@ -71,7 +89,7 @@ export async function claimDocument(
       throw error;
     }
     const document = await prisma.document.findUnique({
-      where: { contentHash: input.contentHash },
+      where: contentHashKey,
       select: { id: true, contentHash: true, status: true },
     });
     if (!document) throw error;
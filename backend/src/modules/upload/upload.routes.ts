@@ -19,11 +19,28 @@ import {
   writeChunk,
   assembleFile,
   shouldReuseCompletedResult,
+  uploadIndexKey,
+  type UploadMetadata,
 } from "./upload.service.js";
 import { resolveDocumentSourcePath } from "./source-path.js";
 import { claimDocument } from "./document-claim.service.js";
+import { DocumentMetadataService } from "../document/document-metadata.service.js";
+import { documentMetadataSchema, toDocumentMetadataJson } from "../document/types.js";
+import {
+  canAccessDocument,
+  canManageDocument,
+  documentScopeOf,
+  documentScopeWhere,
+  type DocumentScope,
+} from "../document/document-access.service.js";
+import type { WorkspaceService } from "../workspace/workspace.service.js";
+import { DEFAULT_WORKSPACE_ID } from "../workspace/types.js";
+import { workspaceScope } from "../../server/plugins/workspace.js";
 
-/** 验证去重条目对应的 DB 文档是否已处理完成 */
+/**
+ * 验证去重条目对应的 DB 文档是否已处理完成。
+ * 已归档 / 软删除的文档返回 false，交给 claimDocument 恢复。
+ */
 async function isDocumentReady(
   prisma: PrismaClient,
   documentId: string,
@@ -31,17 +48,43 @@ async function isDocumentReady(
   try {
     const doc = await prisma.document.findUnique({
       where: { id: documentId },
-      select: { status: true },
+      select: { status: true, archivedAt: true, deletedAt: true },
     });
-    return doc?.status === "ready";
+    return doc?.status === "ready" && !doc.archivedAt && !doc.deletedAt;
   } catch {
     return false;
   }
 }
 
+/**
+ * 去重命中的已有文档对当前用户的权限：
+ * manage 可复用并写入上传时填写的元数据；read 可复用但不改元数据；
+ * hidden 不可复用，也不返回其 id（同一工作区内相同内容只能有一份文档）。
+ */
+type DedupAccess = "manage" | "read" | "hidden";
+
+async function dedupAccessOf(
+  prisma: PrismaClient,
+  scope: DocumentScope,
+  documentId: string,
+): Promise<DedupAccess> {
+  const document = await prisma.document.findFirst({
+    where: { id: documentId, ...documentScopeWhere(scope) },
+    select: { ownerId: true },
+  });
+  if (!document) return "hidden";
+  return canManageDocument(scope.viewer, document) ? "manage" : "read";
+}
+
+/** 上传会话只能在发起它的工作区内继续 */
+function belongsToWorkspace(metadata: UploadMetadata, workspaceId: string): boolean {
+  return (metadata.workspaceId ?? DEFAULT_WORKSPACE_ID) === workspaceId;
+}
+
 interface UploadPluginOptions {
   pipeline: IngestionPipeline;
   prisma: PrismaClient;
+  workspaces: WorkspaceService;
 }
 
 function getContentType(fileType: string, sourcePath?: string) {
@@ -77,6 +120,10 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
   app,
   opts,
 ) => {
+  const metadataService = new DocumentMetadataService(opts.prisma);
+
+  app.addHook("preHandler", workspaceScope(opts.workspaces));
+
   // ---- POST /upload/init ----
   app.post("/upload/init", async (request, reply) => {
     const schema = z.object({
@@ -85,18 +132,29 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
       hash: z.string().min(1),
       chunkSize: z.number().int().min(1),
       existingUploadId: z.string().uuid().optional(),
+      // 上传时填写的元数据，文档认领后写入并标记为人工设置
+      metadata: documentMetadataSchema.optional(),
     });
     const body = schema.parse(request.body);
+    const workspaceId = request.workspaceId;
+    const indexKey = uploadIndexKey(workspaceId, body.hash);
 
     await fs.mkdir(getUploadsDir(), { recursive: true });
     await fs.mkdir(getChunksRootDir(), { recursive: true });
 
     const index = await loadUploadIndex();
-    const indexed = index[body.hash];
+    const indexed = index[indexKey];
     const databaseDocument = await opts.prisma.document.findUnique({
-      where: { contentHash: body.hash },
+      where: { workspaceId_contentHash: { workspaceId, contentHash: body.hash } },
       select: { id: true, status: true },
     });
+    const access = databaseDocument
+      ? await dedupAccessOf(opts.prisma, documentScopeOf(request), databaseDocument.id)
+      : "manage";
+    if (access === "hidden") {
+      reply.code(409).send({ error: "document_exists_inaccessible" });
+      return;
+    }
     const existing = indexed ?? (databaseDocument
       ? { documentId: databaseDocument.id, sourcePath: join(getUploadsDir(), body.hash) }
       : undefined);
@@ -107,7 +165,7 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
         // 管道未完成 → 清理过期条目，回退到正常上传
         await withIndexLock(async () => {
           const idx = await loadUploadIndex();
-          delete idx[body.hash];
+          delete idx[indexKey];
           await saveUploadIndex(idx);
         });
       } else {
@@ -120,11 +178,12 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
           // 文件不存在 → 清理过期 index 条目，回退到正常上传流程
           await withIndexLock(async () => {
             const idx = await loadUploadIndex();
-            delete idx[body.hash];
+            delete idx[indexKey];
             await saveUploadIndex(idx);
           });
         }
         if (fileExists) {
+          if (body.metadata && access === "manage") await metadataService.update(documentScopeOf(request), existing.documentId, body.metadata);
           const task = opts.pipeline.createCompletedTask({
             documentId: existing.documentId,
             fileName: body.fileName,
@@ -142,6 +201,8 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
     let metadata: Awaited<ReturnType<typeof loadUploadMetadata>> = null;
     if (existingId) {
       metadata = await withUploadLock(existingId, () => loadUploadMetadata(existingId));
+      // 其他工作区的上传会话不可续传，按新上传处理
+      if (metadata && !belongsToWorkspace(metadata, workspaceId)) metadata = null;
       if (metadata && (
         metadata.fileName !== body.fileName
         || metadata.fileSize !== body.fileSize
@@ -151,6 +212,16 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
         reply.code(409).send({ error: "upload_metadata_mismatch" });
         return;
       }
+      if (metadata && body.metadata) {
+        const documentMetadata = toDocumentMetadataJson(body.metadata);
+        metadata = await withUploadLock(existingId, async () => {
+          const current = await loadUploadMetadata(existingId);
+          if (!current) return null;
+          current.documentMetadata = documentMetadata;
+          await saveUploadMetadata(current);
+          return current;
+        });
+      }
     }
 
     if (!metadata) {
@@ -159,6 +230,7 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
       uploadId = randomUUID();
       metadata = {
         id: uploadId,
+        workspaceId,
         fileName: body.fileName,
         fileSize: body.fileSize,
         hash: body.hash,
@@ -167,6 +239,7 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
         receivedChunks: [],
         tempDir,
         createdAt: new Date().toISOString(),
+        ...(body.metadata ? { documentMetadata: toDocumentMetadataJson(body.metadata) } : {}),
       };
       await saveUploadMetadata(metadata);
     }
@@ -190,7 +263,7 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
     const metadata = await withUploadLock(params.uploadId, () =>
       loadUploadMetadata(params.uploadId),
     );
-    if (!metadata) {
+    if (!metadata || !belongsToWorkspace(metadata, request.workspaceId)) {
       reply.code(404).send({ error: "upload_not_found" });
       return;
     }
@@ -227,12 +300,14 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
     const metadata = await withUploadLock(body.uploadId, () =>
       loadUploadMetadata(body.uploadId),
     );
-    if (!metadata) {
+    if (!metadata || !belongsToWorkspace(metadata, request.workspaceId)) {
       reply.code(404).send({ error: "upload_not_found" });
       return;
     }
+    const workspaceId = request.workspaceId;
+    const indexKey = uploadIndexKey(workspaceId, metadata.hash);
     if (metadata.completedResult) {
-      const cachedTask = opts.pipeline.getTask(metadata.completedResult.taskId);
+      const cachedTask = await opts.pipeline.findTask(metadata.completedResult.taskId);
       if (shouldReuseCompletedResult(cachedTask)) {
         reply.send(metadata.completedResult);
         return;
@@ -249,18 +324,35 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
       return;
     }
 
+    const scope = documentScopeOf(request);
+    const databaseDocument = await opts.prisma.document.findUnique({
+      where: { workspaceId_contentHash: { workspaceId, contentHash: metadata.hash } },
+      select: { id: true },
+    });
+    if (databaseDocument && (await dedupAccessOf(opts.prisma, scope, databaseDocument.id)) === "hidden") {
+      reply.code(409).send({ error: "document_exists_inaccessible" });
+      return;
+    }
+
+    // 复用他人可见的文档时不改动其元数据
+    const applyDocumentMetadata = async (documentId: string) => {
+      if (!metadata.documentMetadata) return;
+      if ((await dedupAccessOf(opts.prisma, scope, documentId)) !== "manage") return;
+      await metadataService.update(scope, documentId, documentMetadataSchema.parse(metadata.documentMetadata));
+    };
+
     // 用 index 锁保护「读→改→写」操作，防止并发写损坏
     const result = await withIndexLock(async () => {
       const index = await loadUploadIndex();
 
       // 去重：其他并发上传可能已经完成并写入了同一个 hash
-      const existing = index[metadata.hash];
+      const existing = index[indexKey];
       if (existing?.documentId) {
         // 验证 DB 中文档确实已完成处理
         const ready = await isDocumentReady(opts.prisma, existing.documentId);
         if (!ready) {
           // 管道未完成（上次可能失败）→ 清理过期条目
-          delete index[metadata.hash];
+          delete index[indexKey];
         } else {
           // 确认文件仍在磁盘上（用户可能手动删除）
           let fileExists = false;
@@ -268,10 +360,11 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
             await fs.access(existing.sourcePath);
             fileExists = true;
           } catch {
-            delete index[metadata.hash];
+            delete index[indexKey];
           }
           if (fileExists) {
             await saveUploadIndex(index);
+            await applyDocumentMetadata(existing.documentId);
             return { taskId: null as string | null, documentId: existing.documentId, sourcePath: existing.sourcePath, skipped: true };
           }
           // 文件不存在 → 清理过期条目，回退到正常入库流程
@@ -301,17 +394,21 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
         }
       }
 
-      // 数据库唯一 contentHash 是最终幂等防线；本地 index 仅作为路径缓存。
+      // 数据库 (workspaceId, contentHash) 唯一约束是最终幂等防线；本地 index 仅作为路径缓存。
       const candidateDocumentId = randomUUID();
       const claim = await claimDocument(opts.prisma, {
         id: candidateDocumentId,
+        workspaceId,
+        ownerId: request.user.id,
         contentHash: metadata.hash,
         fileName: metadata.fileName,
         fileType: detectFileType(metadata.fileName),
       });
 
-      index[metadata.hash] = { sourcePath: finalPath, documentId: claim.document.id };
+      index[indexKey] = { sourcePath: finalPath, documentId: claim.document.id };
       await saveUploadIndex(index);
+      // 先于入库任务写入，写库阶段据 manualMetadata 跳过这些字段
+      await applyDocumentMetadata(claim.document.id);
 
       if (claim.action === "ready") {
         return {
@@ -324,7 +421,7 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
 
       // 只有哈希认领者或需要恢复的既有文档才进入处理管道。
       const fileType = detectFileType(metadata.fileName);
-      const task = opts.pipeline.createTask({
+      const task = await opts.pipeline.createTask({
         documentId: claim.document.id,
         contentHash: metadata.hash,
         fileName: metadata.fileName,
@@ -365,8 +462,8 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
   app.get("/tasks/:id", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
-    const task = opts.pipeline.getTask(params.id);
-    if (!task) {
+    const task = await opts.pipeline.findTask(params.id);
+    if (!task || !(await canAccessDocument(opts.prisma, documentScopeOf(request), task.id))) {
       reply.code(404).send({ error: "not found" });
       return;
     }
@@ -377,8 +474,8 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
   app.get("/tasks/:id/text", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
-    const task = opts.pipeline.getTask(params.id);
-    if (!task) {
+    const task = await opts.pipeline.findTask(params.id);
+    if (!task || !(await canAccessDocument(opts.prisma, documentScopeOf(request), task.id))) {
       reply.code(404).send({ error: "not found" });
       return;
     }
@@ -390,8 +487,8 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
   app.get("/tasks/:id/layout", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
-    const task = opts.pipeline.getTask(params.id);
-    if (!task) {
+    const task = await opts.pipeline.findTask(params.id);
+    if (!task || !(await canAccessDocument(opts.prisma, documentScopeOf(request), task.id))) {
       reply.code(404).send({ error: "not found" });
       return;
     }
@@ -415,7 +512,11 @@ export const uploadRoutes: FastifyPluginAsync<UploadPluginOptions> = async (
   app.get("/files/:id", async (request, reply) => {
     const schema = z.object({ id: z.string().uuid() });
     const params = schema.parse(request.params);
-    const task = opts.pipeline.getTask(params.id);
+    if (!(await canAccessDocument(opts.prisma, documentScopeOf(request), params.id))) {
+      reply.code(404).send({ error: "file_source_not_found" });
+      return;
+    }
+    const task = await opts.pipeline.findTask(params.id);
     const index = task ? {} : await loadUploadIndex();
     const sourcePath = resolveDocumentSourcePath(params.id, task, Object.values(index));
     if (!sourcePath) {
@@ -2,9 +2,13 @@ import { createWriteStream, createReadStream, promises as fs } from "fs";
 import { join } from "path";
 import { pipeline as streamPipeline } from "stream/promises";
 import { randomUUID, createHash } from "crypto";
+import type { DocumentMetadataJson } from "../document/types.js";
+import { DEFAULT_WORKSPACE_ID } from "../workspace/types.js";
 
 export interface UploadMetadata {
   id: string;
+  /** 发起上传的工作区；旧版元数据没有此字段，视为默认工作区 */
+  workspaceId?: string;
   fileName: string;
   fileSize: number;
   hash: string;
@@ -13,6 +17,8 @@ export interface UploadMetadata {
   receivedChunks: number[];
   tempDir: string;
   createdAt: string;
+  /** /upload/init 时填写的文档元数据 */
+  documentMetadata?: DocumentMetadataJson;
   completedResult?: {
     taskId: string;
     documentId?: string;
@@ -27,6 +33,14 @@ export interface UploadIndexEntry {
 
 export type UploadIndex = Record<string, UploadIndexEntry>;
 
+/**
+ * upload-index 的键：默认工作区沿用内容哈希（兼容已有索引），其他工作区加上工作区前缀。
+ * 源文件按哈希存储，不同工作区导入同一文件时共用一份。
+ */
+export function uploadIndexKey(workspaceId: string, hash: string): string {
+  return workspaceId === DEFAULT_WORKSPACE_ID ? hash : `${workspaceId}:${hash}`;
+}
+
 export function shouldReuseCompletedResult(
   task: { stage: string } | undefined,
 ): boolean {
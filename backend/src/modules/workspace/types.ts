@@ -0,0 +1,20 @@
+import { z } from "zod";
+
+/** 迁移时创建的默认工作区，承接历史数据，所有用户均可访问 */
+export const DEFAULT_WORKSPACE_ID = "00000000-0000-0000-0000-000000000000";
+
+/** 请求头指定当前工作区，缺省为默认工作区 */
+export const WORKSPACE_HEADER = "x-workspace-id";
+
+export const workspaceIdSchema = z.string().uuid();
+
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+export const addWorkspaceMemberSchema = z.object({
+  userId: z.string().trim().min(1).max(200),
+  role: z.enum(["owner", "member"]).default("member"),
+});
+
+export type WorkspaceRole = z.infer<typeof addWorkspaceMemberSchema>["role"];
@@ -0,0 +1,30 @@
+import type { FastifyPluginAsync } from "fastify";
+import { z } from "zod";
+import type { WorkspaceService } from "./workspace.service.js";
+import { addWorkspaceMemberSchema, createWorkspaceSchema, workspaceIdSchema } from "./types.js";
+
+interface WorkspaceRoutesOptions {
+  workspaces: WorkspaceService;
+}
+
+const workspaceParamsSchema = z.object({ id: workspaceIdSchema });
+
+export const workspaceRoutes: FastifyPluginAsync<WorkspaceRoutesOptions> = async (app, opts) => {
+  // ---- GET /workspaces（当前用户可访问的工作区）----
+  app.get("/workspaces", async (request, reply) => {
+    reply.send({ workspaces: await opts.workspaces.list(request.user) });
+  });
+
+  // ---- POST /workspaces ----
+  app.post("/workspaces", async (request, reply) => {
+    const input = createWorkspaceSchema.parse(request.body ?? {});
+    reply.code(201).send(await opts.workspaces.create(request.user, input));
+  });
+
+  // ---- POST /workspaces/:id/members（添加成员或修改角色）----
+  app.post("/workspaces/:id/members", async (request, reply) => {
+    const params = workspaceParamsSchema.parse(request.params);
+    const input = addWorkspaceMemberSchema.parse(request.body ?? {});
+    reply.send(await opts.workspaces.addMember(request.user, params.id, input));
+  });
+};
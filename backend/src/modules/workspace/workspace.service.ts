@@ -0,0 +1,80 @@
+import type { PrismaClient } from "@prisma/client";
+import { ForbiddenError, NotFoundError, ValidationError } from "../../lib/errors.js";
+import type { AuthUser } from "../../server/plugins/auth.js";
+import { DEFAULT_WORKSPACE_ID, workspaceIdSchema, type WorkspaceRole } from "./types.js";
+
+function isAdmin(user: AuthUser) {
+  return user.roles.includes("admin");
+}
+
+/**
+ * 工作区（知识库）与成员管理。
+ *
+ * 访问规则：admin 角色可访问全部工作区；其他用户可访问默认工作区
+ * 以及自己是成员的工作区。成员管理需要 admin 或该工作区的 owner。
+ */
+export class WorkspaceService {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** 校验用户能否访问请求的工作区，返回生效的工作区 id */
+  async resolve(user: AuthUser, requestedId: string | undefined): Promise<string> {
+    const workspaceId = requestedId?.trim() || DEFAULT_WORKSPACE_ID;
+    if (!workspaceIdSchema.safeParse(workspaceId).success) {
+      throw new ValidationError("工作区 id 格式错误");
+    }
+    const workspace = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { id: true, members: { where: { userId: user.id }, select: { role: true } } },
+    });
+    if (!workspace) throw new NotFoundError("workspace", workspaceId);
+    if (workspaceId !== DEFAULT_WORKSPACE_ID && !isAdmin(user) && workspace.members.length === 0) {
+      throw new ForbiddenError("无权访问该工作区");
+    }
+    return workspace.id;
+  }
+
+  async list(user: AuthUser) {
+    const workspaces = await this.prisma.workspace.findMany({
+      where: isAdmin(user)
+        ? {}
+        : { OR: [{ id: DEFAULT_WORKSPACE_ID }, { members: { some: { userId: user.id } } }] },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        members: { where: { userId: user.id }, select: { role: true } },
+        _count: { select: { documents: { where: { deletedAt: null } } } },
+      },
+    });
+    return workspaces.map(({ members, _count, ...workspace }) => ({
+      ...workspace,
+      role: (members[0]?.role ?? null) as WorkspaceRole | null,
+      documentCount: _count.documents,
+    }));
+  }
+
+  /** 创建者成为 owner */
+  async create(user: AuthUser, input: { name: string }) {
+    return this.prisma.workspace.create({
+      data: { name: input.name, members: { create: { userId: user.id, role: "owner" } } },
+      select: { id: true, name: true, createdAt: true },
+    });
+  }
+
+  async addMember(user: AuthUser, workspaceId: string, input: { userId: string; role: WorkspaceRole }) {
+    const workspace = await this.prisma.workspace.findUnique({
+      where: { id: workspaceId },
+      select: { id: true, members: { where: { userId: user.id }, select: { role: true } } },
+    });
+    if (!workspace) throw new NotFoundError("workspace", workspaceId);
+    if (!isAdmin(user) && workspace.members[0]?.role !== "owner") {
+      throw new ForbiddenError("只有工作区 owner 可以管理成员");
+    }
+    return this.prisma.workspaceMember.upsert({
+      where: { workspaceId_userId: { workspaceId, userId: input.userId } },
+      create: { workspaceId, userId: input.userId, role: input.role },
+      update: { role: input.role },
+    });
+  }
+}
@@ -0,0 +1,56 @@
+import { randomUUID } from "crypto";
+import { Prisma, type PrismaClient } from "@prisma/client";
+import { config } from "../config/env.js";
+import type { ConcurrencyLimiter } from "../lib/concurrencyLimiter.js";
+import type { EmbeddingProvider } from "../embedding/types.js";
+import type { ChunkRecord } from "../modules/search/chunking/chunking.service.js";
+import { EmbeddingBatcher } from "./embeddingBatcher.js";
+
+/** 单条 chunk 送入向量模型的最大字符数 */
+const MAX_INPUT_CHARS = 8000;
+
+/**
+ * 为已落库的 chunk 批量生成向量并写入 ChunkEmbedding。
+ * 入库管线与重建索引共用，每完成一批回调一次进度。
+ */
+export class ChunkEmbeddingWriter {
+  constructor(
+    private readonly prisma: PrismaClient,
+    private readonly provider: EmbeddingProvider,
+    private readonly limiter?: ConcurrencyLimiter,
+  ) {}
+
+  async write(
+    documentId: string,
+    chunks: ChunkRecord[],
+    onProgress?: (completed: number, total: number) => void,
+  ): Promise<void> {
+    const { model, dimension } = this.provider;
+    const batcher = new EmbeddingBatcher(
+      (inputs) => this.provider.embed(inputs),
+      { ...config.embedding.batch, limiter: this.limiter },
+    );
+
+    const total = chunks.length;
+    let completed = 0;
+    const inputs = chunks.map((chunk) =>
+      chunk.content.length > MAX_INPUT_CHARS ? chunk.content.slice(0, MAX_INPUT_CHARS) : chunk.content,
+    );
+    await batcher.embedAll(inputs, async ({ startIndex, embeddings }) => {
+      const rows = embeddings.map((embedding, offset) => {
+        const chunk = chunks[startIndex + offset];
+        if (!embedding || embedding.length === 0) {
+          throw new Error(`chunk_embedding_missing: chunkId=${chunk.id}`);
+        }
+        const embeddingLiteral = `[${embedding.join(",")}]`;
+        return Prisma.sql`(${randomUUID()}, ${chunk.id}, ${documentId}, ${embeddingLiteral}::vector, ${model}, ${dimension})`;
+      });
+      await this.prisma.$executeRaw`
+        INSERT INTO "ChunkEmbedding" ("id", "chunkId", "documentId", "embedding", "model", "dimension")
+        VALUES ${Prisma.join(rows)}
+      `;
+      completed += embeddings.length;
+      onProgress?.(completed, total);
+    });
+  }
+}
@@ -0,0 +1,240 @@
+import { describe, expect, it, vi } from "vitest";
+import { EmbeddingBatcher, type EmbeddedBatch, type EmbeddingBatcherOptions } from "./embeddingBatcher.js";
+
+/** 输入为数字字符串，向量即 [该数字]，便于核对顺序 */
+function inputsOf(count: number): string[] {
+  return Array.from({ length: count }, (_, i) => String(i));
+}
+
+function vectorsOf(inputs: string[]): number[][] {
+  return inputs.map((input) => [Number(input)]);
+}
+
+function httpError(status: number, message = `http_${status}`, headers?: Record<string, string>) {
+  return Object.assign(new Error(message), { status, headers });
+}
+
+/** 假的向量服务：按调用次序依次执行 responses 中的行为，用完后正常返回 */
+function fakeProvider(...responses: ((inputs: string[]) => Promise<number[][]>)[]) {
+  const calls: string[][] = [];
+  const embed = vi.fn(async (inputs: string[]) => {
+    calls.push(inputs);
+    const respond = responses[calls.length - 1];
+    return respond ? respond(inputs) : vectorsOf(inputs);
+  });
+  return { embed, calls, sizes: () => calls.map((inputs) => inputs.length) };
+}
+
+function fail(error: unknown) {
+  return async (): Promise<number[][]> => {
+    throw error;
+  };
+}
+
+function batcherOf(embed: (inputs: string[]) => Promise<number[][]>, options: Partial<EmbeddingBatcherOptions> = {}) {
+  const sleeps: number[] = [];
+  const batcher = new EmbeddingBatcher(embed, {
+    maxBatchSize: 4,
+    maxBatchChars: 1000,
+    concurrency: 1,
+    maxRetries: 2,
+    sleep: async (milliseconds) => {
+      sleeps.push(milliseconds);
+    },
+    ...options,
+  });
+  return { batcher, sleeps };
+}
+
+async function collect(batcher: EmbeddingBatcher, inputs: string[]) {
+  const batches: EmbeddedBatch[] = [];
+  await batcher.embedAll(inputs, async (batch) => {
+    batches.push(batch);
+  });
+  return batches;
+}
+
+describe("EmbeddingBatcher 切批", () => {
+  it("按条数与字符数切批，回调带本批起始下标", async () => {
+    const provider = fakeProvider();
+    const { batcher } = batcherOf(provider.embed, { maxBatchSize: 3, maxBatchChars: 10 });
+    const inputs = ["a", "b", "c", "d", "0123456789", "e"];
+
+    const batches = await collect(batcher, inputs);
+
+    expect(provider.calls).toEqual([["a", "b", "c"], ["d"], ["0123456789"], ["e"]]);
+    expect(batches.map((batch) => batch.startIndex)).toEqual([0, 3, 4, 5]);
+  });
+
+  it("单条超过字符上限时仍单独成批", async () => {
+    const provider = fakeProvider();
+    const { batcher } = batcherOf(provider.embed, { maxBatchChars: 2 });
+
+    await collect(batcher, ["long text", "x"]);
+
+    expect(provider.calls).toEqual([["long text"], ["x"]]);
+  });
+});
+
+describe("EmbeddingBatcher 自适应批大小", () => {
+  it("429 时批大小减半并按 retry-after 等待，连续成功 3 批后恢复", async () => {
+    const provider = fakeProvider(fail(httpError(429, "rate_limited", { "retry-after": "2" })));
+    const { batcher, sleeps } = batcherOf(provider.embed);
+
+    const batches = await collect(batcher, inputsOf(16));
+
+    expect(provider.sizes()).toEqual([4, 4, 2, 2, 4, 4]);
+    expect(sleeps).toEqual([2000]);
+    expect(batches.flatMap((batch) => batch.embeddings)).toEqual(vectorsOf(inputsOf(16)));
+  });
+
+  it("批大小不会超过上限", async () => {
+    const provider = fakeProvider();
+    const { batcher } = batcherOf(provider.embed, { maxBatchSize: 2 });
+
+    await collect(batcher, inputsOf(12));
+
+    expect(Math.max(...provider.sizes())).toBe(2);
+  });
+});
+
+describe("EmbeddingBatcher 请求体过大", () => {
+  it("413 时二分拆批，结果按原顺序合并为一批回调", async () => {
+    const provider = fakeProvider();
+    provider.embed.mockImplementation(async (inputs: string[]) => {
+      provider.calls.push(inputs);
+      if (inputs.length > 1) throw httpError(413);
+      return vectorsOf(inputs);
+    });
+    const { batcher, sleeps } = batcherOf(provider.embed);
+
+    const batches = await collect(batcher, inputsOf(4));
+
+    expect(provider.sizes()).toEqual([4, 2, 1, 1, 2, 1, 1]);
+    expect(batches).toEqual([{ startIndex: 0, embeddings: vectorsOf(inputsOf(4)) }]);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("400 且提示超长时同样拆批", async () => {
+    const provider = fakeProvider(fail(httpError(400, "Input is too long for this model")));
+    const { batcher } = batcherOf(provider.embed);
+
+    await collect(batcher, inputsOf(2));
+
+    expect(provider.sizes()).toEqual([2, 1, 1]);
+  });
+
+  it("拆到单条仍过大时放弃", async () => {
+    const provider = fakeProvider(fail(httpError(413)), fail(httpError(413)));
+    const { batcher } = batcherOf(provider.embed);
+
+    await expect(collect(batcher, ["a", "b"])).rejects.toMatchObject({ status: 413 });
+    expect(provider.sizes()).toEqual([2, 1]);
+  });
+});
+
+describe("EmbeddingBatcher 重试", () => {
+  it.each([
+    ["408", httpError(408)],
+    ["5xx", httpError(503)],
+    ["连接重置", Object.assign(new TypeError("fetch failed"), { cause: Object.assign(new Error("socket"), { code: "ECONNRESET" }) })],
+    ["超时", Object.assign(new Error("timeout"), { name: "TimeoutError" })],
+  ])("%s 会重试", async (_, error) => {
+    const provider = fakeProvider(fail(error));
+    const { batcher, sleeps } = batcherOf(provider.embed);
+
+    await collect(batcher, inputsOf(2));
+
+    expect(provider.sizes()).toEqual([2, 2]);
+    expect(sleeps).toHaveLength(1);
+  });
+
+  it.each([
+    ["401", httpError(401)],
+    ["普通 400", httpError(400, "invalid model")],
+    ["没有状态码的确定性错误", new Error("embedding_dimension_mismatch")],
+  ])("%s 不重试", async (_, error) => {
+    const provider = fakeProvider(fail(error));
+    const { batcher, sleeps } = batcherOf(provider.embed);
+
+    await expect(collect(batcher, inputsOf(2))).rejects.toBe(error);
+    expect(provider.sizes()).toEqual([2]);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("超过最大重试次数后抛出", async () => {
+    const provider = fakeProvider(fail(httpError(503)), fail(httpError(503)), fail(httpError(503)));
+    const { batcher, sleeps } = batcherOf(provider.embed, { maxRetries: 2 });
+
+    await expect(collect(batcher, inputsOf(1))).rejects.toMatchObject({ status: 503 });
+    expect(provider.sizes()).toEqual([1, 1, 1]);
+    expect(sleeps).toHaveLength(2);
+  });
+
+  it("返回条数与输入不符时不重试", async () => {
+    const provider = fakeProvider(async () => [[1]]);
+    const { batcher } = batcherOf(provider.embed);
+
+    await expect(collect(batcher, inputsOf(2))).rejects.toThrow("embedding_batch_mismatch");
+    expect(provider.sizes()).toEqual([2]);
+  });
+});
+
+describe("EmbeddingBatcher 并发失败", () => {
+  it("一批最终失败后其他 worker 不再领取新批、不再回调，全部停下后才抛错", async () => {
+    let release!: () => void;
+    const pending = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const fatal = httpError(401);
+    const provider = fakeProvider(
+      async (inputs) => {
+        await pending;
+        return vectorsOf(inputs);
+      },
+      fail(fatal),
+    );
+    const { batcher } = batcherOf(provider.embed, { maxBatchSize: 1, concurrency: 2 });
+    const onBatch = vi.fn(async () => undefined);
+
+    let settled = false;
+    const done = batcher.embedAll(inputsOf(10), onBatch).finally(() => {
+      settled = true;
+    });
+    await vi.waitFor(() => expect(provider.embed).toHaveBeenCalledTimes(2));
+    await Promise.resolve();
+    expect(settled).toBe(false);
+
+    release();
+    await expect(done).rejects.toBe(fatal);
+    expect(provider.embed).toHaveBeenCalledTimes(2);
+    expect(onBatch).not.toHaveBeenCalled();
+  });
+
+  it("其他批次失败时中止正在退避等待的重试", async () => {
+    const fatal = httpError(401);
+    const provider = fakeProvider(fail(httpError(503)), fail(fatal));
+    const sleep = vi.fn(
+      (_: number, signal: AbortSignal) =>
+        new Promise<void>((_resolve, reject) => {
+          signal.addEventListener("abort", () => reject(signal.reason));
+        }),
+    );
+    const { batcher } = batcherOf(provider.embed, { maxBatchSize: 1, concurrency: 2, sleep });
+
+    await expect(batcher.embedAll(inputsOf(4), async () => undefined)).rejects.toBe(fatal);
+    expect(sleep).toHaveBeenCalledTimes(1);
+    expect(provider.embed).toHaveBeenCalledTimes(2);
+  });
+
+  it("回调失败同样停止其他 worker", async () => {
+    const provider = fakeProvider();
+    const { batcher } = batcherOf(provider.embed, { maxBatchSize: 1, concurrency: 2 });
+    const onBatch = vi.fn(async () => {
+      throw new Error("insert_failed");
+    });
+
+    await expect(batcher.embedAll(inputsOf(10), onBatch)).rejects.toThrow("insert_failed");
+    expect(provider.embed.mock.calls.length).toBeLessThanOrEqual(2);
+  });
+});
@@ -0,0 +1,195 @@
+import { setTimeout as delay } from "timers/promises";
+import type { ConcurrencyLimiter } from "../lib/concurrencyLimiter.js";
+
+/** 退避等待；signal 中止时应尽快以错误结束 */
+type Sleep = (milliseconds: number, signal: AbortSignal) => Promise<void>;
+
+/** 一次批量请求：输入若干文本，按相同顺序返回向量 */
+export type EmbedBatch = (inputs: string[]) => Promise<number[][]>;
+
+export interface EmbeddingBatcherOptions {
+  /** 单批最多条数（自适应调整的上限） */
+  maxBatchSize: number;
+  /** 单批最多字符数，长文本自动分到更小的批次 */
+  maxBatchChars: number;
+  /** 同一文档同时在途的批次数 */
+  concurrency: number;
+  /** 429 / 5xx / 网络错误的最大重试次数 */
+  maxRetries: number;
+  /** 跨任务共享的网络并发限制 */
+  limiter?: ConcurrencyLimiter;
+  sleep?: Sleep;
+}
+
+export interface EmbeddedBatch {
+  /** 本批第一条在输入中的下标 */
+  startIndex: number;
+  embeddings: number[][];
+}
+
+/** 连续成功多少批后尝试把批大小翻倍 */
+const GROW_AFTER_SUCCESSES = 3;
+const MAX_BACKOFF_MS = 30_000;
+
+/**
+ * 批量向量生成。
+ *
+ * - 按条数与字符数切批，批大小自适应：限流时减半，连续成功后逐步恢复
+ * - 请求体过大（413 / 超长）时把当前批拆成两半重试
+ * - 429 / 5xx / 网络错误指数退避重试，优先遵循 retry-after
+ * - 每完成一批回调一次，调用方据此批量写库与上报进度
+ * - 任一批次最终失败后其余并发批次不再领取新批、不再重试或回调，全部停下后抛出该错误
+ */
+export class EmbeddingBatcher {
+  private batchSize: number;
+  private successStreak = 0;
+  private readonly sleep: Sleep;
+
+  constructor(
+    private readonly embed: EmbedBatch,
+    private readonly options: EmbeddingBatcherOptions,
+  ) {
+    this.batchSize = options.maxBatchSize;
+    this.sleep = options.sleep ?? ((milliseconds, signal) => delay(milliseconds, undefined, { signal }));
+  }
+
+  async embedAll(inputs: string[], onBatch: (batch: EmbeddedBatch) => Promise<void>): Promise<void> {
+    const controller = new AbortController();
+    const { signal } = controller;
+    let failure: unknown;
+    let cursor = 0;
+    const takeBatch = () => {
+      if (signal.aborted || cursor >= inputs.length) return null;
+      const startIndex = cursor;
+      let chars = 0;
+      while (cursor < inputs.length && cursor - startIndex < this.batchSize) {
+        const length = inputs[cursor].length;
+        // 至少放入一条，避免单条超长时死循环
+        if (cursor > startIndex && chars + length > this.options.maxBatchChars) break;
+        chars += length;
+        cursor += 1;
+      }
+      return { startIndex, items: inputs.slice(startIndex, cursor) };
+    };
+
+    const worker = async () => {
+      try {
+        for (let batch = takeBatch(); batch; batch = takeBatch()) {
+          const { startIndex, items } = batch;
+          const embeddings = await this.embedSplitting(items, signal);
+          // 其他批次已失败：任务即将标记为失败，不再写入
+          if (signal.aborted) return;
+          await onBatch({ startIndex, embeddings });
+        }
+      } catch (error) {
+        if (signal.aborted) return;
+        failure = error;
+        controller.abort();
+      }
+    };
+    // 等所有 worker 停下再抛错，避免调用方处理失败时仍有批次在写库
+    await Promise.all(Array.from({ length: Math.max(1, this.options.concurrency) }, worker));
+    if (signal.aborted) throw failure;
+  }
+
+  /** 请求体过大时二分拆批，拆到单条仍失败才放弃 */
+  private async embedSplitting(items: string[], signal: AbortSignal): Promise<number[][]> {
+    try {
+      return await this.embedWithRetry(items, signal);
+    } catch (error) {
+      if (!isPayloadTooLarge(error) || items.length === 1) throw error;
+      this.shrink();
+      const middle = Math.ceil(items.length / 2);
+      const head = await this.embedSplitting(items.slice(0, middle), signal);
+      const tail = await this.embedSplitting(items.slice(middle), signal);
+      return [...head, ...tail];
+    }
+  }
+
+  private async embedWithRetry(items: string[], signal: AbortSignal): Promise<number[][]> {
+    for (let attempt = 0; ; attempt++) {
+      signal.throwIfAborted();
+      try {
+        const run = () => this.embed(items);
+        const embeddings = await (this.options.limiter ? this.options.limiter.run(run) : run());
+        if (embeddings.length !== items.length) {
+          throw new Error(`embedding_batch_mismatch: expected=${items.length} actual=${embeddings.length}`);
+        }
+        this.recordSuccess();
+        return embeddings;
+      } catch (error) {
+        const status = errorStatus(error);
+        if (!isRetryable(error, status) || attempt >= this.options.maxRetries) throw error;
+        if (status === 429) this.shrink();
+        const retryAfter = retryAfterMs(error);
+        const backoff = Math.min(MAX_BACKOFF_MS, 500 * 2 ** attempt) + Math.floor(Math.random() * 250);
+        await this.sleep(retryAfter ?? backoff, signal);
+      }
+    }
+  }
+
+  private shrink() {
+    this.batchSize = Math.max(1, Math.floor(this.batchSize / 2));
+    this.successStreak = 0;
+  }
+
+  private recordSuccess() {
+    this.successStreak += 1;
+    if (this.successStreak >= GROW_AFTER_SUCCESSES && this.batchSize < this.options.maxBatchSize) {
+      this.batchSize = Math.min(this.options.maxBatchSize, this.batchSize * 2);
+      this.successStreak = 0;
+    }
+  }
+}
+
+function errorStatus(error: unknown): number | undefined {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/** 网络层的瞬时故障（连接重置 / 超时等）；其余没有状态码的错误（维度不符、响应解析失败等）是确定性的 */
+const TRANSIENT_ERROR_CODES = new Set([
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EPIPE",
+  "EAI_AGAIN",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+]);
+const TRANSIENT_ERROR_NAMES = new Set(["AbortError", "TimeoutError", "APIConnectionError", "APIConnectionTimeoutError"]);
+
+/** 沿 cause 链查找传输层错误：fetch 把底层 socket 错误包在 TypeError("fetch failed") 的 cause 里 */
+function isTransportError(error: unknown): boolean {
+  for (let current = error, depth = 0; current && depth < 4; depth += 1) {
+    const { code, name, message, cause } = current as { code?: unknown; name?: unknown; message?: unknown; cause?: unknown };
+    if (typeof code === "string" && TRANSIENT_ERROR_CODES.has(code)) return true;
+    if (typeof name === "string" && TRANSIENT_ERROR_NAMES.has(name)) return true;
+    if (message === "fetch failed") return true;
+    current = cause;
+  }
+  return false;
+}
+
+function isRetryable(error: unknown, status: number | undefined): boolean {
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  return isTransportError(error);
+}
+
+function isPayloadTooLarge(error: unknown): boolean {
+  const status = errorStatus(error);
+  if (status === 413) return true;
+  if (status !== 400) return false;
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  return /too (large|long|many)|maximum|token/.test(message);
+}
+
+function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { headers?: Record<string, string | undefined> } | null)?.headers;
+  const value = headers?.["retry-after"];
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.min(MAX_BACKOFF_MS, Math.max(0, seconds * 1000));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.min(MAX_BACKOFF_MS, Math.max(0, date - Date.now()));
+}
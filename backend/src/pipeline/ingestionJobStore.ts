@@ -0,0 +1,161 @@
+import type { IngestionJob, PrismaClient } from "@prisma/client";
+import type { IngestionStage, IngestionTask } from "./types.js";
+
+const SETTLED_STAGES: IngestionStage[] = ["queued", "completed", "failed"];
+
+/**
+ * IngestionJob 表的读写封装。
+ *
+ * 队列状态以数据库为准：stage = "queued" 且 startedAt 为空的任务可被认领，
+ * 认领通过条件更新 startedAt 完成，保证同一任务只会被一个 worker 执行。
+ */
+export class IngestionJobStore {
+  constructor(private readonly prisma: PrismaClient) {}
+
+  /** 入队（新建或重置一个任务），重复上传失败文档时会清空上次的执行痕迹 */
+  async enqueue(task: IngestionTask): Promise<IngestionJob> {
+    const data = {
+      contentHash: task.contentHash ?? null,
+      fileName: task.fileName,
+      fileType: task.fileType,
+      sourcePath: task.sourcePath,
+      stage: "queued",
+      lastCompletedStage: null,
+      progress: 0,
+      error: null,
+      attempts: 0,
+      startedAt: null,
+      completedAt: null,
+    };
+    return this.prisma.ingestionJob.upsert({
+      where: { id: task.id },
+      create: { id: task.id, ...data },
+      update: data,
+    });
+  }
+
+  /** 记录一个已完成的任务（去重命中既有文档时使用） */
+  async recordCompleted(task: IngestionTask): Promise<void> {
+    const now = new Date();
+    await this.prisma.ingestionJob.upsert({
+      where: { id: task.id },
+      create: {
+        id: task.id,
+        fileName: task.fileName,
+        fileType: task.fileType,
+        sourcePath: task.sourcePath,
+        stage: "completed",
+        progress: 100,
+        completedAt: now,
+      },
+      update: { stage: "completed", progress: 100, error: null, completedAt: now },
+    });
+  }
+
+  /** 认领最早入队的任务；并发认领失败时继续尝试下一个 */
+  async claimNext(): Promise<IngestionJob | null> {
+    for (;;) {
+      const candidate = await this.prisma.ingestionJob.findFirst({
+        where: { stage: "queued", startedAt: null },
+        orderBy: { createdAt: "asc" },
+      });
+      if (!candidate) return null;
+      const startedAt = new Date();
+      const claimed = await this.prisma.ingestionJob.updateMany({
+        where: { id: candidate.id, stage: "queued", startedAt: null },
+        data: { startedAt, attempts: { increment: 1 } },
+      });
+      if (claimed.count === 1) {
+        return { ...candidate, startedAt, attempts: candidate.attempts + 1 };
+      }
+    }
+  }
+
+  /** 按入队顺序列出尚未被认领的任务 id，用于计算排队位置 */
+  async listQueuedIds(): Promise<string[]> {
+    const rows = await this.prisma.ingestionJob.findMany({
+      where: { stage: "queued", startedAt: null },
+      orderBy: { createdAt: "asc" },
+      select: { id: true },
+    });
+    return rows.map((row) => row.id);
+  }
+
+  async find(id: string): Promise<IngestionJob | null> {
+    return this.prisma.ingestionJob.findUnique({ where: { id } });
+  }
+
+  async updateStage(id: string, stage: IngestionStage, progress: number): Promise<void> {
+    await this.prisma.ingestionJob.updateMany({
+      where: { id },
+      data: {
+        stage,
+        progress,
+        ...(stage === "completed" ? { completedAt: new Date(), error: null } : {}),
+      },
+    });
+  }
+
+  async markStageCompleted(id: string, stage: IngestionStage): Promise<void> {
+    await this.prisma.ingestionJob.updateMany({
+      where: { id },
+      data: { lastCompletedStage: stage },
+    });
+  }
+
+  async markFailed(id: string, error: string, progress: number): Promise<void> {
+    await this.prisma.ingestionJob.updateMany({
+      where: { id },
+      data: { stage: "failed", error, progress, completedAt: new Date() },
+    });
+  }
+
+  /**
+   * 服务启动时回收被中断的任务：未到终态的任务重新入队，
+   * 已达到最大尝试次数的任务标记为失败（避免崩溃循环）。
+   */
+  async requeueInterrupted(maxAttempts: number): Promise<{ requeued: string[]; failed: string[] }> {
+    const interrupted = await this.prisma.ingestionJob.findMany({
+      where: {
+        OR: [
+          { stage: { notIn: SETTLED_STAGES } },
+          { stage: "queued", startedAt: { not: null } },
+        ],
+      },
+      select: { id: true, attempts: true },
+    });
+    const requeued: string[] = [];
+    const failed: string[] = [];
+    for (const job of interrupted) {
+      if (job.attempts >= maxAttempts) {
+        await this.markFailed(job.id, `ingestion_interrupted: attempts=${job.attempts}`, 0);
+        failed.push(job.id);
+        continue;
+      }
+      await this.prisma.ingestionJob.update({
+        where: { id: job.id },
+        data: { stage: "queued", startedAt: null },
+      });
+      requeued.push(job.id);
+    }
+    return { requeued, failed };
+  }
+}
+
+export function jobToTask(job: IngestionJob): IngestionTask {
+  return {
+    id: job.id,
+    contentHash: job.contentHash ?? undefined,
+    fileName: job.fileName,
+    fileType: job.fileType as IngestionTask["fileType"],
+    sourcePath: job.sourcePath,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    stage: job.stage as IngestionStage,
+    lastCompletedStage: (job.lastCompletedStage ?? undefined) as IngestionStage | undefined,
+    progress: job.progress,
+    attempts: job.attempts,
+    ...(job.error ? { error: job.error } : {}),
+    meta: {},
+  };
+}
@@ -1,7 +1,6 @@
-import { randomUUID } from "crypto";
 import { promises as fs } from "fs";
 import type { Prisma } from "@prisma/client";
-import OpenAI from "openai";
+import { logger } from "../lib/logger.js";
 import type {
   IngestionTask,
   IngestionStage,
@@ -19,56 +18,129 @@ import {
 import { extractTextPagesFromHtml, extractTextPagesFromPlainText } from "../text/textExtractor.js";
 import { extractTextPagesFromPptx } from "../pptx/textExtractor.js";
 import { ChunkingService, type ChunkRecord } from "../modules/search/chunking/chunking.service.js";
+import { documentLexicalStats } from "../modules/search/lexical/lexical-terms.js";
+import { IngestionJobStore, jobToTask } from "./ingestionJobStore.js";
+import { ConcurrencyLimiter } from "../lib/concurrencyLimiter.js";
+import { ChunkEmbeddingWriter } from "./chunkEmbeddingWriter.js";
+import type { EmbeddingProvider } from "../embedding/types.js";
+import { createEmbeddingProvider } from "../embedding/createEmbeddingProvider.js";
+import { config } from "../config/env.js";
+import { extractNativeMetadata, type NativeDocumentMetadata } from "../document-parsing/nativeMetadata.js";
+import { normalizeTags } from "../modules/document/types.js";
+import { buildSectionPaths } from "../modules/document/section-path.js";
+import {
+  DocumentMetadataInferrer,
+  type InferableMetadataField,
+  type InferredDocumentMetadata,
+} from "./metadataInference.js";
 
 type StageHandler = (task: IngestionTask) => Promise<void>;
 
+/** extracting_text 阶段的产物，写入 `<sourcePath>.parsed.json` */
+type PersistedParsedArtifacts = {
+  parsedDocument?: unknown;
+  textPages?: unknown;
+  layoutPages?: unknown;
+  docxParagraphs?: unknown;
+  docxHtml?: string;
+  parseWarnings?: unknown;
+  nativeMetadata?: NativeDocumentMetadata;
+};
+
 function sanitizePostgresText(text: string) {
   return text.replace(/\u0000/g, "");
 }
 
+/** 自动提取的标签上限，人工编辑不受此限制 */
+const MAX_EXTRACTED_TAGS = 10;
+
+/** 合并文件自带元数据与 LLM 推断结果，前者优先 */
 function buildExtractedDocumentMetadata(
   fileName: string,
   fileType: IngestionTask["fileType"],
+  native: NativeDocumentMetadata | undefined,
+  inferred: InferredDocumentMetadata,
 ): ExtractedDocumentMetadata | null {
   if (fileType === "image" || fileType === "zip") return null;
+  const extractedFrom: ExtractedDocumentMetadata["extractedFrom"] = {};
+  const pick = <T>(field: keyof ExtractedDocumentMetadata["extractedFrom"], nativeValue?: T, inferredValue?: T) => {
+    if (nativeValue !== undefined) extractedFrom[field] = "native";
+    else if (inferredValue !== undefined) extractedFrom[field] = "llm";
+    return nativeValue ?? inferredValue ?? null;
+  };
+  const nativeTags = native?.keywords.length ? native.keywords : undefined;
   return {
     sourceLabel: fileName,
-    publishedAt: null,
-    tags: [],
+    title: pick("title", native?.title, inferred.title),
+    author: pick("author", native?.author, inferred.author),
+    publishedAt: pick("publishedAt", native?.publishedAt, inferred.publishedAt),
+    tags: normalizeTags(pick("tags", nativeTags, inferred.tags) ?? []).slice(0, MAX_EXTRACTED_TAGS),
     fileType,
+    extractedFrom,
   };
 }
 
+/**
+ * CPU 密集阶段，整段受 cpuLimiter 限制；
+ * 网络密集的工作（向量生成、上下文前缀）按单次请求受 networkLimiter 限制。
+ */
+const CPU_STAGES = new Set<IngestionStage>(["extracting_text", "layout_analysis"]);
+
+/** 参与 ETA 估算的最近完成任务数 */
+const DURATION_SAMPLE_SIZE = 20;
+
+/** 各文件类型需要执行的阶段（顺序即执行顺序） */
+function planStages(fileType: IngestionTask["fileType"]): IngestionStage[] {
+  const isPdf = fileType === "pdf";
+  return [
+    "extracting_text",
+    ...(isPdf ? ["layout_analysis" as const] : []),
+    "generating_text_embeddings",
+    ...(isPdf ? ["generating_image_embeddings" as const] : []),
+    "writing_database",
+  ];
+}
+
 export class IngestionPipeline {
+  /** 内存中的任务缓存（含 meta 等运行期数据）；队列本身以 IngestionJob 表为准 */
   private tasks = new Map<string, IngestionTask>();
-  private queue: IngestionTask[] = [];
-  private running = false;
+  private activeWorkers = 0;
+  private wakeRequested = false;
+  private readonly workerCount: number;
+  private readonly cpuLimiter: ConcurrencyLimiter;
+  /** 网络调用共享的限流器：向量生成与 ChunkingService 上下文前缀共用 */
+  private readonly networkLimiter: ConcurrencyLimiter;
+  private readonly embeddingWriter: ChunkEmbeddingWriter;
+  private readonly metadataInferrer: DocumentMetadataInferrer | null;
+  /** 最近完成任务的耗时（毫秒），用于估算排队 ETA */
+  private recentDurations: number[] = [];
   private progressEmitter: ProgressEmitter;
-  private openai: OpenAI;
-  private embeddingModel: string;
+
+  /** 单个任务被中断后最多重新执行的次数 */
+  private static readonly MAX_ATTEMPTS = 3;
 
   constructor(
     progressEmitter: ProgressEmitter,
     private readonly parserRegistry: ParserRegistry = createDefaultParserRegistry(),
+    private readonly jobStore: IngestionJobStore = new IngestionJobStore(prisma),
+    embeddingProvider: EmbeddingProvider = createEmbeddingProvider(),
   ) {
     this.progressEmitter = progressEmitter;
-    this.openai = new OpenAI({
-      baseURL: process.env.OPENAI_BASE_URL,
-      apiKey: process.env.OPENAI_API_KEY,
-      timeout: 4 * 60 * 1000, // 4 分钟超时，低于阶段超时的 5 分钟
-      maxRetries: 1,
-    });
-    this.embeddingModel =
-      process.env.OPENAI_EMBEDDING_MODEL || "embedding-2";
+    const ingestion = config.ingestion;
+    this.workerCount = ingestion.workers;
+    this.cpuLimiter = new ConcurrencyLimiter(ingestion.cpuConcurrency);
+    this.networkLimiter = new ConcurrencyLimiter(ingestion.networkConcurrency);
+    this.embeddingWriter = new ChunkEmbeddingWriter(prisma, embeddingProvider, this.networkLimiter);
+    this.metadataInferrer = ingestion.inferMetadataWithLlm ? new DocumentMetadataInferrer() : null;
   }
 
-  createTask(params: {
+  async createTask(params: {
     documentId: string;
     contentHash: string;
     fileName: string;
     fileType: "pdf" | "docx" | "text" | "html" | "pptx" | "image" | "zip";
     sourcePath: string;
-  }): IngestionTask {
+  }): Promise<IngestionTask> {
     const existing = this.tasks.get(params.documentId);
     if (existing && existing.stage !== "failed") return existing;
 
@@ -86,12 +158,15 @@ export class IngestionPipeline {
       meta: {},
     };
     this.tasks.set(task.id, task);
-    this.enqueue(task);
+    // 先落库再入队：进程在此之后任何时刻退出，任务都能在重启时恢复
+    await this.jobStore.enqueue(task);
     this.progressEmitter.emit(task.id, {
       stage: task.stage,
       progress: task.progress,
       message: "queued",
     });
+    this.wake();
+    await this.publishQueuePositions();
     return task;
   }
 
@@ -99,6 +174,42 @@ export class IngestionPipeline {
     return this.tasks.get(taskId);
   }
 
+  /** 从内存缓存中移除任务（文档被彻底删除后调用） */
+  forgetTask(taskId: string) {
+    this.tasks.delete(taskId);
+  }
+
+  /** 先查内存，未命中时从 IngestionJob 表恢复（服务重启后 GET /tasks/:id 仍可用） */
+  async findTask(taskId: string): Promise<IngestionTask | undefined> {
+    const cached = this.tasks.get(taskId);
+    if (cached) return cached;
+    const job = await this.jobStore.find(taskId);
+    if (!job) return undefined;
+    const task = jobToTask(job);
+    // 未到终态的任务可能正被其他 worker 推进，只缓存终态任务
+    if (task.stage === "completed" || task.stage === "failed") {
+      this.tasks.set(task.id, task);
+    }
+    return task;
+  }
+
+  /**
+   * 启动时恢复被中断的任务：重新入队后从最后完成的阶段继续执行。
+   */
+  async resumeInterrupted() {
+    const { requeued, failed } = await this.jobStore.requeueInterrupted(IngestionPipeline.MAX_ATTEMPTS);
+    if (failed.length > 0) {
+      await prisma.document.updateMany({
+        where: { id: { in: failed } },
+        data: { status: "failed" },
+      });
+    }
+    if (requeued.length > 0 || failed.length > 0) {
+      logger.info({ requeued: requeued.length, failed: failed.length }, "ingestion resume");
+    }
+    this.wake();
+  }
+
   /** 创建一个已完成的任务（用于去重时直接返回既有文档） */
   createCompletedTask(params: {
     documentId: string;
@@ -131,6 +242,9 @@ export class IngestionPipeline {
       progress: 100,
     };
     this.tasks.set(task.id, task);
+    this.jobStore.recordCompleted(task).catch((err) =>
+      logger.error({ err, taskId: task.id }, "failed to persist completed ingestion job"),
+    );
     // 发射完成事件，前端通过 Socket.IO 接收后停止 waiting
     this.progressEmitter.emit(task.id, {
       stage: "completed",
@@ -160,52 +274,131 @@ export class IngestionPipeline {
     return task;
   }
 
-  private enqueue(task: IngestionTask) {
-    this.queue.push(task);
-    this.runNext();
+  /** 补足空闲 worker；每个 worker 循环认领任务直到队列为空 */
+  private wake() {
+    this.wakeRequested = true;
+    while (this.activeWorkers < this.workerCount) {
+      this.activeWorkers += 1;
+      void this.runWorker().finally(() => {
+        this.activeWorkers -= 1;
+      });
+    }
   }
 
-  private async runNext() {
-    if (this.running) return;
-    const task = this.queue.shift();
-    if (!task) return;
-    this.running = true;
+  private async runWorker() {
     try {
-      await this.runTask(task);
-    } finally {
-      this.running = false;
-      if (this.queue.length > 0) {
-        this.runNext();
+      for (;;) {
+        this.wakeRequested = false;
+        const job = await this.jobStore.claimNext();
+        if (!job) {
+          // 认领期间有新任务入队时再查一次，避免丢失唤醒
+          if (this.wakeRequested) continue;
+          break;
+        }
+        const cached = this.tasks.get(job.id);
+        const task = cached ?? jobToTask(job);
+        task.lastCompletedStage = (job.lastCompletedStage ?? undefined) as IngestionStage | undefined;
+        task.attempts = job.attempts;
+        task.error = undefined;
+        task.queuePosition = undefined;
+        this.tasks.set(task.id, task);
+        // 队首被取走，其余排队任务的位置前移
+        await this.publishQueuePositions();
+        await this.runTask(task);
       }
+    } catch (err) {
+      logger.error({ err }, "ingestion queue polling failed");
     }
   }
 
+  /** 平均单任务耗时（秒）；尚无样本时返回 undefined */
+  private averageTaskSeconds(): number | undefined {
+    if (this.recentDurations.length === 0) return undefined;
+    const total = this.recentDurations.reduce((sum, ms) => sum + ms, 0);
+    return total / this.recentDurations.length / 1000;
+  }
+
+  /** 运行中任务的剩余时间估算：按平均耗时与当前进度线性外推 */
+  private estimateRemainingSeconds(progress: number): number | undefined {
+    const average = this.averageTaskSeconds();
+    if (average === undefined) return undefined;
+    return Math.max(0, Math.round(average * (1 - progress / 100)));
+  }
+
+  /**
+   * 向所有排队任务推送排队位置与 ETA。
+   * ETA 为粗略估算：前面的任务按 worker 数分批执行，每批耗时取最近任务的平均值。
+   */
+  private async publishQueuePositions() {
+    let queuedIds: string[];
+    try {
+      queuedIds = await this.jobStore.listQueuedIds();
+    } catch (err) {
+      logger.error({ err }, "failed to load ingestion queue positions");
+      return;
+    }
+    const average = this.averageTaskSeconds();
+    queuedIds.forEach((id, index) => {
+      const queuePosition = index + 1;
+      const etaSeconds = average === undefined
+        ? undefined
+        : Math.round((Math.floor(index / this.workerCount) + 1) * average);
+      const task = this.tasks.get(id);
+      if (task) {
+        task.queuePosition = queuePosition;
+        task.etaSeconds = etaSeconds;
+      }
+      this.progressEmitter.emit(id, {
+        stage: "queued",
+        progress: 0,
+        message: "queued",
+        meta: { queuePosition, queueLength: queuedIds.length, etaSeconds },
+      });
+    });
+  }
+
+  private runStage(stage: IngestionStage, run: () => Promise<void>) {
+    return CPU_STAGES.has(stage) ? this.cpuLimiter.run(run) : run();
+  }
+
   /** 整个任务的总超时（毫秒） */
   private static readonly TASK_TIMEOUT = 15 * 60 * 1000; // 15 分钟
 
   private async runTask(task: IngestionTask) {
     const isPdf = task.fileType === "pdf";
-
-    const stages: { stage: IngestionStage; handler: StageHandler }[] = [
-      { stage: "extracting_text", handler: this.extractText },
-      ...(isPdf
-        ? [{ stage: "layout_analysis" as IngestionStage, handler: this.layoutAnalysis }]
-        : []),
-      { stage: "generating_text_embeddings", handler: this.generateTextEmbeddings },
-      ...(isPdf
-        ? [{ stage: "generating_image_embeddings" as IngestionStage, handler: this.generateImageEmbeddings }]
-        : []),
-      { stage: "writing_database", handler: this.writeDatabase },
-    ];
+    const handlers: Record<IngestionStage, StageHandler | undefined> = {
+      queued: undefined,
+      extracting_text: this.extractText,
+      layout_analysis: this.layoutAnalysis,
+      generating_text_embeddings: this.generateTextEmbeddings,
+      generating_image_embeddings: this.generateImageEmbeddings,
+      writing_database: this.writeDatabase,
+      completed: undefined,
+      failed: undefined,
+    };
+    const stages = planStages(task.fileType).map((stage) => ({ stage, handler: handlers[stage]! }));
+
+    // 续跑：跳过最后完成阶段及之前的阶段，并从磁盘恢复提取结果
+    const resumeFrom = task.lastCompletedStage
+      ? stages.findIndex(({ stage }) => stage === task.lastCompletedStage) + 1
+      : 0;
+    if (resumeFrom > 0) {
+      const restored = await this.restoreParsedArtifacts(task);
+      if (!restored) {
+        // 提取结果丢失时只能从头执行
+        task.lastCompletedStage = undefined;
+      }
+    }
+    const firstStage = task.lastCompletedStage ? resumeFrom : 0;
 
     const taskStartTime = Date.now();
 
     try {
-      for (let i = 0; i < stages.length; i++) {
+      for (let i = firstStage; i < stages.length; i++) {
         const { stage, handler } = stages[i];
         const stageBase = (i / stages.length) * 100;
         const stageSpan = 100 / stages.length;
-        this.updateTaskStage(task, stage, stageBase);
+        await this.updateTaskStage(task, stage, stageBase);
         // 存储阶段进度信息供 handler 内部使用，
         // 确保 handler 内发出的增量进度与阶段边界对齐
         (task.meta as any)._stageBase = stageBase;
@@ -220,7 +413,12 @@ export class IngestionPipeline {
           );
         }
 
-        await handler.call(this, task);
+        await this.runStage(stage, () => handler.call(this, task));
+        if (stage === "extracting_text") {
+          await this.persistParsedArtifacts(task);
+        }
+        task.lastCompletedStage = stage;
+        await this.jobStore.markStageCompleted(task.id, stage);
       }
       // 持久化 layout / HTML 到磁盘（服务重启 / dedup 时需要）
       // 注意：Word HTML 已在 extractText 中提前持久化，此处为兜底
@@ -229,7 +427,8 @@ export class IngestionPipeline {
       } else if (task.fileType === "docx") {
         await this.persistDocxHtml(task);
       }
-      this.updateTaskStage(task, "completed", 100);
+      await this.updateTaskStage(task, "completed", 100);
+      this.recentDurations = [...this.recentDurations, Date.now() - taskStartTime].slice(-DURATION_SAMPLE_SIZE);
     } catch (err) {
       task.error = err instanceof Error ? err.message : String(err);
       try {
@@ -240,16 +439,23 @@ export class IngestionPipeline {
       } catch (statusError) {
         console.error("failed to persist document failure status", statusError);
       }
-      this.updateTaskStage(task, "failed", task.progress);
+      task.stage = "failed";
+      task.updatedAt = new Date();
+      this.progressEmitter.updateStage(task.id, "failed", task.progress);
+      await this.jobStore.markFailed(task.id, task.error, task.progress).catch((jobError) =>
+        logger.error({ err: jobError, taskId: task.id }, "failed to persist ingestion job failure"),
+      );
     }
   }
 
-  private updateTaskStage(task: IngestionTask, stage: IngestionStage, progress: number) {
+  private async updateTaskStage(task: IngestionTask, stage: IngestionStage, progress: number) {
     task.stage = stage;
     task.progress = progress;
     task.updatedAt = new Date();
+    task.etaSeconds = stage === "completed" ? 0 : this.estimateRemainingSeconds(progress);
     this.tasks.set(task.id, task);
-    this.progressEmitter.updateStage(task.id, stage, progress);
+    this.progressEmitter.updateStage(task.id, stage, progress, undefined, { etaSeconds: task.etaSeconds });
+    await this.jobStore.updateStage(task.id, stage, progress);
   }
 
   private async extractText(task: IngestionTask) {
@@ -318,6 +524,13 @@ export class IngestionPipeline {
     if (!extractedPages?.some((page) => page.text?.trim())) {
       throw new Error(`document_parse_empty: ${task.fileType} produced no usable text`);
     }
+    try {
+      const fileType = task.fileType as ExtractedDocumentMetadata["fileType"];
+      (task.meta as any).nativeMetadata = await extractNativeMetadata(task.sourcePath, fileType);
+    } catch (err) {
+      // 元数据损坏不影响正文入库
+      logger.warn({ err, taskId: task.id }, "extractNativeMetadata failed");
+    }
     this.tasks.set(task.id, task);
   }
 
@@ -382,17 +595,19 @@ export class IngestionPipeline {
       if (apiKey) {
         headers.Authorization = `Bearer ${apiKey}`;
       }
-      const res = await (globalThis as any).fetch(endpoint, {
-        method: "POST",
-        headers,
-        body: JSON.stringify({
-          filePath: task.sourcePath,
-          documentId: task.id,
-          pageNumber: region.pageNumber,
-          bbox: region.bbox,
-          type: region.type,
+      const res: any = await this.networkLimiter.run(() =>
+        (globalThis as any).fetch(endpoint, {
+          method: "POST",
+          headers,
+          body: JSON.stringify({
+            filePath: task.sourcePath,
+            documentId: task.id,
+            pageNumber: region.pageNumber,
+            bbox: region.bbox,
+            type: region.type,
+          }),
         }),
-      });
+      );
       if (!res.ok) {
         continue;
       }
@@ -460,17 +675,35 @@ export class IngestionPipeline {
       | DocxParagraph[]
       | undefined;
 
-    // Document 已在上传完成时按内容哈希原子认领，这里只更新提取出的元数据。
-    const metadata = buildExtractedDocumentMetadata(task.fileName, task.fileType);
-    await prisma.document.update({
+    // 续跑时清理上次中断留下的部分写入，保证本阶段可重复执行
+    await this.clearDerivedRows(task.id);
+
+    // Document 已在上传完成时按内容哈希原子认领，这里只更新提取出的元数据；
+    // 人工设置过的字段（manualMetadata）保持不变。
+    const current = await prisma.document.findUnique({
+      where: { id: task.id },
+      select: { manualMetadata: true },
+    });
+    const manual = new Set(current?.manualMetadata ?? []);
+    const nativeMetadata = (task.meta as any)?.nativeMetadata as NativeDocumentMetadata | undefined;
+    const inferredMetadata = await this.inferMissingMetadata(
+      task,
+      nativeMetadata,
+      manual,
+      sectionInputs.map((section) => section.text).join("\n"),
+    );
+    const metadata = buildExtractedDocumentMetadata(task.fileName, task.fileType, nativeMetadata, inferredMetadata);
+    const { indexVersion } = await prisma.document.update({
       where: { id: task.id },
       data: {
         fileName: task.fileName,
         fileType: task.fileType,
         status: "processing",
-        sourceLabel: metadata?.sourceLabel ?? task.fileName,
-        publishedAt: metadata?.publishedAt ? new Date(metadata.publishedAt) : null,
-        tags: metadata?.tags ?? [],
+        ...(manual.has("sourceLabel") ? {} : { sourceLabel: metadata?.sourceLabel ?? task.fileName }),
+        ...(manual.has("publishedAt")
+          ? {}
+          : { publishedAt: metadata?.publishedAt ? new Date(metadata.publishedAt) : null }),
+        ...(manual.has("tags") ? {} : { tags: metadata?.tags ?? [] }),
         metadataJson: metadata ?? undefined,
       },
     });
@@ -486,6 +719,13 @@ export class IngestionPipeline {
       blocks?: { kind: import("../document-parsing/types.js").DocumentBlockKind; text: string }[];
     }[] = [];
     let skippedShortCount = 0;
+    // 标题路径在跳过短段落之前计算：标题本身常常短于 MIN_CONTENT_LENGTH
+    const sectionPaths = buildSectionPaths(sectionInputs.map((page, i) => ({
+      headingLevel: page.block
+        ? page.block.headingLevel ?? null
+        : isDocx || isSectionBasedText ? docxParagraphs?.[i]?.headingLevel ?? null : null,
+      text: sanitizePostgresText(page.text),
+    })));
 
     for (let i = 0; i < sectionInputs.length; i++) {
       const page = sectionInputs[i];
@@ -503,6 +743,7 @@ export class IngestionPipeline {
         index: page.index,
         content: cleanedText,
         sourceType: task.fileType,
+        sectionPath: sectionPaths[i],
       };
 
       if (page.block) {
@@ -552,6 +793,8 @@ export class IngestionPipeline {
     const chunkingService = new ChunkingService(prisma);
     const { chunks } = await chunkingService.chunkDocument(task.id, createdSections, {
       skipContextualRetrieval: createdSections.length > 40,
+      networkLimiter: this.networkLimiter,
+      indexVersion,
     });
 
     // 4. 为真实 chunk 生成向量，建立检索主链
@@ -560,47 +803,88 @@ export class IngestionPipeline {
     }
     await this.createChunkEmbeddings(task, chunks);
 
-    // 5. 标记处理完成
+    // 5. 标记处理完成，同时写入本版本的词法统计
     await prisma.document.update({
       where: { id: task.id },
-      data: { status: "ready" },
+      data: { status: "ready", ...(await documentLexicalStats(prisma, task.id, indexVersion)) },
     });
   }
 
   private async createChunkEmbeddings(task: IngestionTask, chunks: ChunkRecord[]) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error("embedding_not_configured: OPENAI_API_KEY is required");
-    }
     if (chunks.length === 0) {
       throw new Error("document_has_no_chunks");
     }
 
-    const total = chunks.length;
-    for (let index = 0; index < chunks.length; index++) {
-      const chunk = chunks[index];
-      const input = chunk.content.length > 8000 ? chunk.content.slice(0, 8000) : chunk.content;
-      const response = await this.openai.embeddings.create({
-        model: this.embeddingModel,
-        input,
-      });
-      const embedding = response.data[0]?.embedding ?? [];
-      if (embedding.length === 0) {
-        throw new Error(`chunk_embedding_missing: chunkId=${chunk.id}`);
-      }
-      const embeddingLiteral = `[${embedding.join(",")}]`;
-      await prisma.$executeRaw`
-        INSERT INTO "ChunkEmbedding" ("id", "chunkId", "documentId", "embedding")
-        VALUES (${randomUUID()}, ${chunk.id}, ${task.id}, ${embeddingLiteral}::vector)
-      `;
-
+    await this.embeddingWriter.write(task.id, chunks, (completed, total) => {
       const baseProgress = this.stageBaseProgress("writing_database", task);
       const stageSpan = (task.meta as any)?._stageSpan ?? 15;
-      const progress = baseProgress + ((index + 1) / total) * stageSpan;
+      const progress = baseProgress + (completed / total) * stageSpan;
       task.progress = progress;
       this.progressEmitter.emit(task.id, {
         stage: "writing_database",
         progress,
+        message: `embedded ${completed}/${total}`,
       } as IngestionProgressEvent);
+    });
+  }
+
+  /** 只为文件元数据与人工编辑都没有覆盖的字段调用 LLM */
+  private async inferMissingMetadata(
+    task: IngestionTask,
+    native: NativeDocumentMetadata | undefined,
+    manual: Set<string>,
+    text: string,
+  ): Promise<InferredDocumentMetadata> {
+    if (!this.metadataInferrer) return {};
+    const fields: InferableMetadataField[] = [];
+    if (!native?.title) fields.push("title");
+    if (!native?.author) fields.push("author");
+    if (!native?.publishedAt && !manual.has("publishedAt")) fields.push("publishedAt");
+    if (!native?.keywords.length && !manual.has("tags")) fields.push("tags");
+    const inferrer = this.metadataInferrer;
+    return this.networkLimiter.run(() => inferrer.infer({ fileName: task.fileName, text, fields }));
+  }
+
+  private async clearDerivedRows(documentId: string) {
+    await prisma.$transaction([
+      prisma.chunkEmbedding.deleteMany({ where: { documentId } }),
+      prisma.chunkContext.deleteMany({ where: { documentId } }),
+      prisma.chunk.deleteMany({ where: { documentId } }),
+      prisma.documentSection.deleteMany({ where: { documentId } }),
+    ]);
+  }
+
+  /** 持久化提取结果到源文件旁，服务重启后可跳过 extracting_text 阶段直接续跑 */
+  private async persistParsedArtifacts(task: IngestionTask) {
+    if (!task.sourcePath) return;
+    const meta = (task.meta ?? {}) as Record<string, unknown>;
+    const artifacts: PersistedParsedArtifacts = {
+      parsedDocument: meta.parsedDocument,
+      textPages: meta.textPages,
+      layoutPages: meta.layoutPages,
+      docxParagraphs: meta.docxParagraphs,
+      docxHtml: meta.docxHtml as string | undefined,
+      parseWarnings: meta.parseWarnings,
+      nativeMetadata: meta.nativeMetadata as NativeDocumentMetadata | undefined,
+    };
+    try {
+      await fs.writeFile(task.sourcePath + ".parsed.json", JSON.stringify(artifacts), "utf8");
+    } catch (err) {
+      logger.error({ err, taskId: task.id }, "persistParsedArtifacts failed");
+    }
+  }
+
+  private async restoreParsedArtifacts(task: IngestionTask): Promise<boolean> {
+    try {
+      const raw = await fs.readFile(task.sourcePath + ".parsed.json", "utf8");
+      const artifacts = JSON.parse(raw) as PersistedParsedArtifacts;
+      task.meta = {
+        ...(task.meta || {}),
+        ...Object.fromEntries(Object.entries(artifacts).filter(([, value]) => value !== undefined)),
+      };
+      return true;
+    } catch {
+      return false;
     }
   }
 
@@ -0,0 +1,94 @@
+import OpenAI from "openai";
+import { z } from "zod";
+import { config } from "../config/env.js";
+import { logger } from "../lib/logger.js";
+import { normalizeDate } from "../document-parsing/nativeMetadata.js";
+
+export type InferableMetadataField = "title" | "author" | "publishedAt" | "tags";
+
+export interface InferredDocumentMetadata {
+  title?: string;
+  author?: string;
+  publishedAt?: string;
+  tags?: string[];
+}
+
+/** 只看文档开头，足够覆盖封面 / 标题页 */
+const MAX_INPUT_CHARS = 3000;
+const MAX_INFERRED_TAGS = 5;
+
+const METADATA_PROMPT = `你是文档编目助手。根据文档开头的内容推断以下字段，无法确定的字段返回 null，不要编造。
+
+需要的字段: {fields}
+
+文档文件名: {fileName}
+文档开头:
+{text}
+
+请用以下 JSON 格式回答:
+{
+  "title": "文档标题或 null",
+  "author": "作者 / 发布机构或 null",
+  "publishedAt": "发布日期（YYYY-MM-DD）或 null",
+  "tags": ["不超过 ${MAX_INFERRED_TAGS} 个主题标签，简短名词"]
+}`;
+
+const responseSchema = z.object({
+  title: z.string().nullish(),
+  author: z.string().nullish(),
+  publishedAt: z.string().nullish(),
+  tags: z.array(z.string()).nullish(),
+});
+
+/**
+ * LLM 补全元数据：只请求文件自带元数据中缺失的字段。
+ * 调用失败或返回格式错误时返回空结果，入库继续进行。
+ */
+export class DocumentMetadataInferrer {
+  private readonly openai: OpenAI;
+
+  constructor(openai?: OpenAI) {
+    this.openai = openai ?? new OpenAI({ baseURL: config.chat.baseURL, apiKey: config.chat.apiKey });
+  }
+
+  async infer(input: {
+    fileName: string;
+    text: string;
+    fields: InferableMetadataField[];
+  }): Promise<InferredDocumentMetadata> {
+    if (input.fields.length === 0 || !input.text.trim()) return {};
+    try {
+      const response = await this.openai.chat.completions.create({
+        model: config.chat.model,
+        messages: [
+          {
+            role: "user",
+            content: METADATA_PROMPT.replace("{fields}", input.fields.join(", "))
+              .replace("{fileName}", input.fileName)
+              .replace("{text}", input.text.slice(0, MAX_INPUT_CHARS)),
+          },
+        ],
+        max_tokens: 300,
+        temperature: 0,
+        response_format: { type: "json_object" },
+      });
+      const parsed = responseSchema.safeParse(JSON.parse(response.choices[0]?.message?.content || "{}"));
+      if (!parsed.success) return {};
+      const wanted = new Set(input.fields);
+      const result: InferredDocumentMetadata = {};
+      if (wanted.has("title") && parsed.data.title?.trim()) result.title = parsed.data.title.trim();
+      if (wanted.has("author") && parsed.data.author?.trim()) result.author = parsed.data.author.trim();
+      if (wanted.has("publishedAt")) {
+        const publishedAt = normalizeDate(parsed.data.publishedAt ?? undefined);
+        if (publishedAt) result.publishedAt = publishedAt;
+      }
+      if (wanted.has("tags") && parsed.data.tags?.length) {
+        result.tags = parsed.data.tags.slice(0, MAX_INFERRED_TAGS);
+      }
+      return result;
+    } catch (err) {
+      logger.warn({ err, fileName: input.fileName }, "metadata inference failed, skipping");
+      return {};
+    }
+  }
+}
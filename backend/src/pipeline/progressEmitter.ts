@@ -1,5 +1,6 @@
 import type { Server as SocketIOServer } from "socket.io";
 import type { IngestionProgressEvent, IngestionStage } from "./types.js";
+import type { ReindexProgressEvent } from "../modules/reindex/types.js";
 
 export class ProgressEmitter {
   private io: SocketIOServer;
@@ -13,6 +14,11 @@ export class ProgressEmitter {
     this.io.to(this.roomName(taskId)).emit("ingestion:progress", event);
   }
 
+  /** 重建索引进度；客户端同样通过 join-task 加入以 jobId 命名的房间 */
+  emitReindex(event: ReindexProgressEvent) {
+    this.io.to(this.roomName(event.jobId)).emit("reindex:progress", event);
+  }
+
   joinRoom(taskId: string, socketId: string) {
     const socket = this.io.sockets.sockets.get(socketId);
     if (socket) {
@@ -20,8 +26,14 @@ export class ProgressEmitter {
     }
   }
 
-  updateStage(taskId: string, stage: IngestionStage, progress: number, message?: string) {
-    this.emit(taskId, { stage, progress, message });
+  updateStage(
+    taskId: string,
+    stage: IngestionStage,
+    progress: number,
+    message?: string,
+    meta?: IngestionProgressEvent["meta"],
+  ) {
+    this.emit(taskId, { stage, progress, message, ...(meta ? { meta } : {}) });
   }
 
   private roomName(taskId: string) {
@@ -3,6 +3,10 @@ export type ExtractedDocumentMetadata = {
   publishedAt: string | null;
   tags: string[];
   fileType: "pdf" | "docx" | "pptx" | "text" | "html";
+  title: string | null;
+  author: string | null;
+  /** 各字段的来源：文件自带元数据或 LLM 推断 */
+  extractedFrom: Partial<Record<"title" | "author" | "publishedAt" | "tags", "native" | "llm">>;
 };
 
 export type IngestionStage =
@@ -24,7 +28,14 @@ export interface IngestionTask {
   createdAt: Date;
   updatedAt: Date;
   stage: IngestionStage;
+  /** 最后一个已完成的阶段（持久化在 IngestionJob 中，重启续跑时跳过它及之前的阶段） */
+  lastCompletedStage?: IngestionStage;
   progress: number;
+  attempts?: number;
+  /** 排队中时的位置（1 起），开始执行后清空 */
+  queuePosition?: number;
+  /** 预计剩余秒数（基于最近任务平均耗时的粗略估算） */
+  etaSeconds?: number;
   error?: string;
   meta?: Record<string, unknown>;
 }
@@ -74,5 +85,8 @@ export interface IngestionProgressEvent {
     totalPages?: number;
     currentRegionIndex?: number;
     totalRegions?: number;
+    queuePosition?: number;
+    queueLength?: number;
+    etaSeconds?: number;
   };
 }
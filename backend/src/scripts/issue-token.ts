@@ -0,0 +1,47 @@
+/**
+ * 签发访问令牌（HS256，使用 .env 中的 JWT_SECRET）。
+ *
+ * 用法:
+ *   npm run auth:token -- --user <userId> [--roles admin,editor] [--groups finance,legal] [--expires-in 7d]
+ *   --expires-in 支持 s / m / h / d 后缀，默认 30d；传 never 表示不过期
+ */
+import { getEnv } from "../config/env.js";
+import { signJwt } from "../lib/jwt.js";
+
+const UNIT_SECONDS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400 };
+
+function parseArgs(argv: string[]) {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i];
+    const value = argv[i + 1];
+    if (!key.startsWith("--") || value === undefined) throw new Error(`invalid argument: ${key}`);
+    args.set(key.slice(2), value);
+  }
+  return args;
+}
+
+function parseDuration(value: string): number | undefined {
+  if (value === "never") return undefined;
+  const match = value.match(/^(\d+)([smhd])$/);
+  if (!match) throw new Error(`invalid --expires-in: ${value}`);
+  return Number(match[1]) * UNIT_SECONDS[match[2]];
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const userId = args.get("user");
+  if (!userId) throw new Error("--user <userId> is required");
+  const list = (name: string) => (args.get(name) ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+  const token = signJwt({ sub: userId, roles: list("roles"), groups: list("groups") }, getEnv().JWT_SECRET, {
+    expiresInSeconds: parseDuration(args.get("expires-in") ?? "30d"),
+  });
+  console.log(token);
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
@@ -0,0 +1,115 @@
+/**
+ * 重建索引命令行入口：调用运行中服务的 /admin/reindex 并轮询进度。
+ *
+ * 用法:
+ *   npm run reindex -- --document <documentId>
+ *   npm run reindex -- --tag <tag>
+ *   npm run reindex -- --all
+ *   可选 --url http://localhost:4000（默认取 PORT）、--no-wait（只提交不等待）
+ *   开启认证时需 --api-key <key> 或 --token <jwt>（也可用 VISUALRAG_API_KEY / VISUALRAG_TOKEN），且具备 admin 角色
+ */
+
+type ReindexJob = {
+  id: string;
+  status: "queued" | "running" | "completed" | "failed";
+  documentIds: string[];
+  completedIds: string[];
+  failedIds: string[];
+  error: string | null;
+};
+
+const POLL_INTERVAL_MS = 2000;
+
+function parseArgs(argv: string[]) {
+  const args = new Map<string, string | true>();
+  for (let i = 0; i < argv.length; i++) {
+    const key = argv[i];
+    if (!key.startsWith("--")) throw new Error(`unexpected argument: ${key}`);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args.set(key.slice(2), next);
+      i++;
+    } else {
+      args.set(key.slice(2), true);
+    }
+  }
+  return args;
+}
+
+function buildScope(args: Map<string, string | true>) {
+  const document = args.get("document");
+  const tag = args.get("tag");
+  const all = args.get("all");
+  const selected = [document, tag, all].filter((value) => value !== undefined);
+  if (selected.length !== 1) {
+    throw new Error("exactly one of --document <id>, --tag <tag>, --all is required");
+  }
+  if (typeof document === "string") return { documentId: document };
+  if (typeof tag === "string") return { tag };
+  if (all === true) return { all: true };
+  throw new Error("--document and --tag require a value");
+}
+
+function authHeaders(args: Map<string, string | true>): Record<string, string> {
+  const apiKey = args.get("api-key");
+  const token = args.get("token");
+  if (typeof apiKey === "string") return { "x-api-key": apiKey };
+  if (typeof token === "string") return { Authorization: `Bearer ${token}` };
+  if (process.env.VISUALRAG_API_KEY) return { "x-api-key": process.env.VISUALRAG_API_KEY };
+  if (process.env.VISUALRAG_TOKEN) return { Authorization: `Bearer ${process.env.VISUALRAG_TOKEN}` };
+  return {};
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...(init?.headers ?? {}) },
+  });
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(`${init?.method ?? "GET"} ${url} failed: ${response.status} ${JSON.stringify(body)}`);
+  }
+  return body as T;
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const scope = buildScope(args);
+  const url = typeof args.get("url") === "string"
+    ? String(args.get("url"))
+    : `http://localhost:${process.env.PORT || 4000}`;
+
+  const headers = authHeaders(args);
+
+  let job = await request<ReindexJob>(`${url}/admin/reindex`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(scope),
+  });
+  console.log(`reindex job ${job.id}: ${job.documentIds.length} document(s) queued`);
+  if (args.get("no-wait")) return;
+
+  let lastReported = -1;
+  while (job.status === "queued" || job.status === "running") {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+    job = await request<ReindexJob>(`${url}/admin/reindex/${job.id}`, { headers });
+    const processed = job.completedIds.length + job.failedIds.length;
+    if (processed !== lastReported) {
+      lastReported = processed;
+      console.log(`[${job.status}] ${processed}/${job.documentIds.length} processed, ${job.failedIds.length} failed`);
+    }
+  }
+
+  if (job.status === "failed") {
+    console.error(`reindex failed: ${job.error ?? "unknown"}`);
+    if (job.failedIds.length > 0) console.error(`failed documents: ${job.failedIds.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+  console.log("reindex completed");
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
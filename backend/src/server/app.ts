@@ -3,25 +3,50 @@ import { Server as SocketIOServer } from "socket.io";
 import { prisma } from "../db/prisma.js";
 import { logger } from "../lib/logger.js";
 import { loadEnv, config } from "../config/env.js";
-import { registerAuth } from "./plugins/auth.js";
+import { registerAuth, resolveUser, type AuthUser } from "./plugins/auth.js";
 import { uploadRoutes } from "../modules/upload/upload.routes.js";
 import { documentRoutes } from "../modules/document/document.routes.js";
 import { agentRoutes } from "../modules/agent/agent.routes.js";
+import { reindexRoutes } from "../modules/reindex/reindex.routes.js";
+import { searchRoutes } from "../modules/search/search.routes.js";
+import { workspaceRoutes } from "../modules/workspace/workspace.routes.js";
+import { WorkspaceService } from "../modules/workspace/workspace.service.js";
+import { HybridSearchService } from "../modules/search/retrieval/hybrid-search.service.js";
+import { LLMReranker } from "../modules/search/retrieval/reranker.service.js";
+import { ReindexService } from "../modules/reindex/reindex.service.js";
 import { ProgressEmitter } from "../pipeline/progressEmitter.js";
 import { IngestionPipeline } from "../pipeline/ingestionPipeline.js";
 import { cleanupStaleUploads } from "../modules/upload/upload.service.js";
+import { backfillLexicalTerms } from "../modules/search/lexical/lexical-terms.js";
+import { backfillSectionPaths } from "../modules/document/section-path.js";
+import { canAccessDocument } from "../modules/document/document-access.service.js";
 
 loadEnv();
 
+/**
+ * 订阅任务进度前的授权：重建索引任务只对 admin 开放（与 /admin/reindex 一致）；
+ * 入库任务 id 即文档 id，须能访问文档所在工作区且通过文档 ACL。
+ */
+async function canWatchTask(workspaces: WorkspaceService, user: AuthUser, taskId: string): Promise<boolean> {
+  const reindexJob = await prisma.reindexJob.findUnique({ where: { id: taskId }, select: { id: true } });
+  if (reindexJob) return user.roles.includes("admin");
+
+  const document = await prisma.document.findUnique({ where: { id: taskId }, select: { workspaceId: true } });
+  if (!document) return false;
+  try {
+    await workspaces.resolve(user, document.workspaceId);
+  } catch {
+    return false;
+  }
+  return canAccessDocument(prisma, { workspaceId: document.workspaceId, viewer: user }, taskId);
+}
+
 export async function buildApp() {
   const app = Fastify({
     logger: logger,
     bodyLimit: 50 * 1024 * 1024, // 50MB
   });
 
-  // ---- Plugins ----
-  await app.register(registerAuth);
-
   // ---- CORS（内联，避免插件注册时序问题）----
   const allowedOrigins = config.allowedOrigins;
   app.addHook("onRequest", async (request, reply) => {
@@ -36,12 +61,15 @@ export async function buildApp() {
 
     if (request.method === "OPTIONS") {
       reply.header("Access-Control-Allow-Methods", "GET, POST, PUT, PATCH, DELETE, OPTIONS");
-      reply.header("Access-Control-Allow-Headers", "Content-Type, Authorization, x-user-id, x-api-key");
+      reply.header("Access-Control-Allow-Headers", "Content-Type, Authorization, x-user-id, x-api-key, x-workspace-id");
       reply.header("Access-Control-Max-Age", "86400");
       return reply.code(204).send();
     }
   });
 
+  // ---- 认证（在 CORS 之后，401 响应也带上 CORS 头）----
+  await app.register(registerAuth);
+
   // Content-type parser for binary chunk uploads
   app.addContentTypeParser(
     "application/octet-stream",
@@ -70,17 +98,48 @@ export async function buildApp() {
 
   const progressEmitter = new ProgressEmitter(io);
   const pipeline = new IngestionPipeline(progressEmitter);
+  const reindexService = new ReindexService(prisma, progressEmitter);
+
+  // 浏览器无法为 WebSocket 设置请求头，令牌通过 handshake.auth 传入
+  io.use((socket, next) => {
+    try {
+      const { token, apiKey } = (socket.handshake.auth ?? {}) as { token?: string; apiKey?: string };
+      const headers = socket.handshake.headers;
+      socket.data.user = resolveUser({
+        authorization: token ? `Bearer ${token}` : headers.authorization,
+        apiKey: apiKey ?? (typeof headers["x-api-key"] === "string" ? headers["x-api-key"] : undefined),
+      });
+      next();
+    } catch (err) {
+      next(err as Error);
+    }
+  });
+
+  const workspaces = new WorkspaceService(prisma);
 
   io.on("connection", (socket) => {
-    socket.on("join-task", (taskId: string) => {
-      progressEmitter.joinRoom(taskId, socket.id);
+    socket.on("join-task", async (taskId: unknown) => {
+      if (typeof taskId !== "string" || !taskId) return;
+      try {
+        if (await canWatchTask(workspaces, socket.data.user as AuthUser, taskId)) {
+          progressEmitter.joinRoom(taskId, socket.id);
+        } else {
+          logger.warn({ taskId, userId: (socket.data.user as AuthUser).id }, "join_task_denied");
+        }
+      } catch (err) {
+        logger.error({ err, taskId }, "join_task_failed");
+      }
     });
   });
 
   // ---- Routes ----
-  app.register(uploadRoutes, { pipeline, prisma });
-  app.register(documentRoutes, { pipeline, prisma });
-  app.register(agentRoutes, { prisma });
+  const searchService = new HybridSearchService(prisma, new LLMReranker());
+  app.register(workspaceRoutes, { workspaces });
+  app.register(uploadRoutes, { pipeline, prisma, workspaces });
+  app.register(documentRoutes, { pipeline, prisma, workspaces });
+  app.register(agentRoutes, { prisma, workspaces, searchService });
+  app.register(searchRoutes, { prisma, workspaces, searchService });
+  app.register(reindexRoutes, { reindexService });
 
   // ---- Health ----
   app.get("/health", async (_request, reply) => {
@@ -103,15 +162,25 @@ export async function buildApp() {
     });
   });
 
-  return { app, io, pipeline };
+  return { app, io, pipeline, reindexService };
 }
 
 export async function startServer() {
-  const { app } = await buildApp();
+  const { app, pipeline, reindexService } = await buildApp();
   const port = config.allowedOrigins ? Number(process.env.PORT) || 4000 : 4000;
 
+  if (config.auth.mode === "disabled") {
+    app.log.warn(
+      "[auth] AUTH_MODE=disabled：未携带凭证的请求将以本地管理员身份绕过文档 ACL、工作区成员与管理接口的权限校验，切勿用于共享或公网部署",
+    );
+  }
+
   try {
     void cleanupStaleUploads();
+    pipeline.resumeInterrupted().catch((err) => app.log.error({ err }, "ingestion_resume_failed"));
+    reindexService.resumeInterrupted().catch((err) => app.log.error({ err }, "reindex_resume_failed"));
+    backfillLexicalTerms(prisma).catch((err) => app.log.error({ err }, "lexical_backfill_failed"));
+    backfillSectionPaths(prisma).catch((err) => app.log.error({ err }, "section_path_backfill_failed"));
     await app.listen({ port, host: "0.0.0.0" });
     console.log(`VisualRAG Insight backend running on http://localhost:${port}`);
   } catch (err) {
@@ -1,18 +1,114 @@
-import type { FastifyInstance, FastifyRequest } from "fastify";
+import { createHash, timingSafeEqual } from "crypto";
+import type { FastifyInstance, preHandlerAsyncHookHandler } from "fastify";
+import { config } from "../../config/env.js";
+import { ForbiddenError, UnauthorizedError } from "../../lib/errors.js";
+import { JwtError, verifyJwt } from "../../lib/jwt.js";
+
+export interface AuthUser {
+  id: string;
+  roles: string[];
+  /** 用户组，用于文档级访问控制（Document.aclGroups） */
+  groups: string[];
+  /** anonymous：AUTH_MODE=disabled 时的本地用户，或公开路由上未携带凭证的请求 */
+  method: "jwt" | "api_key" | "anonymous";
+}
+
+export interface AuthCredentials {
+  /** "Bearer <jwt>" */
+  authorization?: string;
+  apiKey?: string;
+}
+
+/** AUTH_MODE=disabled 且未携带凭证时使用，保持单机部署开箱即用 */
+const LOCAL_USER: AuthUser = { id: "local", roles: ["admin"], groups: [], method: "anonymous" };
+const ANONYMOUS_USER: AuthUser = { id: "anonymous", roles: [], groups: [], method: "anonymous" };
+
+function stringClaims(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : [];
+}
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+function authenticateJwt(authorization: string): AuthUser {
+  const match = authorization.match(/^Bearer\s+(\S+)$/i);
+  if (!match) throw new UnauthorizedError("Authorization 头格式错误，应为 Bearer <token>");
+  let payload;
+  try {
+    payload = verifyJwt(match[1], config.auth.jwtSecret);
+  } catch (err) {
+    if (err instanceof JwtError && err.reason === "expired") throw new UnauthorizedError("访问令牌已过期");
+    throw new UnauthorizedError("无效的访问令牌");
+  }
+  if (typeof payload.sub !== "string" || !payload.sub) throw new UnauthorizedError("访问令牌缺少 sub");
+  return { id: payload.sub, roles: stringClaims(payload.roles), groups: stringClaims(payload.groups), method: "jwt" };
+}
+
+function authenticateApiKey(apiKey: string): AuthUser {
+  // 比较摘要而非原文：长度固定，timingSafeEqual 不会因长度不同提前返回
+  const presented = digest(apiKey);
+  const entry = config.auth.apiKeys.find((candidate) => timingSafeEqual(digest(candidate.key), presented));
+  if (!entry) throw new UnauthorizedError("无效的 API Key");
+  return { id: entry.userId, roles: entry.roles, groups: entry.groups, method: "api_key" };
+}
+
+/**
+ * 解析请求凭证。携带了凭证就必须有效（任何模式下都不会静默降级）；
+ * 未携带凭证时，disabled 模式返回本地用户，公开路由返回匿名用户，否则 401。
+ */
+export function resolveUser(credentials: AuthCredentials, options: { isPublic?: boolean } = {}): AuthUser {
+  if (credentials.authorization) return authenticateJwt(credentials.authorization);
+  if (credentials.apiKey) return authenticateApiKey(credentials.apiKey);
+  if (config.auth.mode === "disabled") return LOCAL_USER;
+  if (options.isPublic) return ANONYMOUS_USER;
+  throw new UnauthorizedError();
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/** 路由级角色校验，用作 preHandler：满足任一角色即可 */
+export function requireRoles(...roles: string[]): preHandlerAsyncHookHandler {
+  return async (request) => {
+    if (!roles.some((role) => request.user.roles.includes(role))) {
+      throw new ForbiddenError(`需要以下角色之一: ${roles.join(", ")}`);
+    }
+  };
+}
 
 /**
- * 轻量认证插件（本项不需要用户系统，仅做请求上下文占位）。
+ * 认证插件：JWT（HS256，JWT_SECRET 签发）或 x-api-key（API_KEYS 配置），
+ * 结果写入 request.user。AUTH_PUBLIC_ROUTES 中的路由允许匿名访问，
+ * 以 "*" 结尾的条目按前缀匹配。
  */
 export async function registerAuth(app: FastifyInstance) {
+  const publicRoutes = config.auth.publicRoutes;
+  const isPublicRoute = (path: string) =>
+    publicRoutes.some((route) => (route.endsWith("*") ? path.startsWith(route.slice(0, -1)) : path === route));
+
   app.decorateRequest("user", null);
 
-  app.addHook("preHandler", async (request) => {
-    (request as any).user = {};
+  app.addHook("onRequest", async (request) => {
+    // CORS 预检不携带凭证
+    if (request.method === "OPTIONS") return;
+    const path = request.routeOptions.url ?? request.url.split("?")[0];
+    request.user = resolveUser(
+      {
+        authorization: headerValue(request.headers.authorization),
+        apiKey: headerValue(request.headers["x-api-key"]),
+      },
+      { isPublic: isPublicRoute(path) },
+    );
   });
 }
 
+// 与 fastify-plugin 相同的机制：钩子作用于整个应用而不是封装在插件作用域内
+(registerAuth as unknown as Record<symbol, boolean>)[Symbol.for("skip-override")] = true;
+
 declare module "fastify" {
   interface FastifyRequest {
-    user: Record<string, unknown>;
+    user: AuthUser;
   }
 }
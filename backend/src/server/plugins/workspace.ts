@@ -0,0 +1,20 @@
+import type { preHandlerAsyncHookHandler } from "fastify";
+import type { WorkspaceService } from "../../modules/workspace/workspace.service.js";
+import { WORKSPACE_HEADER } from "../../modules/workspace/types.js";
+
+/**
+ * 路由级工作区作用域（preHandler）：按 x-workspace-id 解析并校验当前工作区，
+ * 写入 request.workspaceId。需在认证之后执行。
+ */
+export function workspaceScope(workspaces: WorkspaceService): preHandlerAsyncHookHandler {
+  return async (request) => {
+    const header = request.headers[WORKSPACE_HEADER];
+    request.workspaceId = await workspaces.resolve(request.user, Array.isArray(header) ? header[0] : header);
+  };
+}
+
+declare module "fastify" {
+  interface FastifyRequest {
+    workspaceId: string;
+  }
+}
@@ -1,24 +1,50 @@
 'use client';
 
+import Link from "next/link";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { CitationPreviewPanel } from "@/components/CitationPreviewPanel";
 import {
   KnowledgeBaseChat,
   type ChatMessage,
 } from "@/components/KnowledgeBaseChat";
-import { KnowledgeBaseDocumentList } from "@/components/KnowledgeBaseDocumentList";
+import {
+  KnowledgeBaseDocumentList,
+  type DocumentAction,
+} from "@/components/KnowledgeBaseDocumentList";
 import {
   KnowledgeBaseUploadStatus,
   type UploadStatus,
 } from "@/components/KnowledgeBaseUploadStatus";
+import { KnowledgeBaseSessionList } from "@/components/KnowledgeBaseSessionList";
+import { WorkspaceSwitcher } from "@/components/WorkspaceSwitcher";
 import {
+  archiveKnowledgeBaseDocument,
+  cancelAgentMessage,
   createAgentSession,
+  createWorkspace,
+  deleteAgentSession,
+  deleteKnowledgeBaseDocument,
+  getActiveWorkspaceId,
+  getAgentSessionMessages,
   getIngestionTask,
+  listAgentSessions,
   listKnowledgeBaseDocuments,
+  listWorkspaces,
+  restoreKnowledgeBaseDocument,
+  setActiveWorkspaceId,
   streamAgentMessage,
+  updateAgentSession,
+  updateKnowledgeBaseDocument,
   uploadKnowledgeBaseDocument,
+  type AgentMessageInput,
+  type AgentSessionSummary,
+  type DocumentMetadataInput,
+  type IngestionTask,
   type KnowledgeBaseCitation,
   type KnowledgeBaseDocument,
+  type RetrievalProfileName,
+  type StoredAgentMessage,
+  type Workspace,
 } from "@/lib/knowledgeBaseApi";
 import {
   keepProgressMonotonic,
@@ -26,10 +52,52 @@ import {
   type CompositeProgressPhase,
 } from "@/lib/uploadCompositeProgress";
 
+const SESSION_PAGE_SIZE = 20;
+
+function describeUnfinished(message: StoredAgentMessage) {
+  if (message.status === "cancelled") return "已停止生成";
+  if (message.status !== "failed") return "";
+  return message.errorCode === "AGENT_RUN_ORPHANED" ? "回答中断，请重试" : "Agent 执行失败";
+}
+
+function toChatMessage(message: StoredAgentMessage): ChatMessage {
+  return {
+    id: message.id,
+    role: message.role as ChatMessage["role"],
+    content: message.content || describeUnfinished(message),
+    status: message.status === "processing" ? "回答生成中…" : message.status,
+    citations: message.citations?.items,
+    siblingIds: message.siblingIds,
+    contextBoundary: message.contextBoundary,
+  };
+}
+
+function formatEta(seconds: number) {
+  if (seconds < 60) return `${Math.max(1, Math.round(seconds))} 秒`;
+  return `${Math.round(seconds / 60)} 分钟`;
+}
+
+function describeProcessing(task: IngestionTask) {
+  const eta = task.etaSeconds !== undefined ? `预计还需 ${formatEta(task.etaSeconds)}` : "";
+  if (task.stage === "queued" && task.queuePosition) {
+    return `排队中（第 ${task.queuePosition} 位）${eta ? `，${eta}` : ""}`;
+  }
+  return `正在处理文档…${eta}`;
+}
+
 export default function HomePage() {
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | null>(null);
   const [documents, setDocuments] = useState<KnowledgeBaseDocument[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [sessionId, setSessionId] = useState<string | null>(null);
+  const [pinnedDocumentIds, setPinnedDocumentIds] = useState<string[]>([]);
+  const [retrievalProfile, setRetrievalProfile] = useState<RetrievalProfileName | null>(null);
+  const [sessions, setSessions] = useState<AgentSessionSummary[]>([]);
+  const [sessionTotal, setSessionTotal] = useState(0);
+  const [sessionQuery, setSessionQuery] = useState("");
+  const [sessionPage, setSessionPage] = useState(1);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
   const [query, setQuery] = useState("");
   const [citation, setCitation] = useState<KnowledgeBaseCitation | null>(null);
   const [loading, setLoading] = useState(false);
@@ -40,6 +108,7 @@ export default function HomePage() {
     uploadId?: string;
   } | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pendingDocumentId, setPendingDocumentId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const uploadAbortRef = useRef<AbortController | null>(null);
 
@@ -53,9 +122,109 @@ export default function HomePage() {
     }
   }, []);
 
+  const refreshWorkspaces = useCallback(async () => {
+    try {
+      const items = await listWorkspaces();
+      setWorkspaces(items);
+      // 记住的工作区已不可访问时回退到列表中的第一个（默认工作区）
+      const stored = getActiveWorkspaceId();
+      const active = items.find((workspace) => workspace.id === stored) ?? items[0];
+      if (active && active.id !== stored) setActiveWorkspaceId(active.id);
+      setWorkspaceId(active?.id ?? null);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "workspace_load_failed");
+    }
+  }, []);
+
   useEffect(() => {
+    void refreshWorkspaces();
+  }, [refreshWorkspaces]);
+
+  const loadSessions = useCallback(async (page: number, q: string) => {
+    setSessionsLoading(true);
+    try {
+      const result = await listAgentSessions({ q, page, pageSize: SESSION_PAGE_SIZE });
+      setSessions((items) => (page === 1 ? result.sessions : [...items, ...result.sessions]));
+      setSessionTotal(result.total);
+      setSessionPage(page);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_list_failed");
+    } finally {
+      setSessionsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!workspaceId) return;
     void refreshDocuments();
-  }, [refreshDocuments]);
+    setSessionQuery("");
+    void loadSessions(1, "");
+  }, [workspaceId, refreshDocuments, loadSessions]);
+
+  function switchWorkspace(nextWorkspaceId: string) {
+    if (nextWorkspaceId === workspaceId) return;
+    setActiveWorkspaceId(nextWorkspaceId);
+    setWorkspaceId(nextWorkspaceId);
+    // 会话与引用属于原工作区，切换后重新开始
+    startNewSession();
+    setDocuments([]);
+    setError(null);
+  }
+
+  async function handleCreateWorkspace() {
+    const name = window.prompt("新知识库名称")?.trim();
+    if (!name) return;
+    try {
+      const workspace = await createWorkspace(name);
+      setActiveWorkspaceId(workspace.id);
+      await refreshWorkspaces();
+      switchWorkspace(workspace.id);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "workspace_create_failed");
+    }
+  }
+
+  async function handleDocumentAction(
+    document: KnowledgeBaseDocument,
+    action: DocumentAction,
+  ) {
+    if (action === "delete" && !window.confirm(`删除「${document.fileName}」？删除后可通过重新上传恢复。`)) {
+      return;
+    }
+    if (action === "purge" && !window.confirm(`彻底删除「${document.fileName}」？源文件与索引将被清除，无法恢复。`)) {
+      return;
+    }
+    setPendingDocumentId(document.id);
+    setError(null);
+    try {
+      if (action === "archive") await archiveKnowledgeBaseDocument(document.id);
+      else if (action === "restore") await restoreKnowledgeBaseDocument(document.id);
+      else await deleteKnowledgeBaseDocument(document.id, { purge: action === "purge" });
+      await refreshDocuments();
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "document_action_failed");
+    } finally {
+      setPendingDocumentId(null);
+    }
+  }
+
+  async function handleUpdateMetadata(
+    document: KnowledgeBaseDocument,
+    input: DocumentMetadataInput,
+  ): Promise<boolean> {
+    setPendingDocumentId(document.id);
+    setError(null);
+    try {
+      await updateKnowledgeBaseDocument(document.id, input);
+      await refreshDocuments();
+      return true;
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "document_update_failed");
+      return false;
+    } finally {
+      setPendingDocumentId(null);
+    }
+  }
 
   useEffect(() => {
     return () => uploadAbortRef.current?.abort();
@@ -64,24 +233,154 @@ export default function HomePage() {
   async function ensureSession(): Promise<string> {
     if (sessionId) return sessionId;
 
-    const session = await createAgentSession();
+    const session = await createAgentSession({
+      documentIds: pinnedDocumentIds,
+      ...(retrievalProfile ? { retrievalProfile } : {}),
+    });
     setSessionId(session.id);
     return session.id;
   }
 
+  function startNewSession() {
+    setSessionId(null);
+    setPinnedDocumentIds([]);
+    setRetrievalProfile(null);
+    setMessages([]);
+    setCitation(null);
+  }
+
+  /** 按当前分支重新加载消息；检索过程只存在于前端，按消息 id 保留 */
+  async function reloadMessages(id: string) {
+    const result = await getAgentSessionMessages(id);
+    setMessages((items) =>
+      result.messages
+        .filter((message) => message.role !== "system")
+        .map((message) => ({
+          ...toChatMessage(message),
+          trace: items.find((item) => item.id === message.id)?.trace,
+        })),
+    );
+    return result.session;
+  }
+
+  async function handleOpenSession(session: AgentSessionSummary) {
+    if (loading || session.id === sessionId) return;
+    setError(null);
+    try {
+      const opened = await reloadMessages(session.id);
+      setSessionId(opened.id);
+      setPinnedDocumentIds(opened.documentIds);
+      setRetrievalProfile(opened.retrievalProfile);
+      setCitation(null);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_load_failed");
+    }
+  }
+
+  async function handleRenameSession(session: AgentSessionSummary) {
+    const title = window.prompt("对话名称", session.title ?? "")?.trim();
+    if (!title || title === session.title) return;
+    try {
+      await updateAgentSession(session.id, { title });
+      await loadSessions(1, sessionQuery);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_update_failed");
+    }
+  }
+
+  async function handleDeleteSession(session: AgentSessionSummary) {
+    if (!window.confirm(`删除对话「${session.title || "未命名对话"}」？删除后无法恢复。`)) return;
+    try {
+      await deleteAgentSession(session.id);
+      if (session.id === sessionId) startNewSession();
+      await loadSessions(1, sessionQuery);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_delete_failed");
+    }
+  }
+
+  async function handleTogglePin(document: KnowledgeBaseDocument) {
+    const next = pinnedDocumentIds.includes(document.id)
+      ? pinnedDocumentIds.filter((id) => id !== document.id)
+      : [...pinnedDocumentIds, document.id];
+    setError(null);
+    try {
+      // 会话已创建时同步到后端，下一条消息起生效
+      if (sessionId) await updateAgentSession(sessionId, { documentIds: next });
+      setPinnedDocumentIds(next);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_update_failed");
+    }
+  }
+
+  async function handleChangeProfile(next: RetrievalProfileName | null) {
+    setError(null);
+    try {
+      if (sessionId) await updateAgentSession(sessionId, { retrievalProfile: next });
+      setRetrievalProfile(next);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_update_failed");
+    }
+  }
+
+  const pinnedDocuments = documents.filter((document) => pinnedDocumentIds.includes(document.id));
+
   async function handleAsk() {
     const value = query.trim();
     if (!value || loading) return;
 
     setQuery("");
+    await askAgent({ content: value }, messages, value);
+  }
+
+  /** 编辑重发：在被编辑消息的位置开出新分支，原问答保留 */
+  async function handleEditMessage(message: ChatMessage) {
+    if (loading) return;
+    const content = window.prompt("编辑问题", message.content)?.trim();
+    if (!content || content === message.content) return;
+    const index = messages.findIndex((item) => item.id === message.id);
+    await askAgent({ content, editMessageId: message.id }, messages.slice(0, index), content);
+  }
+
+  /** 重新生成：同一问题下新增一个回答分支 */
+  async function handleRegenerate(message: ChatMessage) {
+    if (loading) return;
+    const index = messages.findIndex((item) => item.id === message.id);
+    await askAgent({ regenerateMessageId: message.id }, messages.slice(0, index));
+  }
+
+  async function handleStop() {
+    if (!sessionId) return;
+    try {
+      await cancelAgentMessage(sessionId);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "agent_cancel_failed");
+    }
+  }
+
+  async function handleSwitchBranch(messageId: string) {
+    if (loading || !sessionId) return;
+    setError(null);
+    try {
+      await updateAgentSession(sessionId, { activeMessageId: messageId });
+      await reloadMessages(sessionId);
+    } catch (cause) {
+      setError(cause instanceof Error ? cause.message : "session_update_failed");
+    }
+  }
+
+  /**
+   * 流式请求 Agent。先在 base 之后显示占位消息，收到 message.accepted 后换成服务端 id，
+   * 结束后按当前分支重新加载，拿到分支信息。question 为空表示重新生成，不新增用户消息。
+   */
+  async function askAgent(input: AgentMessageInput, base: ChatMessage[], question?: string) {
     setLoading(true);
     setError(null);
 
-    const userId = crypto.randomUUID();
-    const assistantId = crypto.randomUUID();
-    setMessages((items) => [
-      ...items,
-      { id: userId, role: "user", content: value },
+    let assistantId: string = crypto.randomUUID();
+    setMessages([
+      ...base,
+      ...(question ? [{ id: crypto.randomUUID(), role: "user" as const, content: question }] : []),
       {
         id: assistantId,
         role: "assistant",
@@ -93,10 +392,15 @@ export default function HomePage() {
 
     try {
       const id = await ensureSession();
-      await streamAgentMessage(id, value, (event) => {
+      await streamAgentMessage(id, input, (event) => {
+        const previousId = assistantId;
+        if (event.type === "message.accepted") assistantId = String(event.data.messageId);
         setMessages((items) =>
           items.map((message) => {
-            if (message.id !== assistantId) return message;
+            if (message.id !== previousId) return message;
+            if (event.type === "message.accepted") {
+              return { ...message, id: assistantId, trace: [{ type: event.type, data: event.data }] };
+            }
 
             const trace = [
               ...(message.trace ?? []),
@@ -113,6 +417,10 @@ export default function HomePage() {
             if (event.type === "intent.completed") {
               return { ...message, status: "正在检索知识库…", trace };
             }
+            if (event.type === "plan.completed" && event.data.multiStep) {
+              const steps = event.data.steps as string[];
+              return { ...message, status: `已拆分为 ${steps.length} 个子问题，正在分别检索…`, trace };
+            }
             if (event.type === "evidence.completed") {
               return { ...message, status: "正在核验证据…", trace };
             }
@@ -132,6 +440,12 @@ export default function HomePage() {
                 trace,
               };
             }
+            if (event.type === "context.reset") {
+              return { ...message, contextBoundary: true, trace };
+            }
+            if (event.type === "message.cancelled") {
+              return { ...message, status: "cancelled", content: message.content || "已停止生成", trace };
+            }
             if (event.type === "message.failed") {
               return {
                 ...message,
@@ -144,10 +458,13 @@ export default function HomePage() {
           }),
         );
       });
+      await reloadMessages(id);
     } catch (cause) {
       setError(cause instanceof Error ? cause.message : "agent_request_failed");
     } finally {
       setLoading(false);
+      // 新会话出现在列表中，已有会话的标题与排序随之更新
+      void loadSessions(1, sessionQuery);
     }
   }
 
@@ -237,7 +554,7 @@ export default function HomePage() {
           fileName: file.name,
           state: "processing",
           progress: getDisplayProgress("processing", task.progress),
-          message: "正在处理文档…",
+          message: describeProcessing(task),
           taskId: task.id,
           stage: task.stage,
         });
@@ -294,24 +611,55 @@ export default function HomePage() {
         }}
       />
       <header className="shrink-0 border-b border-slate-200 bg-white">
-        <div className="mx-auto flex max-w-6xl items-center justify-between px-5 py-5">
+        <div className="mx-auto flex max-w-7xl items-center justify-between px-5 py-5">
           <div>
             <h1 className="text-xl font-bold">VisualRAG 知识库 Agent</h1>
             <p className="mt-1 text-sm text-slate-500">
               支持多轮追问，只在证据充分时回答。
             </p>
           </div>
-          <button
-            type="button"
-            onClick={() => fileInputRef.current?.click()}
-            disabled={uploading}
-            className="rounded-xl bg-indigo-600 px-4 py-2.5 text-sm text-white disabled:opacity-50"
-          >
-            {uploading ? "导入中…" : "导入文档"}
-          </button>
+          <div className="flex items-center gap-3">
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeWorkspaceId={workspaceId}
+              disabled={uploading || loading}
+              onChange={switchWorkspace}
+              onCreate={() => void handleCreateWorkspace()}
+            />
+            <Link
+              href="/search"
+              className="rounded-xl border border-slate-200 px-4 py-2.5 text-sm text-slate-600 hover:bg-slate-50"
+            >
+              检索
+            </Link>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploading}
+              className="rounded-xl bg-indigo-600 px-4 py-2.5 text-sm text-white disabled:opacity-50"
+            >
+              {uploading ? "导入中…" : "导入文档"}
+            </button>
+          </div>
         </div>
       </header>
-      <div className="mx-auto grid min-h-0 w-full max-w-6xl flex-1 grid-rows-[minmax(0,1fr)_minmax(0,0.45fr)] gap-6 overflow-hidden px-5 py-8 lg:grid-cols-[minmax(0,1fr)_280px] lg:grid-rows-1">
+      <div className="mx-auto grid min-h-0 w-full max-w-7xl flex-1 grid-rows-[minmax(0,1fr)_minmax(0,0.45fr)] gap-6 overflow-hidden px-5 py-8 lg:grid-cols-[220px_minmax(0,1fr)_280px] lg:grid-rows-1">
+        <KnowledgeBaseSessionList
+          key={workspaceId}
+          sessions={sessions}
+          total={sessionTotal}
+          activeSessionId={sessionId}
+          loading={sessionsLoading}
+          onSearch={(q) => {
+            setSessionQuery(q);
+            void loadSessions(1, q);
+          }}
+          onOpen={(session) => void handleOpenSession(session)}
+          onNew={startNewSession}
+          onRename={(session) => void handleRenameSession(session)}
+          onDelete={(session) => void handleDeleteSession(session)}
+          onLoadMore={() => void loadSessions(sessionPage + 1, sessionQuery)}
+        />
         <section className="flex min-h-0 flex-col gap-4">
           <KnowledgeBaseUploadStatus
             status={uploadStatus}
@@ -322,7 +670,11 @@ export default function HomePage() {
           <div className="min-h-0 flex-1 space-y-4 overflow-y-auto rounded-2xl border bg-white p-5 shadow-sm">
             <KnowledgeBaseChat
               messages={messages}
+              busy={loading}
               onOpenCitation={setCitation}
+              onRegenerate={(message) => void handleRegenerate(message)}
+              onEdit={(message) => void handleEditMessage(message)}
+              onSwitchBranch={(messageId) => void handleSwitchBranch(messageId)}
             />
           </div>
           {error ? (
@@ -331,10 +683,26 @@ export default function HomePage() {
             </div>
           ) : null}
           <div className="rounded-2xl border bg-white p-4 shadow-sm">
+            {pinnedDocuments.length > 0 ? (
+              <div className="mb-2 flex flex-wrap items-center gap-1 text-xs text-slate-500">
+                <span>仅在以下文档中检索：</span>
+                {pinnedDocuments.map((document) => (
+                  <button
+                    key={document.id}
+                    type="button"
+                    onClick={() => void handleTogglePin(document)}
+                    title="取消固定"
+                    className="max-w-48 truncate rounded bg-indigo-50 px-1.5 py-0.5 text-indigo-600 hover:bg-indigo-100"
+                  >
+                    {document.fileName} ×
+                  </button>
+                ))}
+              </div>
+            ) : null}
             <textarea
               value={query}
               onChange={(event) => setQuery(event.target.value)}
-              placeholder="向整个知识库提问…"
+              placeholder={pinnedDocuments.length > 0 ? "向固定的文档提问…" : "向整个知识库提问…"}
               className="min-h-24 w-full resize-y rounded-xl border p-3"
               onKeyDown={(event) => {
                 if (event.key === "Enter" && (event.ctrlKey || event.metaKey)) {
@@ -342,7 +710,28 @@ export default function HomePage() {
                 }
               }}
             />
-            <div className="mt-2 flex justify-end">
+            <div className="mt-2 flex justify-end gap-2">
+              <select
+                value={retrievalProfile ?? ""}
+                onChange={(event) => void handleChangeProfile((event.target.value || null) as RetrievalProfileName | null)}
+                disabled={loading}
+                title="检索档位"
+                className="mr-auto rounded-xl border px-3 py-2 text-sm text-slate-600 disabled:opacity-50"
+              >
+                <option value="">默认检索</option>
+                <option value="precise">精确</option>
+                <option value="broad">广泛召回</option>
+                <option value="fast">快速</option>
+              </select>
+              {loading && sessionId ? (
+                <button
+                  type="button"
+                  onClick={() => void handleStop()}
+                  className="rounded-xl border border-slate-200 px-5 py-2.5 text-sm text-slate-600 hover:bg-slate-50"
+                >
+                  停止生成
+                </button>
+              ) : null}
               <button
                 type="button"
                 onClick={() => void handleAsk()}
@@ -354,7 +743,14 @@ export default function HomePage() {
             </div>
           </div>
         </section>
-        <KnowledgeBaseDocumentList documents={documents} />
+        <KnowledgeBaseDocumentList
+          documents={documents}
+          onAction={(document, action) => void handleDocumentAction(document, action)}
+          onUpdateMetadata={handleUpdateMetadata}
+          pendingDocumentId={pendingDocumentId}
+          pinnedDocumentIds={pinnedDocumentIds}
+          onTogglePin={(document) => void handleTogglePin(document)}
+        />
       </div>
       <CitationPreviewPanel
         citation={citation}
@@ -0,0 +1,281 @@
+'use client';
+
+import Link from "next/link";
+import { useEffect, useRef, useState } from "react";
+import { CitationPreviewPanel } from "@/components/CitationPreviewPanel";
+import {
+  listKnowledgeBaseDocuments,
+  searchKnowledgeBase,
+  type KnowledgeBaseCitation,
+  type KnowledgeBaseDocument,
+  type KnowledgeBaseSearchFilters,
+  type KnowledgeBaseSearchHit,
+  type KnowledgeBaseSearchResult,
+  type KnowledgeBaseSourceType,
+  type RetrievalProfileName,
+} from "@/lib/knowledgeBaseApi";
+
+const TOP_K_OPTIONS = [5, 10, 20, 50];
+
+const SOURCE_LABELS: Record<NonNullable<KnowledgeBaseSearchHit["source"]>, string> = {
+  dense: "向量",
+  bm25: "关键词",
+  hybrid: "混合",
+};
+
+function formatScore(value: number | null) {
+  return value === null ? "—" : value.toFixed(3);
+}
+
+/** 页码范围输入：「3」或「3-5」，无法解析时不限定 */
+function parsePageRange(value: string): [number, number] | undefined {
+  const match = value.trim().match(/^(\d+)\s*(?:[-~～]\s*(\d+))?$/);
+  if (!match) return undefined;
+  const from = Number(match[1]);
+  const to = Number(match[2] ?? match[1]);
+  return from >= 1 && from <= to ? [from, to] : undefined;
+}
+
+function toCitation(hit: KnowledgeBaseSearchHit): KnowledgeBaseCitation {
+  return {
+    documentId: hit.documentId,
+    fileName: hit.fileName ?? "未知文档",
+    pageNumber: hit.pageNumber,
+    chunkId: hit.chunkId ?? undefined,
+    snippet: hit.snippet,
+    sourceType: hit.fileType ?? "text",
+  };
+}
+
+export default function SearchPage() {
+  const [documents, setDocuments] = useState<KnowledgeBaseDocument[]>([]);
+  const [query, setQuery] = useState("");
+  const [documentId, setDocumentId] = useState("");
+  const [fileType, setFileType] = useState<KnowledgeBaseSourceType | "">("");
+  const [pageRange, setPageRange] = useState("");
+  const [profile, setProfile] = useState<RetrievalProfileName | "">("");
+  const [topK, setTopK] = useState(10);
+  const [skipRerank, setSkipRerank] = useState(false);
+  const [result, setResult] = useState<KnowledgeBaseSearchResult | null>(null);
+  const [citation, setCitation] = useState<KnowledgeBaseCitation | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listKnowledgeBaseDocuments()
+      .then(setDocuments)
+      .catch((cause: unknown) => setError(cause instanceof Error ? cause.message : "knowledge_base_load_failed"));
+    return () => abortRef.current?.abort();
+  }, []);
+
+  async function handleSearch() {
+    const value = query.trim();
+    if (!value) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const range = parsePageRange(pageRange);
+    const filters: KnowledgeBaseSearchFilters = {
+      ...(documentId ? { documentIds: [documentId] } : {}),
+      ...(fileType ? { fileTypes: [fileType] } : {}),
+      ...(range ? { pageRange: range } : {}),
+    };
+    setLoading(true);
+    setError(null);
+    try {
+      setResult(await searchKnowledgeBase(
+        {
+          query: value,
+          filters,
+          topK,
+          skipRerank,
+          ...(profile ? { profile } : {}),
+        },
+        controller.signal,
+      ));
+    } catch (cause) {
+      if (cause instanceof DOMException && cause.name === "AbortError") return;
+      setError(cause instanceof Error ? cause.message : "search_failed");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }
+
+  return (
+    <main className="flex h-full min-h-0 flex-col overflow-hidden bg-slate-50 text-slate-900">
+      <header className="shrink-0 border-b border-slate-200 bg-white">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-5 py-5">
+          <div>
+            <h1 className="text-xl font-bold">知识库检索</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              直接查看混合检索的排序结果与各阶段分数，点击命中打开原文。
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-xl border border-slate-200 px-4 py-2.5 text-sm text-slate-600 hover:bg-slate-50"
+          >
+            返回对话
+          </Link>
+        </div>
+      </header>
+      <div className="mx-auto flex min-h-0 w-full max-w-5xl flex-1 flex-col gap-4 overflow-hidden px-5 py-6">
+        <form
+          className="shrink-0 rounded-2xl border bg-white p-4 shadow-sm"
+          onSubmit={(event) => {
+            event.preventDefault();
+            void handleSearch();
+          }}
+        >
+          <div className="flex gap-2">
+            <input
+              value={query}
+              onChange={(event) => setQuery(event.target.value)}
+              placeholder="输入要检索的内容…"
+              maxLength={1000}
+              className="min-w-0 flex-1 rounded-xl border px-3 py-2.5"
+            />
+            <button
+              type="submit"
+              disabled={loading || !query.trim()}
+              className="rounded-xl bg-slate-900 px-5 py-2.5 text-sm text-white disabled:opacity-40"
+            >
+              {loading ? "检索中…" : "检索"}
+            </button>
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-2 text-sm text-slate-600">
+            <select
+              value={documentId}
+              onChange={(event) => setDocumentId(event.target.value)}
+              title="检索范围"
+              className="max-w-56 rounded-xl border px-3 py-2"
+            >
+              <option value="">全部文档</option>
+              {documents.map((document) => (
+                <option key={document.id} value={document.id}>
+                  {document.fileName}
+                </option>
+              ))}
+            </select>
+            <select
+              value={fileType}
+              onChange={(event) => setFileType(event.target.value as KnowledgeBaseSourceType | "")}
+              disabled={Boolean(documentId)}
+              title="文件类型（指定文档时不生效）"
+              className="rounded-xl border px-3 py-2 disabled:opacity-50"
+            >
+              <option value="">全部类型</option>
+              <option value="pdf">PDF</option>
+              <option value="docx">Word</option>
+              <option value="pptx">PPT</option>
+              <option value="text">文本</option>
+              <option value="html">网页</option>
+            </select>
+            <input
+              value={pageRange}
+              onChange={(event) => setPageRange(event.target.value)}
+              placeholder="页码，如 3-5"
+              className="w-32 rounded-xl border px-3 py-2"
+            />
+            <select
+              value={profile}
+              onChange={(event) => setProfile(event.target.value as RetrievalProfileName | "")}
+              title="检索档位"
+              className="rounded-xl border px-3 py-2"
+            >
+              <option value="">默认检索</option>
+              <option value="precise">精确</option>
+              <option value="broad">广泛召回</option>
+              <option value="fast">快速</option>
+            </select>
+            <select
+              value={topK}
+              onChange={(event) => setTopK(Number(event.target.value))}
+              title="返回条数"
+              className="rounded-xl border px-3 py-2"
+            >
+              {TOP_K_OPTIONS.map((value) => (
+                <option key={value} value={value}>
+                  前 {value} 条
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={skipRerank}
+                onChange={(event) => setSkipRerank(event.target.checked)}
+              />
+              跳过重排
+            </label>
+          </div>
+        </form>
+        {error ? (
+          <div className="shrink-0 rounded-xl bg-red-50 p-4 text-sm text-red-700">
+            {error}
+          </div>
+        ) : null}
+        <section className="min-h-0 flex-1 overflow-y-auto">
+          {result ? (
+            <>
+              <p className="mb-3 text-xs text-slate-500">
+                {result.results.length} 条结果 · 档位 {result.profile} · 耗时 {result.durationMs} ms
+              </p>
+              {result.results.length === 0 ? (
+                <div className="rounded-2xl border bg-white p-6 text-center text-sm text-slate-400">
+                  没有找到相关内容
+                </div>
+              ) : (
+                <ol className="space-y-3">
+                  {result.results.map((hit) => (
+                    <li key={hit.chunkId ?? `${hit.documentId}-${hit.rank}`} className="rounded-2xl border bg-white p-4 shadow-sm">
+                      <button
+                        type="button"
+                        onClick={() => setCitation(toCitation(hit))}
+                        className="w-full text-left"
+                      >
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="font-semibold text-slate-400">#{hit.rank}</span>
+                          <span className="truncate font-medium text-indigo-600 hover:underline">
+                            {hit.fileName ?? "未知文档"}
+                          </span>
+                          <span className="shrink-0 text-slate-400">第 {hit.pageNumber} 处</span>
+                          {hit.source ? (
+                            <span className="ml-auto shrink-0 rounded bg-slate-100 px-1.5 py-0.5 text-xs text-slate-500">
+                              {SOURCE_LABELS[hit.source]}
+                            </span>
+                          ) : null}
+                        </div>
+                        <p className="mt-2 line-clamp-4 whitespace-pre-wrap text-sm text-slate-700">{hit.snippet}</p>
+                      </button>
+                      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500">
+                        <span>相似度 {formatScore(hit.similarity)}</span>
+                        <span>RRF {formatScore(hit.rrfScore)}</span>
+                        <span>重排 {formatScore(hit.rerankScore)}</span>
+                      </div>
+                      {hit.content !== hit.snippet ? (
+                        <details className="mt-2 text-sm">
+                          <summary className="cursor-pointer text-xs text-slate-500">上下文</summary>
+                          <p className="mt-1 whitespace-pre-wrap rounded-xl bg-slate-50 p-3 text-slate-600">{hit.content}</p>
+                        </details>
+                      ) : null}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </>
+          ) : null}
+        </section>
+      </div>
+      <CitationPreviewPanel
+        citation={citation}
+        onClose={() => setCitation(null)}
+      />
+    </main>
+  );
+}
@@ -5,7 +5,7 @@ import { getDocument, GlobalWorkerOptions, type PDFDocumentProxy } from "pdfjs-d
 import { DocxViewer } from "@/components/DocxViewer";
 import { PdfViewer, type PdfPageMetadata } from "@/components/PdfViewer";
 import { TextDocumentViewer, type TextDocumentSection } from "@/components/TextDocumentViewer";
-import { backendUrl, type KnowledgeBaseCitation } from "@/lib/knowledgeBaseApi";
+import { apiFetch, authHeaders, backendUrl, type KnowledgeBaseCitation } from "@/lib/knowledgeBaseApi";
 import { usePdfViewerStore } from "@/store/pdfViewerStore";
 
 interface CitationPreviewPanelProps {
@@ -36,30 +36,30 @@ export function CitationPreviewPanel({ citation, onClose }: CitationPreviewPanel
 
     const load = async () => {
       try {
-        const sourceResponse = await fetch(`${backendUrl}/documents/${citation.documentId}/source`);
+        const sourceResponse = await apiFetch(`${backendUrl}/documents/${citation.documentId}/source`);
         if (!sourceResponse.ok) throw new Error("source_not_found");
         const sourceDocument = await sourceResponse.json() as SourceDocument;
         if (cancelled) return;
         setSource(sourceDocument);
 
         if (sourceDocument.fileType === "pdf") {
-          const regionsResponse = await fetch(`${backendUrl}/documents/${citation.documentId}/regions`);
+          const regionsResponse = await apiFetch(`${backendUrl}/documents/${citation.documentId}/regions`);
           if (!regionsResponse.ok) throw new Error("regions_not_found");
           const regions = await regionsResponse.json() as { pages: PdfPageMetadata[] };
           setPages(regions.pages);
           GlobalWorkerOptions.workerSrc = GlobalWorkerOptions.workerSrc || "https://unpkg.com/pdfjs-dist@4.10.38/build/pdf.worker.min.mjs";
-          pdfRef.current = await getDocument(`${backendUrl}/files/${citation.documentId}`).promise;
+          pdfRef.current = await getDocument({ url: `${backendUrl}/files/${citation.documentId}`, httpHeaders: authHeaders() }).promise;
           return;
         }
 
         if (sourceDocument.fileType === "docx") {
-          const htmlResponse = await fetch(`${backendUrl}/documents/${citation.documentId}/html`);
+          const htmlResponse = await apiFetch(`${backendUrl}/documents/${citation.documentId}/html`);
           if (!htmlResponse.ok) throw new Error("html_not_found");
           setHtml(await htmlResponse.text());
           return;
         }
 
-        const sectionsResponse = await fetch(`${backendUrl}/documents/${citation.documentId}/sections`);
+        const sectionsResponse = await apiFetch(`${backendUrl}/documents/${citation.documentId}/sections`);
         if (!sectionsResponse.ok) throw new Error("sections_not_found");
         const body = await sectionsResponse.json() as { sections: TextDocumentSection[] };
         setSections(body.sections);
@@ -1,3 +1,4 @@
+import { Fragment } from "react";
 import type { KnowledgeBaseCitation } from "@/lib/knowledgeBaseApi";
 
 export interface ChatMessage {
@@ -7,16 +8,31 @@ export interface ChatMessage {
   status?: string;
   citations?: KnowledgeBaseCitation[];
   trace?: Array<{ type: string; data: Record<string, unknown> }>;
+  /** 同一父消息下的分支；仅从后端加载的消息才有，可据此重新生成 / 编辑 / 切换 */
+  siblingIds?: string[];
+  /** 重置上下文的回答：其后的提问不再携带之前的对话 */
+  contextBoundary?: boolean;
 }
 
 interface KnowledgeBaseChatProps {
   messages: ChatMessage[];
+  /** 生成回答期间禁用分支操作 */
+  busy?: boolean;
   onOpenCitation: (citation: KnowledgeBaseCitation) => void;
+  onRegenerate?: (message: ChatMessage) => void;
+  onEdit?: (message: ChatMessage) => void;
+  onSwitchBranch?: (messageId: string) => void;
 }
 
+const branchButtonClass = "rounded px-1.5 py-0.5 hover:bg-black/10 disabled:opacity-40";
+
 export function KnowledgeBaseChat({
   messages,
+  busy,
   onOpenCitation,
+  onRegenerate,
+  onEdit,
+  onSwitchBranch,
 }: KnowledgeBaseChatProps) {
   if (messages.length === 0) {
     return (
@@ -26,36 +42,90 @@ export function KnowledgeBaseChat({
     );
   }
 
-  return messages.map((message) => (
-    <article
-      key={message.id}
-      className={
-        message.role === "user"
-          ? "ml-auto max-w-2xl rounded-2xl bg-slate-900 p-4 text-white"
-          : "mr-auto max-w-3xl rounded-2xl bg-slate-100 p-4"
-      }
-    >
-      <p className="whitespace-pre-wrap text-sm">
-        {message.content || message.status}
-      </p>
-      {message.citations?.map((citation) => (
-        <button
-          key={`${citation.documentId}-${citation.chunkId}`}
-          type="button"
-          onClick={() => onOpenCitation(citation)}
-          className="mt-3 block text-left text-xs text-indigo-600"
+  return messages.map((message) => {
+    const siblings = message.siblingIds ?? [];
+    const index = siblings.indexOf(message.id);
+
+    return (
+      <Fragment key={message.id}>
+        <article
+          className={
+            message.role === "user"
+              ? "ml-auto max-w-2xl rounded-2xl bg-slate-900 p-4 text-white"
+              : "mr-auto max-w-3xl rounded-2xl bg-slate-100 p-4"
+          }
         >
-          {citation.fileName} · 第 {citation.pageNumber} 页
-        </button>
-      ))}
-      {message.trace?.length ? (
-        <details className="mt-3 text-xs text-slate-500">
-          <summary>查看检索过程</summary>
-          <pre className="mt-2 overflow-auto whitespace-pre-wrap">
-            {JSON.stringify(message.trace, null, 2)}
-          </pre>
-        </details>
-      ) : null}
-    </article>
-  ));
+          <p className="whitespace-pre-wrap text-sm">
+            {message.content || message.status}
+          </p>
+          {message.citations?.map((citation) => (
+            <button
+              key={`${citation.documentId}-${citation.chunkId}`}
+              type="button"
+              onClick={() => onOpenCitation(citation)}
+              className="mt-3 block text-left text-xs text-indigo-600"
+            >
+              {citation.fileName} · 第 {citation.pageNumber} 页
+            </button>
+          ))}
+          {message.trace?.length ? (
+            <details className="mt-3 text-xs text-slate-500">
+              <summary>查看检索过程</summary>
+              <pre className="mt-2 overflow-auto whitespace-pre-wrap">
+                {JSON.stringify(message.trace, null, 2)}
+              </pre>
+            </details>
+          ) : null}
+          {message.siblingIds ? (
+            <div
+              className={`mt-3 flex items-center gap-1 text-xs ${message.role === "user" ? "text-slate-300" : "text-slate-500"}`}
+            >
+              {siblings.length > 1 && onSwitchBranch ? (
+                <>
+                  <button
+                    type="button"
+                    disabled={busy || index <= 0}
+                    onClick={() => onSwitchBranch(siblings[index - 1])}
+                    className={branchButtonClass}
+                    aria-label="上一个分支"
+                  >
+                    ‹
+                  </button>
+                  <span>
+                    {index + 1} / {siblings.length}
+                  </span>
+                  <button
+                    type="button"
+                    disabled={busy || index >= siblings.length - 1}
+                    onClick={() => onSwitchBranch(siblings[index + 1])}
+                    className={branchButtonClass}
+                    aria-label="下一个分支"
+                  >
+                    ›
+                  </button>
+                </>
+              ) : null}
+              {message.role === "user" && onEdit ? (
+                <button type="button" disabled={busy} onClick={() => onEdit(message)} className={branchButtonClass}>
+                  编辑
+                </button>
+              ) : null}
+              {message.role === "assistant" && onRegenerate ? (
+                <button type="button" disabled={busy} onClick={() => onRegenerate(message)} className={branchButtonClass}>
+                  {message.status === "failed" ? "重试" : "重新生成"}
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+        </article>
+        {message.contextBoundary ? (
+          <div className="flex items-center gap-3 text-xs text-slate-400">
+            <span className="h-px flex-1 bg-slate-200" />
+            上下文已清除，之后的问题作为新话题
+            <span className="h-px flex-1 bg-slate-200" />
+          </div>
+        ) : null}
+      </Fragment>
+    );
+  });
 }
@@ -1,26 +1,206 @@
-import type { KnowledgeBaseDocument } from "@/lib/knowledgeBaseApi";
+'use client';
+
+import { useState } from "react";
+import type { DocumentMetadataInput, KnowledgeBaseDocument } from "@/lib/knowledgeBaseApi";
+
+export type DocumentAction = "archive" | "restore" | "delete" | "purge";
 
 interface KnowledgeBaseDocumentListProps {
   documents: KnowledgeBaseDocument[];
+  onAction?: (document: KnowledgeBaseDocument, action: DocumentAction) => void;
+  /** 保存成功返回 true，编辑框随之关闭 */
+  onUpdateMetadata?: (document: KnowledgeBaseDocument, input: DocumentMetadataInput) => Promise<boolean>;
+  pendingDocumentId?: string | null;
+  /** 固定到当前对话的文档，提问只在这些文档中检索 */
+  pinnedDocumentIds?: string[];
+  onTogglePin?: (document: KnowledgeBaseDocument) => void;
+}
+
+const actionButtonClass =
+  "rounded-md px-2 py-1 text-xs text-slate-500 hover:bg-slate-100 hover:text-slate-800 disabled:opacity-50";
+
+const inputClass = "w-full rounded-md border px-2 py-1 text-xs";
+
+/** "a, b，c" → ["a", "b", "c"]，去重交给后端 */
+function parseTags(value: string) {
+  return value.split(/[,，]/).map((tag) => tag.trim()).filter(Boolean);
+}
+
+function DocumentMetadataEditor({
+  document,
+  pending,
+  onSave,
+  onCancel,
+}: {
+  document: KnowledgeBaseDocument;
+  pending: boolean;
+  onSave: (input: DocumentMetadataInput) => void;
+  onCancel: () => void;
+}) {
+  const [tags, setTags] = useState(document.tags.join(", "));
+  const [sourceLabel, setSourceLabel] = useState(document.sourceLabel ?? "");
+  const [publishedAt, setPublishedAt] = useState(document.publishedAt?.slice(0, 10) ?? "");
+
+  return (
+    <form
+      className="mt-2 space-y-2"
+      onSubmit={(event) => {
+        event.preventDefault();
+        onSave({
+          tags: parseTags(tags),
+          sourceLabel: sourceLabel.trim() || null,
+          publishedAt: publishedAt || null,
+        });
+      }}
+    >
+      <input
+        value={tags}
+        onChange={(event) => setTags(event.target.value)}
+        placeholder="标签，用逗号分隔"
+        className={inputClass}
+      />
+      <input
+        value={sourceLabel}
+        onChange={(event) => setSourceLabel(event.target.value)}
+        placeholder="来源"
+        className={inputClass}
+      />
+      <input
+        type="date"
+        value={publishedAt}
+        onChange={(event) => setPublishedAt(event.target.value)}
+        className={inputClass}
+      />
+      <div className="flex justify-end gap-1">
+        <button type="button" onClick={onCancel} className={actionButtonClass}>
+          取消
+        </button>
+        <button
+          type="submit"
+          disabled={pending}
+          className="rounded-md bg-indigo-600 px-2 py-1 text-xs text-white disabled:opacity-50"
+        >
+          保存
+        </button>
+      </div>
+    </form>
+  );
 }
 
 export function KnowledgeBaseDocumentList({
   documents,
+  onAction,
+  onUpdateMetadata,
+  pendingDocumentId,
+  pinnedDocumentIds = [],
+  onTogglePin,
 }: KnowledgeBaseDocumentListProps) {
+  const [editingDocumentId, setEditingDocumentId] = useState<string | null>(null);
+
   return (
     <aside className="flex min-h-0 flex-col overflow-hidden rounded-2xl border bg-white p-5 shadow-sm">
       <h2 className="shrink-0 font-semibold">
         知识库文档 ({documents.length})
       </h2>
       <div className="mt-4 min-h-0 flex-1 space-y-2 overflow-y-auto">
-        {documents.map((document) => (
-          <div key={document.id} className="rounded-xl border p-3">
-            <p className="truncate text-sm font-medium">{document.fileName}</p>
-            <p className="mt-1 text-xs uppercase text-slate-400">
-              {document.fileType}
-            </p>
-          </div>
-        ))}
+        {documents.map((document) => {
+          const archived = Boolean(document.archivedAt);
+          const pending = pendingDocumentId === document.id;
+          const editing = editingDocumentId === document.id;
+          const pinned = pinnedDocumentIds.includes(document.id);
+          return (
+            <div
+              key={document.id}
+              className={`rounded-xl border p-3 ${archived ? "bg-slate-50" : ""} ${pinned ? "border-indigo-300" : ""}`}
+            >
+              <p className={`truncate text-sm font-medium ${archived ? "text-slate-400" : ""}`}>
+                {document.fileName}
+              </p>
+              <p className="mt-1 text-xs uppercase text-slate-400">
+                {document.fileType}
+                {archived ? <span className="ml-2 normal-case">已归档 · 不参与检索</span> : null}
+                {document.visibility === "private" ? <span className="ml-2 normal-case">仅自己可见</span> : null}
+                {document.visibility === "groups" ? (
+                  <span className="ml-2 normal-case">限 {document.aclGroups.join("、")} 可见</span>
+                ) : null}
+              </p>
+              {!editing && (document.sourceLabel || document.publishedAt) ? (
+                <p className="mt-1 truncate text-xs text-slate-500">
+                  {[document.sourceLabel, document.publishedAt?.slice(0, 10)].filter(Boolean).join(" · ")}
+                </p>
+              ) : null}
+              {!editing && document.tags.length > 0 ? (
+                <div className="mt-1 flex flex-wrap gap-1">
+                  {document.tags.map((tag) => (
+                    <span key={tag} className="rounded bg-indigo-50 px-1.5 py-0.5 text-xs text-indigo-600">
+                      {tag}
+                    </span>
+                  ))}
+                </div>
+              ) : null}
+              {editing && onUpdateMetadata ? (
+                <DocumentMetadataEditor
+                  document={document}
+                  pending={pending}
+                  onCancel={() => setEditingDocumentId(null)}
+                  onSave={(input) => {
+                    void onUpdateMetadata(document, input).then((saved) => {
+                      if (saved) setEditingDocumentId(null);
+                    });
+                  }}
+                />
+              ) : null}
+              {onAction && !editing ? (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {onTogglePin && !archived ? (
+                    <button
+                      type="button"
+                      disabled={pending}
+                      onClick={() => onTogglePin(document)}
+                      className={`${actionButtonClass} ${pinned ? "text-indigo-600" : ""}`}
+                    >
+                      {pinned ? "取消固定" : "固定到对话"}
+                    </button>
+                  ) : null}
+                  {onUpdateMetadata ? (
+                    <button
+                      type="button"
+                      disabled={pending}
+                      onClick={() => setEditingDocumentId(document.id)}
+                      className={actionButtonClass}
+                    >
+                      编辑
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => onAction(document, archived ? "restore" : "archive")}
+                    className={actionButtonClass}
+                  >
+                    {archived ? "恢复" : "归档"}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => onAction(document, "delete")}
+                    className={actionButtonClass}
+                  >
+                    删除
+                  </button>
+                  <button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => onAction(document, "purge")}
+                    className={`${actionButtonClass} text-red-500 hover:bg-red-50 hover:text-red-700`}
+                  >
+                    彻底删除
+                  </button>
+                </div>
+              ) : null}
+            </div>
+          );
+        })}
       </div>
     </aside>
   );
@@ -0,0 +1,122 @@
+'use client';
+
+import { useState } from "react";
+import type { AgentSessionSummary } from "@/lib/knowledgeBaseApi";
+
+interface KnowledgeBaseSessionListProps {
+  sessions: AgentSessionSummary[];
+  total: number;
+  activeSessionId: string | null;
+  loading?: boolean;
+  onSearch: (query: string) => void;
+  onOpen: (session: AgentSessionSummary) => void;
+  onNew: () => void;
+  onRename: (session: AgentSessionSummary) => void;
+  onDelete: (session: AgentSessionSummary) => void;
+  onLoadMore?: () => void;
+}
+
+const actionButtonClass =
+  "rounded-md px-1.5 py-0.5 text-xs text-slate-400 hover:bg-slate-100 hover:text-slate-700";
+
+function formatUpdatedAt(value: string) {
+  const date = new Date(value);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" })
+    : date.toLocaleDateString("zh-CN");
+}
+
+export function KnowledgeBaseSessionList({
+  sessions,
+  total,
+  activeSessionId,
+  loading,
+  onSearch,
+  onOpen,
+  onNew,
+  onRename,
+  onDelete,
+  onLoadMore,
+}: KnowledgeBaseSessionListProps) {
+  const [query, setQuery] = useState("");
+
+  return (
+    <aside className="hidden min-h-0 flex-col overflow-hidden rounded-2xl border bg-white p-4 shadow-sm lg:flex">
+      <div className="flex shrink-0 items-center justify-between">
+        <h2 className="font-semibold">对话</h2>
+        <button
+          type="button"
+          onClick={onNew}
+          className="rounded-md px-2 py-1 text-xs text-indigo-600 hover:bg-indigo-50"
+        >
+          新对话
+        </button>
+      </div>
+      <form
+        className="mt-3 shrink-0"
+        onSubmit={(event) => {
+          event.preventDefault();
+          onSearch(query.trim());
+        }}
+      >
+        <input
+          value={query}
+          onChange={(event) => {
+            setQuery(event.target.value);
+            if (!event.target.value) onSearch("");
+          }}
+          placeholder="搜索标题或消息…"
+          className="w-full rounded-md border px-2 py-1.5 text-xs"
+        />
+      </form>
+      <div className="mt-3 min-h-0 flex-1 space-y-1 overflow-y-auto">
+        {sessions.length === 0 && !loading ? (
+          <p className="py-6 text-center text-xs text-slate-400">暂无对话</p>
+        ) : null}
+        {sessions.map((session) => (
+          <div
+            key={session.id}
+            className={`group rounded-lg px-2 py-2 ${session.id === activeSessionId ? "bg-indigo-50" : "hover:bg-slate-50"}`}
+          >
+            <button
+              type="button"
+              onClick={() => onOpen(session)}
+              className="block w-full text-left"
+            >
+              <p className="truncate text-sm">{session.title || "未命名对话"}</p>
+              <p className="mt-0.5 text-xs text-slate-400">
+                {formatUpdatedAt(session.updatedAt)} · {session.messageCount} 条消息
+              </p>
+              {session.matchedSnippet ? (
+                <p className="mt-1 line-clamp-2 text-xs text-slate-500">{session.matchedSnippet}</p>
+              ) : null}
+            </button>
+            <div className="mt-1 hidden gap-1 group-hover:flex">
+              <button type="button" onClick={() => onRename(session)} className={actionButtonClass}>
+                重命名
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(session)}
+                className={`${actionButtonClass} hover:text-red-600`}
+              >
+                删除
+              </button>
+            </div>
+          </div>
+        ))}
+        {onLoadMore && sessions.length < total ? (
+          <button
+            type="button"
+            onClick={onLoadMore}
+            disabled={loading}
+            className="w-full rounded-md py-1.5 text-xs text-slate-500 hover:bg-slate-50 disabled:opacity-50"
+          >
+            {loading ? "加载中…" : "加载更多"}
+          </button>
+        ) : null}
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Workspace } from "@/lib/knowledgeBaseApi";
+
+interface WorkspaceSwitcherProps {
+  workspaces: Workspace[];
+  activeWorkspaceId: string | null;
+  disabled?: boolean;
+  onChange: (workspaceId: string) => void;
+  onCreate: () => void;
+}
+
+export function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspaceId,
+  disabled,
+  onChange,
+  onCreate,
+}: WorkspaceSwitcherProps) {
+  return (
+    <div className="flex items-center gap-2">
+      <select
+        value={activeWorkspaceId ?? ""}
+        onChange={(event) => onChange(event.target.value)}
+        disabled={disabled || workspaces.length === 0}
+        aria-label="切换知识库"
+        className="rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm disabled:opacity-50"
+      >
+        {workspaces.map((workspace) => (
+          <option key={workspace.id} value={workspace.id}>
+            {workspace.name}（{workspace.documentCount}）
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        onClick={onCreate}
+        disabled={disabled}
+        className="rounded-xl border border-slate-200 px-3 py-2.5 text-sm text-slate-600 hover:bg-slate-50 disabled:opacity-50"
+      >
+        新建知识库
+      </button>
+    </div>
+  );
+}
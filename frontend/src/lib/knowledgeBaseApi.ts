@@ -16,9 +16,30 @@ export interface KnowledgeBaseDocument {
   sourceLabel: string | null;
   publishedAt: string | null;
   tags: string[];
+  /** workspace：工作区成员可见；private：仅上传者；groups：上传者与 aclGroups 中的用户组 */
+  visibility: "workspace" | "private" | "groups";
+  aclGroups: string[];
+  archivedAt: string | null;
   createdAt: string;
 }
 
+export interface Workspace {
+  id: string;
+  name: string;
+  /** 当前用户在该工作区的角色；admin 访问非成员工作区时为 null */
+  role: "owner" | "member" | null;
+  documentCount: number;
+  createdAt: string;
+}
+
+/** 可人工编辑的文档元数据；未提供的字段保持不变，null 表示清空 */
+export interface DocumentMetadataInput {
+  tags?: string[];
+  sourceLabel?: string | null;
+  /** ISO 日期，如 "2024-05-01" */
+  publishedAt?: string | null;
+}
+
 export type IngestionStage =
   | "queued"
   | "extracting_text"
@@ -34,6 +55,8 @@ export interface IngestionTask {
   fileName: string;
   stage: IngestionStage;
   progress: number;
+  queuePosition?: number;
+  etaSeconds?: number;
   error?: string;
 }
 
@@ -51,14 +74,50 @@ export interface UploadResult {
 export interface UploadOptions {
   signal?: AbortSignal;
   existingUploadId?: string;
+  /** 上传时填写的元数据，入库完成后不会被自动提取结果覆盖 */
+  metadata?: DocumentMetadataInput;
   onProgress?: (progress: UploadProgress) => void;
   onUploadId?: (uploadId: string) => void;
 }
 
 const backendUrl = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:4000";
+const AUTH_TOKEN_STORAGE_KEY = "visualrag.authToken";
+const WORKSPACE_STORAGE_KEY = "visualrag.workspaceId";
 const MAX_RETRIES = 3;
 const RETRY_BASE_DELAY_MS = 1_000;
 
+/**
+ * 后端开启认证（AUTH_MODE=required）时携带的令牌：
+ * 优先读取 localStorage，其次是构建时配置的 NEXT_PUBLIC_API_TOKEN。
+ */
+export function authHeaders(): Record<string, string> {
+  const stored = typeof window === "undefined" ? null : window.localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+  const token = stored || process.env.NEXT_PUBLIC_API_TOKEN;
+  const workspaceId = getActiveWorkspaceId();
+  return {
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    // 未选择时后端使用默认工作区
+    ...(workspaceId ? { "x-workspace-id": workspaceId } : {}),
+  };
+}
+
+export function getActiveWorkspaceId(): string | null {
+  return typeof window === "undefined" ? null : window.localStorage.getItem(WORKSPACE_STORAGE_KEY);
+}
+
+export function setActiveWorkspaceId(workspaceId: string): void {
+  window.localStorage.setItem(WORKSPACE_STORAGE_KEY, workspaceId);
+}
+
+/** 附带认证头的 fetch，所有后端请求都经过它 */
+export function apiFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  for (const [name, value] of Object.entries(authHeaders())) {
+    if (!headers.has(name)) headers.set(name, value);
+  }
+  return fetch(input, { ...init, headers });
+}
+
 function isAbortError(cause: unknown): boolean {
   return cause instanceof DOMException && cause.name === "AbortError";
 }
@@ -92,7 +151,7 @@ async function fetchWithRetry(
 ): Promise<Response> {
   for (let attempt = 0; ; attempt += 1) {
     try {
-      const response = await fetch(input, init);
+      const response = await apiFetch(input, init);
       if (!isRetryableStatus(response.status) || attempt >= MAX_RETRIES) {
         return response;
       }
@@ -115,18 +174,67 @@ async function readError(response: Response): Promise<string> {
   }
 }
 
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const response = await apiFetch(`${backendUrl}/workspaces`);
+  if (!response.ok) throw new Error(await readError(response));
+  const body = await response.json() as { workspaces: Workspace[] };
+  return body.workspaces;
+}
+
+export async function createWorkspace(name: string): Promise<{ id: string; name: string }> {
+  const response = await apiFetch(`${backendUrl}/workspaces`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json() as Promise<{ id: string; name: string }>;
+}
+
 export async function listKnowledgeBaseDocuments(): Promise<KnowledgeBaseDocument[]> {
-  const response = await fetch(`${backendUrl}/knowledge-base/documents`);
+  const response = await apiFetch(`${backendUrl}/knowledge-base/documents`);
   if (!response.ok) throw new Error(await readError(response));
   const body = await response.json() as { documents: KnowledgeBaseDocument[] };
   return body.documents;
 }
 
+export async function archiveKnowledgeBaseDocument(documentId: string): Promise<void> {
+  const response = await apiFetch(`${backendUrl}/documents/${documentId}/archive`, { method: "POST" });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+export async function restoreKnowledgeBaseDocument(documentId: string): Promise<void> {
+  const response = await apiFetch(`${backendUrl}/documents/${documentId}/restore`, { method: "POST" });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+export async function updateKnowledgeBaseDocument(
+  documentId: string,
+  input: DocumentMetadataInput,
+): Promise<void> {
+  const response = await apiFetch(`${backendUrl}/documents/${documentId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+/** 默认软删除；purge 为 true 时彻底删除文档及其源文件 */
+export async function deleteKnowledgeBaseDocument(
+  documentId: string,
+  options: { purge?: boolean } = {},
+): Promise<void> {
+  const query = options.purge ? "?purge=true" : "";
+  const response = await apiFetch(`${backendUrl}/documents/${documentId}${query}`, { method: "DELETE" });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
 export async function uploadKnowledgeBaseDocument(
   file: File,
   options: UploadOptions = {},
 ): Promise<UploadResult> {
-  const { existingUploadId, onProgress, onUploadId, signal } = options;
+  const { existingUploadId, metadata, onProgress, onUploadId, signal } = options;
   onProgress?.({ phase: "hashing", progress: 0 });
   const buffer = await file.arrayBuffer();
   const hashBuffer = await crypto.subtle.digest("SHA-256", buffer);
@@ -145,6 +253,7 @@ export async function uploadKnowledgeBaseDocument(
       hash,
       chunkSize,
       ...(existingUploadId ? { existingUploadId } : {}),
+      ...(metadata ? { metadata } : {}),
     }),
     signal,
   });
@@ -210,7 +319,7 @@ export async function getIngestionTask(
   taskId: string,
   signal?: AbortSignal,
 ): Promise<IngestionTask> {
-  const response = await fetch(`${backendUrl}/tasks/${taskId}`, { signal });
+  const response = await apiFetch(`${backendUrl}/tasks/${taskId}`, { signal });
   if (!response.ok) throw new Error(await readError(response));
   return response.json();
 }
@@ -226,39 +335,149 @@ export type AgentStreamEvent = {
   data: Record<string, unknown>;
 };
 
+/** 检索档位：precise 默认、broad 召回更多、fast 更快；具体参数由后端配置 */
+export type RetrievalProfileName = "precise" | "broad" | "fast";
+
 export interface AgentSession {
   id: string;
   documentId: string | null;
+  /** 会话检索范围：固定的文档与标签取并集，都为空时检索整个知识库 */
+  documentIds: string[];
+  tags: string[];
+  /** 当前分支末端消息 */
+  activeLeafId: string | null;
+  /** 最近一次重置上下文的回答，之后的提问不再携带更早的历史 */
+  /** 会话的检索档位；为空时使用后端默认档位 */
+  retrievalProfile: RetrievalProfileName | null;
   title: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
-export async function createAgentSession(): Promise<AgentSession> {
-  const response = await fetch(`${backendUrl}/agent/sessions`, {
+export interface AgentSessionSummary extends AgentSession {
+  messageCount: number;
+  /** 搜索命中消息内容时的摘要 */
+  matchedSnippet: string | null;
+}
+
+export interface AgentSessionPage {
+  sessions: AgentSessionSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/** GET /agent/sessions/:id/messages 返回的持久化消息 */
+export interface StoredAgentMessage {
+  id: string;
+  sessionId: string;
+  parentId: string | null;
+  /** 同一父消息下的全部分支（含自身），按创建时间排序 */
+  siblingIds: string[];
+  contextBoundary: boolean;
+  role: "user" | "assistant" | "system";
+  content: string;
+  status: "processing" | "completed" | "failed" | "cancelled";
+  /** AGENT_RUN_ORPHANED：执行进程中途退出，回答被标记为失败 */
+  errorCode: string | null;
+  citations: { items?: KnowledgeBaseCitation[] } | null;
+  createdAt: string;
+}
+
+export interface AgentSessionScope {
+  documentIds?: string[];
+  tags?: string[];
+}
+
+export async function createAgentSession(
+  scope: AgentSessionScope & { retrievalProfile?: RetrievalProfileName } = {},
+): Promise<AgentSession> {
+  const response = await apiFetch(`${backendUrl}/agent/sessions`, {
     method: "POST",
     headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({}),
+    body: JSON.stringify(scope),
   });
   if (!response.ok) throw new Error(await readError(response));
   return response.json();
 }
 
-export async function streamAgentMessage(
+export async function updateAgentSession(
   sessionId: string,
-  content: string,
-  onEvent: (event: AgentStreamEvent) => void | Promise<void>,
-  signal?: AbortSignal,
-): Promise<void> {
-  const response = await fetch(`${backendUrl}/agent/sessions/${sessionId}/messages/stream`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
-    body: JSON.stringify({ content }),
-    signal,
+  input: AgentSessionScope & {
+    title?: string | null;
+    activeMessageId?: string;
+    retrievalProfile?: RetrievalProfileName | null;
+  },
+): Promise<AgentSession> {
+  const response = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
   });
-  if (!response.ok || !response.body) throw new Error(await readError(response));
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+}
+
+export async function listAgentSessions(
+  options: { q?: string; page?: number; pageSize?: number } = {},
+): Promise<AgentSessionPage> {
+  const params = new URLSearchParams();
+  if (options.q) params.set("q", options.q);
+  if (options.page) params.set("page", String(options.page));
+  if (options.pageSize) params.set("pageSize", String(options.pageSize));
+  const response = await apiFetch(`${backendUrl}/agent/sessions?${params}`);
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+}
 
-  const reader = response.body.getReader();
+export async function getAgentSessionMessages(
+  sessionId: string,
+): Promise<{ session: AgentSession; messages: StoredAgentMessage[] }> {
+  const response = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}/messages`);
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+}
+
+export async function deleteAgentSession(sessionId: string): Promise<void> {
+  const response = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}`, { method: "DELETE" });
+  if (!response.ok) throw new Error(await readError(response));
+}
+
+/** 停止会话中正在生成的回答；没有进行中的回答时 cancelled 为 false */
+export async function cancelAgentMessage(
+  sessionId: string,
+): Promise<{ messageId: string | null; cancelled: boolean }> {
+  const response = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}/cancel`, { method: "POST" });
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+}
+
+/** 限定本次检索的页码 / 章节序号范围（含两端）、标题关键词或第 N 章 */
+export interface AgentSectionFilters {
+  pageRange?: [number, number];
+  sectionRange?: [number, number];
+  sectionPath?: string[];
+  chapter?: number;
+}
+
+/**
+ * 普通提问只需 content；editMessageId 编辑重发，regenerateMessageId 重新生成回答。
+ * sections / profile 可选，重新生成时不传则沿用原问题的设置；profile 优先于会话档位。
+ */
+type AgentRequestOptions = { sections?: AgentSectionFilters; profile?: RetrievalProfileName };
+
+export type AgentMessageInput =
+  | ({ content: string; editMessageId?: string } & AgentRequestOptions)
+  | ({ regenerateMessageId: string } & AgentRequestOptions);
+
+/** 收到这些事件表示回答已结束，不再续传 */
+const TERMINAL_AGENT_EVENTS = new Set(["message.completed", "message.failed", "message.cancelled"]);
+
+async function readAgentEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: AgentStreamEvent) => void | Promise<void>,
+): Promise<void> {
+  const reader = body.getReader();
   const decoder = new TextDecoder();
   let buffer = "";
   while (true) {
@@ -279,4 +498,117 @@ export async function streamAgentMessage(
   }
 }
 
+/**
+ * 发送消息并读取事件流。连接在回答结束前中断时，带上 Last-Event-ID 重连续传，
+ * 服务端只重放缺失的事件；续传缓存已失效（404）时直接返回，由调用方重新加载消息。
+ */
+export async function streamAgentMessage(
+  sessionId: string,
+  input: AgentMessageInput,
+  onEvent: (event: AgentStreamEvent) => void | Promise<void>,
+  signal?: AbortSignal,
+): Promise<void> {
+  let response: Response | null = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}/messages/stream`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(input),
+    signal,
+  });
+  if (!response.ok || !response.body) throw new Error(await readError(response));
+
+  const progress: { last?: AgentStreamEvent; received: number } = { received: 0 };
+  const track = async (event: AgentStreamEvent) => {
+    progress.last = event;
+    progress.received += 1;
+    await onEvent(event);
+  };
+
+  // 连续失败的重连次数：续传的连接收到新事件即说明已恢复，多次互不相关的断线不累计
+  let attempt = 0;
+  for (;;) {
+    if (response && !response.ok) {
+      if (response.status === 404) return;
+      response = null;
+    }
+    if (response?.body) {
+      const received = progress.received;
+      try {
+        await readAgentEvents(response.body, track);
+      } catch (cause) {
+        if (isAbortError(cause)) throw cause;
+      }
+      if (progress.received > received) attempt = 0;
+    }
+    const last = progress.last;
+    // 还没拿到消息 id 时无从续传
+    if (!last || TERMINAL_AGENT_EVENTS.has(last.type)) return;
+    if (attempt >= MAX_RETRIES) throw new Error("agent_stream_interrupted");
+
+    await waitForRetry(RETRY_BASE_DELAY_MS * (2 ** attempt), signal);
+    attempt += 1;
+    response = await apiFetch(`${backendUrl}/agent/sessions/${sessionId}/messages/${last.messageId}/stream`, {
+      headers: { Accept: "text/event-stream", "Last-Event-ID": String(last.sequence) },
+      signal,
+    }).catch((cause: unknown) => {
+      if (isAbortError(cause)) throw cause;
+      return null;
+    });
+  }
+}
+
+/** 指定 documentIds 时只在这些文档中检索，此时 tags / fileTypes / publishedYear 不生效 */
+export interface KnowledgeBaseSearchFilters extends AgentSectionFilters {
+  documentIds?: string[];
+  tags?: string[];
+  fileTypes?: KnowledgeBaseSourceType[];
+  publishedYear?: number;
+}
+
+export interface KnowledgeBaseSearchInput {
+  query: string;
+  filters?: KnowledgeBaseSearchFilters;
+  topK?: number;
+  profile?: RetrievalProfileName;
+  skipRerank?: boolean;
+}
+
+/** 检索命中：snippet 为命中的 Chunk，content 为其父级上下文；分数未经过对应阶段时为 null */
+export interface KnowledgeBaseSearchHit {
+  rank: number;
+  chunkId: string | null;
+  documentId: string;
+  fileName: string | null;
+  fileType: KnowledgeBaseSourceType | null;
+  pageNumber: number;
+  snippet: string;
+  content: string;
+  parentContextId: string | null;
+  similarity: number | null;
+  rrfScore: number | null;
+  rerankScore: number | null;
+  source: "dense" | "bm25" | "hybrid" | null;
+}
+
+export interface KnowledgeBaseSearchResult {
+  query: string;
+  profile: RetrievalProfileName;
+  durationMs: number;
+  results: KnowledgeBaseSearchHit[];
+}
+
+/** 直接检索知识库，不经过 Agent */
+export async function searchKnowledgeBase(
+  input: KnowledgeBaseSearchInput,
+  signal?: AbortSignal,
+): Promise<KnowledgeBaseSearchResult> {
+  const response = await apiFetch(`${backendUrl}/search`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+    signal,
+  });
+  if (!response.ok) throw new Error(await readError(response));
+  return response.json();
+}
+
 export { backendUrl };